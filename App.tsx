@@ -10,19 +10,27 @@ import { UIOverlay } from './components/UIOverlay';
 import { JsonModal } from './components/JsonModal';
 import { PromptModal } from './components/PromptModal';
 import { WelcomeScreen } from './components/WelcomeScreen';
-import { Generators } from './utils/voxelGenerators';
-import { AppState, AppMode, VoxelData, SavedModel, GroundingSource, BuildTool, VoxelMaterial, CustomColor } from './types';
+import { GENERATORS, defaultParams, runGenerator } from './utils/voxelGenerators';
+import { AppState, AppMode, VoxelData, SavedModel, GroundingSource, BuildTool, VoxelMaterial, CustomColor, HistoryTimelineEntry, SessionDraft, GeneratorParams, GeneratorSettings, ShapeKind, BrushShape, SelectionMode, CollisionPolicy, Prefab, StampSettings, SymmetrySettings, SliceSettings, BooleanSettings, DemolishTool, RebuildChoreography, RebuildMatching } from './types';
 import { CONFIG } from './utils/voxelConstants';
 import { GoogleGenAI, Type } from "@google/genai";
 import { Search } from 'lucide-react';
 import { Sound } from './services/SoundService';
 import { ExporterService } from './services/ExporterService';
+import { VoxelPlugin, PluginContributions, ExporterContribution, GeneratorContribution } from './services/PluginRegistry';
 import { resizeThumbnail } from './utils/imageHelpers';
+import { voxelsToJson, parseVoxelJson, prefabsToJson, parsePrefabFile, parseSessionDraft } from './utils/voxelJson';
+import { anchorAtBase, stampVoxels } from './utils/voxelTransforms';
+import { DEFAULT_CHOREOGRAPHY } from './utils/voxelChoreography';
 
 const STORAGE_KEY = 'voxel_toybox_saved_models';
 const PALETTE_KEY = 'voxel_toybox_custom_palette';
+const PREFAB_KEY = 'voxel_toybox_prefabs';
 const AUTO_SAVE_KEY = 'voxel_toybox_current_draft';
 
+/** Plugins installed when the engine starts. */
+const PLUGINS: VoxelPlugin[] = [];
+
 /**
  * Root Application component. Manages UI state, interaction handlers, 
  * persistence, and calls to the VoxelEngine.
@@ -35,10 +43,21 @@ const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.STABLE);
   const [appMode, setAppMode] = useState<AppMode>(AppMode.VIEW);
   const [buildTool, setBuildTool] = useState<BuildTool>('pencil');
+  const [shapeKind, setShapeKind] = useState<ShapeKind>('box');
+  const [shapeHollow, setShapeHollow] = useState(false);
+  const [brushRadius, setBrushRadius] = useState(0);
+  const [brushShape, setBrushShape] = useState<BrushShape>('cube');
+  const [selectionMode, setSelectionMode] = useState<SelectionMode>('box');
+  const [selectionHeight, setSelectionHeight] = useState({ min: CONFIG.FLOOR_Y, max: CONFIG.FLOOR_Y + CONFIG.MAX_SELECTION_HEIGHT });
+  const [selectVisibleOnly, setSelectVisibleOnly] = useState(false);
+  const [collisionPolicy, setCollisionPolicy] = useState<CollisionPolicy>('overwrite');
+  const [hasPivot, setHasPivot] = useState(false);
   const [selectedColor, setSelectedColor] = useState<number>(0x3b82f6);
   const [selectedMaterial, setSelectedMaterial] = useState<VoxelMaterial>(VoxelMaterial.MATTE);
   const [voxelSize, setVoxelSize] = useState<number>(CONFIG.VOXEL_SIZE);
-  const [isMirrorMode, setIsMirrorMode] = useState(false);
+  const [symmetry, setSymmetry] = useState<SymmetrySettings>({ axes: { x: false, y: false, z: false }, origin: { x: 0, y: 0, z: 0 }, radial: 1 });
+  const [slice, setSlice] = useState<SliceSettings | null>(null);
+  const [workPlane, setWorkPlane] = useState<number | null>(null);
   const [isMuted, setIsMuted] = useState(false);
 
   // Selection State
@@ -46,6 +65,15 @@ const App: React.FC = () => {
 
   // Custom Palette state
   const [customPalette, setCustomPalette] = useState<CustomColor[]>([]);
+  const [prefabs, setPrefabs] = useState<Prefab[]>([]);
+  const [stamp, setStamp] = useState<StampSettings | null>(null);
+  const [booleanSettings, setBooleanSettings] = useState<BooleanSettings | null>(null);
+  const [showFloating, setShowFloating] = useState(false);
+  const [structuralGravity, setStructuralGravity] = useState(false);
+  const [demolishTool, setDemolishTool] = useState<DemolishTool | null>(null);
+  const [rebuildChoreography, setRebuildChoreography] = useState<RebuildChoreography>(DEFAULT_CHOREOGRAPHY);
+  const [rebuildMatching, setRebuildMatching] = useState<RebuildMatching>('nearest');
+  const [floatingReport, setFloatingReport] = useState<{ voxels: number; groups: number } | null>(null);
 
   // Stats & Modals
   const [voxelCount, setVoxelCount] = useState<number>(0);
@@ -65,15 +93,22 @@ const App: React.FC = () => {
   // History Tracking
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
-  const [canUndoSelection, setCanUndoSelection] = useState(false);
-  const [canRedoSelection, setCanRedoSelection] = useState(false);
+  const [historyTimeline, setHistoryTimeline] = useState<HistoryTimelineEntry[]>([]);
+
+  // Plugin contributions (tools, generators, exporters, panels)
+  const [pluginContributions, setPluginContributions] = useState<PluginContributions>({ tools: [], generators: [], exporters: [], panels: [] });
 
   // Content state
   const [currentBaseModel, setCurrentBaseModel] = useState<string>('Eagle');
+  const [currentGenerator, setCurrentGenerator] = useState<GeneratorSettings | null>({ id: 'Eagle', params: defaultParams(GENERATORS.Eagle) });
   const [customBuilds, setCustomBuilds] = useState<SavedModel[]>([]);
   const [customRebuilds, setCustomRebuilds] = useState<SavedModel[]>([]);
   const [groundingSources, setGroundingSources] = useState<GroundingSource[]>([]);
 
+  // Generator form: the scene shows a live preview until it is applied or cancelled
+  const [generatorForm, setGeneratorForm] = useState<{ generator: GeneratorContribution; params: GeneratorParams } | null>(null);
+  const previewBackupRef = useRef<SessionDraft | null>(null);
+
   /** Load persistent library and palette from storage on mount. */
   useEffect(() => {
     const saved = localStorage.getItem(STORAGE_KEY);
@@ -91,6 +126,16 @@ const App: React.FC = () => {
         setCustomPalette(JSON.parse(savedPalette));
       } catch (e) { console.error("Palette load error", e); }
     }
+
+    const savedPrefabs = localStorage.getItem(PREFAB_KEY);
+    if (savedPrefabs) {
+      try {
+        setPrefabs(parsePrefabFile(savedPrefabs));
+      } catch (e) {
+        console.error("Prefab load error", e);
+        setPrefabs([]);
+      }
+    }
     
     // Check for API key presence
     const checkKey = async () => {
@@ -115,31 +160,130 @@ const App: React.FC = () => {
     }
   }, [customBuilds, customRebuilds]);
 
+  /** Sync prefabs to storage when they change. Kept apart from the build library. */
+  useEffect(() => {
+    try {
+      localStorage.setItem(PREFAB_KEY, JSON.stringify(prefabs));
+    } catch (e) {
+      console.error("Storage limit reached", e);
+      alert("Storage full! Please delete some prefabs.");
+    }
+  }, [prefabs]);
+
+  /** Floats the active stamp under the pointer; every change re-applies rotation, mirror and colors. */
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (stamp && appMode === AppMode.BUILD) engine.beginStamp(stampVoxels(stamp));
+    else engine.cancelPaste();
+  }, [stamp, appMode]);
+
+  /** Re-previews a pending boolean whenever it or the scene under it changes. */
+  useEffect(() => {
+    engineRef.current?.previewBoolean(booleanSettings);
+  }, [booleanSettings, appMode, voxelCount]);
+
+  /** Keeps the floating-voxel analysis current while it is shown; every edit may connect or strand voxels. */
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (showFloating && appMode === AppMode.BUILD) {
+      setFloatingReport(engine.analyzeFloating());
+    } else {
+      engine.hideFloating();
+      setFloatingReport(null);
+    }
+  }, [showFloating, appMode, historyTimeline]);
+
+  /** Slicing and the work plane only apply while building. */
+  useEffect(() => {
+    engineRef.current?.setSlice(appMode === AppMode.BUILD ? slice : null);
+  }, [slice, appMode]);
+
+  useEffect(() => {
+    engineRef.current?.setWorkPlane(workPlane);
+  }, [workPlane]);
+
+  /** Demolition clicks only apply while viewing; building keeps the click for the tools. */
+  useEffect(() => {
+    engineRef.current?.setDemolishTool(appMode === AppMode.VIEW ? demolishTool : null);
+  }, [demolishTool, appMode]);
+
+  useEffect(() => {
+    engineRef.current?.setRebuildChoreography(rebuildChoreography);
+  }, [rebuildChoreography]);
+
+  useEffect(() => {
+    engineRef.current?.setRebuildMatching(rebuildMatching);
+  }, [rebuildMatching]);
+
   /** Sync palette to storage when it changes. */
   useEffect(() => {
     localStorage.setItem(PALETTE_KEY, JSON.stringify(customPalette));
   }, [customPalette]);
 
-  /** Persistence: Save the current canvas draft. */
+  /** Persistence: Save the current working session (voxels, history, camera, tool). */
   const performAutoSave = useCallback(() => {
-    if (!engineRef.current) return;
-    const data = engineRef.current.getVoxelData();
-    localStorage.setItem(AUTO_SAVE_KEY, JSON.stringify(data));
+    // A generator preview is not the user's work; the draft keeps the scene from before it
+    if (!engineRef.current || previewBackupRef.current) return;
+    const session = engineRef.current.getSession();
+    try {
+      localStorage.setItem(AUTO_SAVE_KEY, JSON.stringify(session));
+    } catch (e) {
+      // Storage full: keep the voxels and drop the history rather than losing the draft
+      console.warn("Draft too large, saving without history", e);
+      localStorage.setItem(AUTO_SAVE_KEY, JSON.stringify({ ...session, history: undefined }));
+    }
     setLastSaveTime(new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
   }, []);
 
+  /** Restores an auto-saved draft. Returns false if it could not be read. */
+  const restoreDraft = (raw: string): boolean => {
+    const engine = engineRef.current;
+    if (!engine) return false;
+    try {
+      const draft = parseSessionDraft(raw);
+      if (Array.isArray(draft)) {
+        // Old or damaged sessions come back as their voxels only
+        engine.loadInitialModel(draft);
+      } else {
+        engine.restoreSession(draft);
+        setBuildTool(draft.tool);
+        setSelectedColor(draft.color);
+        setSelectedMaterial(draft.material);
+      }
+      setCurrentBaseModel('Recovered Draft');
+      setCurrentGenerator(null);
+      return true;
+    } catch (e) {
+      console.error("Failed to load draft", e);
+      return false;
+    }
+  };
+
+  /** Live preview of the generator form. */
+  useEffect(() => {
+    if (!generatorForm) return;
+    const timer = setTimeout(() => engineRef.current?.loadInitialModel(runGenerator(generatorForm.generator, generatorForm.params)), 120);
+    return () => clearTimeout(timer);
+  }, [generatorForm]);
+
   /** Debounced auto-save on change. */
   useEffect(() => {
     if (voxelCount > 0) {
       const timer = setTimeout(performAutoSave, 2000);
       return () => clearTimeout(timer);
     }
-  }, [voxelCount, performAutoSave]);
+  }, [voxelCount, historyTimeline, performAutoSave]);
 
-  /** Fallback periodic save. */
+  /** Fallback periodic save, plus a final one when the page is closed. */
   useEffect(() => {
     const interval = setInterval(performAutoSave, 120000);
-    return () => clearInterval(interval);
+    window.addEventListener('beforeunload', performAutoSave);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('beforeunload', performAutoSave);
+    };
   }, [performAutoSave]);
 
   /** Global keybindings and interaction listeners. */
@@ -158,6 +302,34 @@ const App: React.FC = () => {
         if (e.key.toLowerCase() === 'b' && !e.ctrlKey && !e.metaKey) {
             handleToggleMode();
         }
+        if (e.key === 'Escape') {
+            engineRef.current?.cancelShape();
+            engineRef.current?.cancelPaste();
+            setStamp(null);
+            setBooleanSettings(null);
+        }
+        // Leave text fields their own clipboard
+        const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement;
+        if (!cmd && !typing && appMode === AppMode.BUILD) {
+            if (e.key === '[' || e.key === ']') {
+                const step = e.key === ']' ? 1 : -1;
+                setSlice(s => s && { ...s, level: s.level + step });
+            }
+            if (e.key === 'PageUp' || e.key === 'PageDown') {
+                e.preventDefault();
+                const step = e.key === 'PageUp' ? 1 : -1;
+                setWorkPlane(y => y === null ? null : y + step);
+            }
+        }
+        if (cmd && !typing && appMode === AppMode.BUILD) {
+            const key = e.key.toLowerCase();
+            if (key === 'c' || key === 'x') {
+                e.preventDefault(); handleCopy(key === 'x');
+            }
+            if (key === 'v') {
+                e.preventDefault(); handlePaste();
+            }
+        }
     };
 
     const handleInteract = () => Sound.resume();
@@ -173,34 +345,55 @@ const App: React.FC = () => {
     };
   }, [appMode, isAutoRotate]);
 
+  /** Copies (or cuts) the selection, mirroring it to the system clipboard as build JSON. */
+  const handleCopy = (cut: boolean) => {
+    const engine = engineRef.current;
+    const copied = cut ? engine?.cutSelection() : engine?.copySelection();
+    if (!copied) return;
+    navigator.clipboard?.writeText(voxelsToJson(copied)).catch(e => console.warn("System clipboard unavailable", e));
+  };
+
+  /** Pastes voxel JSON from the system clipboard, falling back to the in-app clipboard. */
+  const handlePaste = async () => {
+    let voxels: VoxelData[] | undefined;
+    try {
+      voxels = parseVoxelJson(await navigator.clipboard.readText());
+      if (voxels.length === 0) voxels = undefined;
+    } catch (e) {
+      // Not voxel JSON, or clipboard access was denied
+    }
+    engineRef.current?.beginPaste(voxels);
+  };
+
   /** Core Engine Initialization. */
   useEffect(() => {
     if (!containerRef.current) return;
 
-    const engine = new VoxelEngine(
-      containerRef.current,
-      (newState) => setAppState(newState),
-      (count) => setVoxelCount(count),
-      (color, mat) => {
-          setSelectedColor(color);
-          setSelectedMaterial(mat);
-          engineRef.current?.setBuildProps(color, mat);
-      },
-      (u, r) => { setCanUndo(u); setCanRedo(r); },
-      (selected) => setSelectedCount(selected),
-      (su, sr) => { setCanUndoSelection(su); setCanRedoSelection(sr); }
-    );
+    const engine = new VoxelEngine(containerRef.current);
+    const { events } = engine;
+    events.on('stateChanged', setAppState);
+    events.on('countChanged', setVoxelCount);
+    events.on('selectionChanged', setSelectedCount);
+    events.on('pivotChanged', pivot => setHasPivot(!!pivot));
+    events.on('colorPicked', ({ color, material }) => {
+        setSelectedColor(color);
+        setSelectedMaterial(material);
+        engine.setBuildProps(color, material);
+    });
+    events.on('historyChanged', ({ canUndo, canRedo }) => {
+        setCanUndo(canUndo); setCanRedo(canRedo);
+        setHistoryTimeline(engine.getHistoryTimeline());
+    });
+    events.on('pluginsChanged', () => setPluginContributions(engine.plugins.contributions));
+    // Keep the editor running when a plugin observer throws, but report it
+    events.onError((error, type) => console.error(`Error in "${String(type)}" handler`, error));
 
     engineRef.current = engine;
+    PLUGINS.forEach(plugin => engine.use(plugin));
     
     // Load recovery draft or default
     const recovered = localStorage.getItem(AUTO_SAVE_KEY);
-    if (recovered) {
-      try {
-        engine.loadInitialModel(JSON.parse(recovered));
-        setCurrentBaseModel('Recovered Draft');
-      } catch (e) { engine.loadInitialModel(Generators.Eagle()); }
-    } else { engine.loadInitialModel(Generators.Eagle()); }
+    if (!recovered || !restoreDraft(recovered)) engine.loadInitialModel(runGenerator(GENERATORS.Eagle));
 
     const handleResize = () => engine.handleResize();
     window.addEventListener('resize', handleResize);
@@ -245,7 +438,7 @@ const App: React.FC = () => {
     
     if (existingIndex !== -1 && currentBaseModel !== 'Recovered Draft') {
         const updated = [...customBuilds];
-        updated[existingIndex] = { ...updated[existingIndex], data, timestamp: Date.now(), thumbnail };
+        updated[existingIndex] = { ...updated[existingIndex], data, timestamp: Date.now(), thumbnail, generator: currentGenerator ?? undefined };
         setCustomBuilds(updated);
         performAutoSave();
         Sound.play('success');
@@ -264,7 +457,8 @@ const App: React.FC = () => {
             name: name.trim(), 
             data: engineRef.current.getVoxelData(), 
             timestamp: Date.now(),
-            thumbnail 
+            thumbnail,
+            generator: currentGenerator ?? undefined
         };
         setCustomBuilds(prev => [...prev.filter(b => b.name !== newModel.name), newModel]);
         setCurrentBaseModel(newModel.name);
@@ -280,15 +474,47 @@ const App: React.FC = () => {
       }
   };
 
+  const handleSavePrefab = async () => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    const data = engine.getSelectionData();
+    if (data.length === 0) return;
+    const name = window.prompt("Save selection as prefab:", "My Prefab");
+    if (!name?.trim()) return;
+    const thumbnail = await resizeThumbnail(engine.takeSnapshot());
+    const prefab: Prefab = { name: name.trim(), data: anchorAtBase(data), timestamp: Date.now(), thumbnail };
+    setPrefabs(prev => [...prev.filter(p => p.name !== prefab.name), prefab]);
+    Sound.play('success');
+  };
+
+  const handleStampPrefab = (prefab: Prefab) => {
+    if (appMode !== AppMode.BUILD) handleToggleMode();
+    setStamp({ prefab, turns: 0, mirror: false, swaps: {} });
+  };
+
+  const handleDeletePrefab = (index: number) => {
+    if (!window.confirm("Are you sure you want to delete this prefab?")) return;
+    if (stamp?.prefab === prefabs[index]) setStamp(null);
+    setPrefabs(prev => prev.filter((_, i) => i !== index));
+    Sound.play('break');
+  };
+
+  const handleImportPrefabs = async (file: File) => {
+    try {
+      const imported = parsePrefabFile(await file.text());
+      const names = new Set(imported.map(p => p.name));
+      // Imported prefabs replace local ones with the same name
+      setPrefabs(prev => [...prev.filter(p => !names.has(p.name)), ...imported]);
+      Sound.play('success');
+    } catch (e) {
+      console.error("Prefab import failed", e);
+      alert("This file is not a prefab library.");
+    }
+  };
+
   const handleLoadLatest = () => {
     const recovered = localStorage.getItem(AUTO_SAVE_KEY);
-    if (recovered) {
-      try {
-        engineRef.current?.loadInitialModel(JSON.parse(recovered));
-        setCurrentBaseModel('Recovered Draft');
-        Sound.play('ui');
-      } catch (e) { console.error("Failed to load draft", e); }
-    }
+    if (recovered && restoreDraft(recovered)) Sound.play('ui');
   };
 
   const handleLoadRecentBuild = () => {
@@ -302,6 +528,7 @@ const App: React.FC = () => {
     if (recent) {
         engineRef.current?.loadInitialModel(recent.data);
         setCurrentBaseModel(recent.name);
+        setCurrentGenerator(recent.generator ?? null);
         Sound.play('ui');
     }
   };
@@ -323,6 +550,54 @@ const App: React.FC = () => {
     Sound.play('success');
   };
 
+  const handlePluginExport = (exporter: ExporterContribution) => {
+    if (!engineRef.current) return;
+    const files = exporter.export(engineRef.current.getVoxelData());
+    // Stagger downloads so the browser does not drop any of them
+    files.forEach((file, i) => setTimeout(() => ExporterService.downloadFile(file.filename, file.content), i * 200));
+    Sound.play('success');
+  };
+
+  /** Opens the parameter form for a generator, or loads it directly if it has no parameters. */
+  const handleSelectGenerator = (generator: GeneratorContribution, params?: GeneratorParams) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (!generator.params?.length) {
+      engine.loadInitialModel(runGenerator(generator));
+      setCurrentBaseModel(generator.label);
+      setCurrentGenerator({ id: generator.id, params: {} });
+      return;
+    }
+    if (!previewBackupRef.current) previewBackupRef.current = engine.getSession();
+    setGeneratorForm({ generator, params: { ...defaultParams(generator), ...params } });
+  };
+
+  const handleApplyGenerator = () => {
+    if (!generatorForm) return;
+    const { generator, params } = generatorForm;
+    engineRef.current?.loadInitialModel(runGenerator(generator, params));
+    previewBackupRef.current = null;
+    setGeneratorForm(null);
+    setCurrentBaseModel(generator.label);
+    setCurrentGenerator({ id: generator.id, params });
+  };
+
+  const handleCancelGenerator = () => {
+    if (previewBackupRef.current) engineRef.current?.restoreSession(previewBackupRef.current);
+    previewBackupRef.current = null;
+    setGeneratorForm(null);
+  };
+
+  const findGenerator = (id: string): GeneratorContribution | undefined =>
+    Object.values(GENERATORS).find(g => g.id === id) ?? pluginContributions.generators.find(g => g.id === id);
+
+  /** Reopens the form with the seed and parameters that produced the current build. */
+  const handleRegenerate = () => {
+    const generator = currentGenerator && findGenerator(currentGenerator.id);
+    if (generator) handleSelectGenerator(generator, currentGenerator.params);
+    else alert("This build was not made by an installed generator.");
+  };
+
   const handleSaveColor = (color: number) => {
     const defaultName = `Color #${color.toString(16).padStart(6, '0')}`;
     const name = window.prompt("Enter a name for this color:", defaultName);
@@ -458,6 +733,7 @@ Rules:
                         const thumbnail = await resizeThumbnail(snapshot);
                         setCustomBuilds(p => [...p, { name: modelName, data, timestamp: Date.now(), thumbnail }]);
                         setCurrentBaseModel(modelName);
+                        setCurrentGenerator(null);
                         performAutoSave();
                     }
                 });
@@ -486,10 +762,25 @@ Rules:
     }
   };
 
-  const handleToggleMirror = () => {
-    const newState = !isMirrorMode;
-    setIsMirrorMode(newState);
-    engineRef.current?.setMirrorMode(newState);
+  const handleRenameHistory = (entry: HistoryTimelineEntry) => {
+    const name = window.prompt("Name this checkpoint (leave empty to clear):", entry.name ?? '');
+    if (name === null) return;
+    engineRef.current?.renameHistoryNode(entry.id, name.trim());
+  };
+
+  const handleToggleGravity = () => {
+    const enabled = !structuralGravity;
+    setStructuralGravity(enabled);
+    engineRef.current?.setStructuralGravity(enabled);
+  };
+
+  const handleApplyBoolean = () => {
+    if (booleanSettings && engineRef.current?.applyBoolean(booleanSettings)) setBooleanSettings(null);
+  };
+
+  const handleSetSymmetry = (settings: SymmetrySettings) => {
+    setSymmetry(settings);
+    engineRef.current?.setSymmetry(settings);
   };
 
   return (
@@ -498,40 +789,58 @@ Rules:
       
       <UIOverlay 
         voxelCount={voxelCount} appState={appState} appMode={appMode}
-        buildTool={buildTool} selectedColor={selectedColor} selectedMaterial={selectedMaterial}
+        buildTool={buildTool} shapeKind={shapeKind} shapeHollow={shapeHollow}
+        brushRadius={brushRadius} brushShape={brushShape} selectionMode={selectionMode}
+        selectionHeight={selectionHeight} selectVisibleOnly={selectVisibleOnly}
+        collisionPolicy={collisionPolicy} hasPivot={hasPivot} selectedColor={selectedColor} selectedMaterial={selectedMaterial}
         voxelSize={voxelSize}
         currentBaseModel={currentBaseModel} customBuilds={customBuilds}
         customRebuilds={customRebuilds.filter(r => r.baseModel === currentBaseModel)} 
         customPalette={customPalette}
+        prefabs={prefabs} stamp={stamp}
         selectedCount={selectedCount}
         isAutoRotate={isAutoRotate} isInfoVisible={showWelcome} isGenerating={isGenerating}
         groundingSources={groundingSources} 
         canUndo={canUndo} canRedo={canRedo} 
-        canUndoSelection={canUndoSelection} canRedoSelection={canRedoSelection}
         lastSaveTime={lastSaveTime}
-        isMirrorMode={isMirrorMode} isMuted={isMuted}
+        symmetry={symmetry} slice={slice} workPlane={workPlane} isMuted={isMuted}
         onUndo={() => engineRef.current?.undo()} onRedo={() => engineRef.current?.redo()}
-        onUndoSelection={() => engineRef.current?.undoSelection()} onRedoSelection={() => engineRef.current?.redoSelection()}
+        historyTimeline={historyTimeline}
+        onJumpToHistory={(id) => engineRef.current?.jumpToHistory(id)}
+        onRenameHistory={handleRenameHistory}
         onSnapshot={() => {
             const link = document.createElement('a');
             link.download = `voxel-${Date.now()}.png`; link.href = engineRef.current?.takeSnapshot() || '';
             link.click();
         }}
         onDismantle={() => engineRef.current?.dismantle()}
-        onRebuild={(t) => engineRef.current?.rebuild(Generators[t]())}
-        onNewScene={(t) => { engineRef.current?.loadInitialModel(Generators[t]()); setCurrentBaseModel(t); }}
+        onRebuild={(t) => engineRef.current?.rebuild(runGenerator(GENERATORS[t]))}
+        onNewScene={(t) => {
+            engineRef.current?.loadInitialModel(runGenerator(GENERATORS[t]));
+            setCurrentBaseModel(t);
+            setCurrentGenerator({ id: t, params: defaultParams(GENERATORS[t]) });
+        }}
         onRefresh={() => {
             const target = customBuilds.find(b => b.name === currentBaseModel);
-            engineRef.current?.loadInitialModel(target ? target.data : Generators.Eagle());
+            engineRef.current?.loadInitialModel(target ? target.data : runGenerator(GENERATORS.Eagle));
         }}
         onSaveCurrent={handleSaveCurrent}
         onSaveAs={handleSaveAs}
         onLoadLatest={handleLoadLatest}
         onLoadRecentBuild={handleLoadRecentBuild}
         onExportObj={handleExportObj}
+        pluginContributions={pluginContributions}
+        onPluginExport={handlePluginExport}
+        onSelectGenerator={(g) => handleSelectGenerator(g)}
+        generatorForm={generatorForm}
+        onGeneratorParamsChange={(params) => setGeneratorForm(form => form && { ...form, params })}
+        onApplyGenerator={handleApplyGenerator}
+        onCancelGenerator={handleCancelGenerator}
+        canRegenerate={currentGenerator !== null}
+        onRegenerate={handleRegenerate}
         onSaveColor={handleSaveColor}
         onDeleteColor={handleDeleteColor}
-        onSelectCustomBuild={(m) => { engineRef.current?.loadInitialModel(m.data); setCurrentBaseModel(m.name); }}
+        onSelectCustomBuild={(m) => { engineRef.current?.loadInitialModel(m.data); setCurrentBaseModel(m.name); setCurrentGenerator(m.generator ?? null); }}
         onSelectCustomRebuild={(m) => engineRef.current?.rebuild(m.data)}
         onDeleteBuild={handleDeleteBuild}
         onPromptCreate={() => {setPromptMode('create'); setIsPromptModalOpen(true);}}
@@ -540,28 +849,67 @@ Rules:
         onImportJson={() => { setJsonModalMode('import'); setIsJsonModalOpen(true); }}
         onToggleRotation={handleToggleRotation} onToggleInfo={() => setShowWelcome(!showWelcome)}
         onToggleMode={handleToggleMode}
-        onToggleMirror={handleToggleMirror}
+        onSetSymmetry={handleSetSymmetry}
+        onSetSlice={setSlice}
+        onSetWorkPlane={setWorkPlane}
+        onHollow={(t) => engineRef.current?.hollow(t)}
+        onFillInterior={() => engineRef.current?.fillInterior()}
+        onThickenWalls={() => engineRef.current?.thickenWalls()}
+        onThinWalls={() => engineRef.current?.thinWalls()}
+        booleanSettings={booleanSettings}
+        onSetBoolean={setBooleanSettings}
+        onApplyBoolean={handleApplyBoolean}
+        floatingReport={floatingReport}
+        structuralGravity={structuralGravity}
+        onToggleGravity={handleToggleGravity}
+        demolishTool={demolishTool}
+        rebuildChoreography={rebuildChoreography}
+        onSetRebuildChoreography={setRebuildChoreography}
+        rebuildMatching={rebuildMatching}
+        onSetRebuildMatching={setRebuildMatching}
+        onSetDemolishTool={setDemolishTool}
+        onToggleFloating={() => setShowFloating(!showFloating)}
+        onSelectFloating={() => engineRef.current?.selectFloating()}
+        onDeleteFloating={() => engineRef.current?.deleteFloating()}
+        onReattachFloating={() => engineRef.current?.reattachFloating()}
         onToggleMute={handleToggleMute}
         onSetTool={(t) => { setBuildTool(t); engineRef.current?.setTool(t); }}
+        onSetBrush={(radius, shape) => { setBrushRadius(radius); setBrushShape(shape); engineRef.current?.setBrush(radius, shape); }}
+        onSetSelectionMode={(mode) => { setSelectionMode(mode); engineRef.current?.setSelectionMode(mode); }}
+        onSetSelectionHeight={(min, max) => { setSelectionHeight({ min, max }); engineRef.current?.setSelectionHeight(min, max); }}
+        onToggleSelectVisibleOnly={() => { setSelectVisibleOnly(!selectVisibleOnly); engineRef.current?.setSelectVisibleOnly(!selectVisibleOnly); }}
+        onGrowSelection={() => engineRef.current?.growSelection()}
+        onShrinkSelection={() => engineRef.current?.shrinkSelection()}
+        onInvertSelection={() => engineRef.current?.invertSelection()}
+        onSetShape={(kind, hollow) => { setShapeKind(kind); setShapeHollow(hollow); engineRef.current?.setShapeOptions(kind, hollow); }}
         onSetMaterial={(m) => { setSelectedMaterial(m); engineRef.current?.setBuildProps(selectedColor, m); }}
         onSetSelectionMaterial={(m) => engineRef.current?.setSelectionMaterial(m)}
         onSetColor={(c) => { setSelectedColor(c); engineRef.current?.setBuildProps(c, selectedMaterial); }}
         onSetVoxelSize={(s) => { setVoxelSize(s); engineRef.current?.setVoxelSize(s); }}
         onDeleteSelected={() => engineRef.current?.deleteSelected()}
-        onCopySelected={() => engineRef.current?.copySelected()}
+        onDuplicateSelected={() => engineRef.current?.duplicateSelection()}
+        onSavePrefab={handleSavePrefab}
+        onStampPrefab={handleStampPrefab}
+        onUpdateStamp={setStamp}
+        onStopStamp={() => setStamp(null)}
+        onDeletePrefab={handleDeletePrefab}
+        onExportPrefabs={() => ExporterService.downloadFile('prefabs.json', prefabsToJson(prefabs))}
+        onImportPrefabs={handleImportPrefabs}
         onMoveSelected={(a, d) => engineRef.current?.moveSelected(a, d)}
+        onRotateSelected={(a, turns) => engineRef.current?.rotateSelection(a, turns)}
+        onMirrorSelected={(a) => engineRef.current?.mirrorSelection(a)}
+        onScaleSelected={(factor) => engineRef.current?.scaleSelection(factor)}
+        onSetCollisionPolicy={(policy) => { setCollisionPolicy(policy); engineRef.current?.setCollisionPolicy(policy); }}
+        onTogglePivot={() => hasPivot ? engineRef.current?.clearPivot() : engineRef.current?.pickPivot()}
       />
 
       <WelcomeScreen visible={showWelcome} />
       <JsonModal isOpen={isJsonModalOpen} onClose={() => setIsJsonModalOpen(false)} data={jsonData} isImport={jsonModalMode === 'import'} 
         onImport={(s) => {
-            const data: VoxelData[] = JSON.parse(s).map((v: any) => ({
-                x: +v.x, y: +v.y, z: +v.z, color: parseInt(v.color.replace('#', ''), 16), material: v.material ?? 0
-            }));
-            engineRef.current?.loadInitialModel(data); setCurrentBaseModel('Imported Build');
+            engineRef.current?.loadInitialModel(parseVoxelJson(s)); setCurrentBaseModel('Imported Build'); setCurrentGenerator(null);
         }} 
       />
-      <PromptModal isOpen={isPromptModalOpen} mode={promptMode} onClose={() => setIsPromptModalOpen(false)} onSubmit={handlePromptSubmit} />
+      <PromptModal isOpen={isPromptModalOpen} mode={promptMode} onClose={() => setIsPromptModalOpen(false)} onSubmit={handlePromptSubmit} choreography={rebuildChoreography} onChoreographyChange={setRebuildChoreography} />
 
       {/* Search Grounding Display */}
       {groundingSources.length > 0 && (
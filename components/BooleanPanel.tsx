@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { SavedModel, Prefab, BooleanSettings, BooleanOp, Axis } from '../types';
+import { X, Combine, Check, Minus, Plus } from 'lucide-react';
+import { Sound } from '../services/SoundService';
+
+interface BooleanPanelProps {
+  builds: SavedModel[];
+  prefabs: Prefab[];
+  settings: BooleanSettings | null;
+  onChange: (settings: BooleanSettings | null) => void;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+const OPS: { value: BooleanOp; label: string; title: string }[] = [
+  { value: 'union', label: 'Union', title: 'Add the operand to the scene' },
+  { value: 'subtract', label: 'Subtract', title: 'Carve the operand out of the scene' },
+  { value: 'intersect', label: 'Intersect', title: 'Keep only where both overlap' },
+  { value: 'xor', label: 'XOR', title: 'Keep where exactly one of them is' }
+];
+
+/**
+ * Combines a saved build or prefab with the scene. The result is previewed as
+ * ghost cells (removals in red) until it is applied.
+ */
+export const BooleanPanel: React.FC<BooleanPanelProps> = ({ builds, prefabs, settings, onChange, onApply, onClose }) => {
+  const pick = (name: string, data: SavedModel['data']) => {
+    Sound.play('ui');
+    onChange({ op: 'union', offset: { x: 0, y: 0, z: 0 }, colorRule: 'scene', ...settings, operand: { name, data } });
+  };
+
+  const renderSource = (key: string, name: string, data: SavedModel['data'], thumbnail?: string) => (
+    <button
+      key={key}
+      onClick={() => pick(name, data)}
+      title={`Combine with "${name}" (${data.length} voxels)`}
+      className={`flex flex-col items-center gap-1 p-1 rounded-xl border transition-all ${settings?.operand.name === name && settings.operand.data === data ? 'bg-indigo-50 border-indigo-300' : 'border-transparent hover:bg-slate-50'}`}
+    >
+      {thumbnail
+        ? <img src={thumbnail} className="w-full h-10 rounded-lg object-cover border border-slate-200" alt="" />
+        : <div className="w-full h-10 rounded-lg bg-slate-100 flex items-center justify-center"><Combine size={14} className="text-slate-300" /></div>}
+      <span className="text-[10px] font-bold text-slate-600 truncate w-full text-center">{name}</span>
+    </button>
+  );
+
+  const renderOptions = (current: BooleanSettings) => {
+    const set = (patch: Partial<BooleanSettings>) => onChange({ ...current, ...patch });
+    const sharesCells = current.op === 'union' || current.op === 'intersect';
+    return (
+      <div className="flex flex-col gap-3 p-3 border-t border-slate-100">
+        <div className="grid grid-cols-4 gap-1">
+          {OPS.map(op => (
+            <button
+              key={op.value}
+              onClick={() => { Sound.play('ui'); set({ op: op.value }); }}
+              title={op.title}
+              className={`px-1 py-1.5 rounded-lg text-[11px] font-bold transition-all ${current.op === op.value ? 'bg-indigo-500 text-white shadow' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+            >
+              {op.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-col gap-1">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Offset</span>
+          <div className="flex gap-1">
+            {(['x', 'y', 'z'] as Axis[]).map(axis => (
+              <div key={axis} className="flex items-center gap-0.5 flex-1" title={`Move the operand along ${axis.toUpperCase()}`}>
+                <button onClick={() => set({ offset: { ...current.offset, [axis]: current.offset[axis] - 1 } })} className="p-1 bg-slate-100 rounded-md hover:bg-slate-200"><Minus size={10} /></button>
+                <span className="text-[10px] font-black text-slate-500 font-mono flex-1 text-center">{axis.toUpperCase()} {current.offset[axis]}</span>
+                <button onClick={() => set({ offset: { ...current.offset, [axis]: current.offset[axis] + 1 } })} className="p-1 bg-slate-100 rounded-md hover:bg-slate-200"><Plus size={10} /></button>
+              </div>
+            ))}
+          </div>
+        </div>
+        <div className={`flex flex-col gap-1 ${sharesCells ? '' : 'opacity-40 pointer-events-none'}`} title="Whose color remains where both have a voxel">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Overlap color</span>
+          <div className="flex gap-1">
+            {(['scene', 'operand'] as const).map(rule => (
+              <button
+                key={rule}
+                onClick={() => { Sound.play('ui'); set({ colorRule: rule }); }}
+                className={`flex-1 px-2 py-1.5 rounded-lg text-[11px] font-bold transition-all ${current.colorRule === rule ? 'bg-indigo-500 text-white shadow' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+              >
+                {rule === 'scene' ? 'Keep Scene' : 'Use Operand'}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-72 bg-white/95 backdrop-blur-md rounded-2xl border border-slate-200 shadow-xl flex flex-col max-h-[60vh] animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <div className="flex items-center gap-2 text-slate-700 font-black text-xs uppercase tracking-widest">
+          <Combine size={14} className="text-indigo-500" />
+          Combine
+        </div>
+        <button onClick={onClose} title="Close Combine" className="p-1 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-2 flex flex-col gap-2">
+        {builds.length + prefabs.length === 0 && (
+          <div className="px-3 py-2 text-xs text-slate-400 italic text-center">Save a build or prefab first</div>
+        )}
+        {builds.length > 0 && (
+          <>
+            <span className="px-1 text-[10px] font-black uppercase tracking-widest text-slate-400">Builds</span>
+            <div className="grid grid-cols-3 gap-2">
+              {builds.map((model, idx) => renderSource(`build-${idx}`, model.name, model.data, model.thumbnail))}
+            </div>
+          </>
+        )}
+        {prefabs.length > 0 && (
+          <>
+            <span className="px-1 text-[10px] font-black uppercase tracking-widest text-slate-400">Prefabs</span>
+            <div className="grid grid-cols-3 gap-2">
+              {prefabs.map((prefab, idx) => renderSource(`prefab-${idx}`, prefab.name, prefab.data, prefab.thumbnail))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {settings && renderOptions(settings)}
+
+      <div className="flex gap-2 p-3 border-t border-slate-100">
+        <button onClick={() => { Sound.play('ui'); onClose(); }} className="flex-1 py-2 rounded-xl text-sm font-bold text-slate-500 bg-slate-100 hover:bg-slate-200">
+          Cancel
+        </button>
+        <button
+          onClick={onApply}
+          disabled={!settings}
+          className="flex-1 py-2 rounded-xl text-sm font-bold text-white bg-indigo-500 hover:bg-indigo-600 flex items-center justify-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Check size={16} /> Apply
+        </button>
+      </div>
+    </div>
+  );
+};
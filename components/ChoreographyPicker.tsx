@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { RebuildChoreography, RebuildStyle } from '../types';
+import { REBUILD_STYLES, REBUILD_EASINGS, planChoreography, flightPoint, ease } from '../utils/voxelChoreography';
+import { CONFIG } from '../utils/voxelConstants';
+import { Sound } from '../services/SoundService';
+
+interface ChoreographyPickerProps {
+  value: RebuildChoreography;
+  onChange: (choreography: RebuildChoreography) => void;
+  color: 'amber' | 'emerald';
+}
+
+const ACCENTS = {
+  amber: { active: 'bg-amber-500 text-white shadow', slider: 'accent-amber-500', fill: '#f59e0b' },
+  emerald: { active: 'bg-emerald-500 text-white shadow', slider: 'accent-emerald-500', fill: '#10b981' }
+};
+
+// Pause after each preview run before it replays
+const PREVIEW_HOLD = 700;
+
+// A small stepped pyramid, flying in from rubble scattered around it
+const PREVIEW_TARGETS = [0, 1, 2].flatMap(layer => {
+  const cells: { x: number; y: number; z: number }[] = [];
+  for (let x = layer; x < 5 - layer; x++) {
+    for (let z = layer; z < 5 - layer; z++) cells.push({ x: x - 2, y: layer, z: z - 2 });
+  }
+  return cells;
+});
+const PREVIEW_SOURCES = PREVIEW_TARGETS.map((_, i) => {
+  const angle = i * 2.39996;
+  const radius = 4 + (i % 4);
+  return { x: Math.cos(angle) * radius, y: 0, z: Math.sin(angle) * radius };
+});
+
+/** Animated isometric sketch of a rebuild playing `choreography`. */
+const ChoreographyPreview: React.FC<{ choreography: RebuildChoreography; fill: string }> = ({ choreography, fill }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { plan, delays } = useMemo(() => planChoreography(PREVIEW_TARGETS, choreography), [choreography]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const start = performance.now();
+    const point = { x: 0, y: 0, z: 0 };
+    let frame = 0;
+
+    const draw = (now: number) => {
+      frame = requestAnimationFrame(draw);
+      const elapsed = (now - start) % (plan.duration + PREVIEW_HOLD);
+      const cubes = PREVIEW_TARGETS.map((to, i) => {
+        const progress = plan.travel > 0 ? Math.min(1, Math.max(0, (elapsed - delays[i]) / plan.travel)) : 1;
+        const scale = flightPoint(plan, PREVIEW_SOURCES[i], to, ease(plan.easing, progress), i, point);
+        return { x: point.x, y: point.y, z: point.z, scale, landed: progress >= 1 };
+      });
+      // Painter's order: back rows first, then bottom up
+      cubes.sort((a, b) => (a.x + a.z) - (b.x + b.z) || a.y - b.y);
+
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const unit = 7;
+      cubes.forEach(c => {
+        const size = unit * c.scale;
+        if (size <= 0.5) return;
+        const sx = canvas.width / 2 + (c.x - c.z) * unit * 0.9;
+        const sy = canvas.height / 2 + 12 - c.y * unit + (c.x + c.z) * unit * 0.45;
+        ctx.fillStyle = c.landed ? fill : '#94a3b8';
+        ctx.fillRect(sx - size / 2, sy - size / 2, size, size);
+        ctx.strokeStyle = 'rgba(15, 23, 42, 0.25)';
+        ctx.strokeRect(sx - size / 2, sy - size / 2, size, size);
+      });
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [plan, delays, fill]);
+
+  return <canvas ref={canvasRef} width={232} height={96} className="w-full h-24 object-contain rounded-xl bg-slate-50 border border-slate-100" />;
+};
+
+/**
+ * Style, easing and duration of a rebuild. Hovering a style previews it; the
+ * preview otherwise plays the current selection.
+ */
+export const ChoreographyPicker: React.FC<ChoreographyPickerProps> = ({ value, onChange, color }) => {
+  const [hovered, setHovered] = useState<RebuildStyle | null>(null);
+  const accent = ACCENTS[color];
+  const previewed = useMemo(() => ({ ...value, style: hovered ?? value.style }), [value, hovered]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <ChoreographyPreview choreography={previewed} fill={accent.fill} />
+      <div className="grid grid-cols-4 gap-1" onMouseLeave={() => setHovered(null)}>
+        {REBUILD_STYLES.map(style => (
+          <button
+            key={style.value}
+            type="button"
+            onClick={() => { Sound.play('ui'); onChange({ ...value, style: style.value }); }}
+            onMouseEnter={() => setHovered(style.value)}
+            title={style.title}
+            className={`px-1 py-1.5 rounded-lg text-[11px] font-bold transition-all ${value.style === style.value ? accent.active : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+          >
+            {style.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-col gap-1">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Easing</span>
+        <div className="grid grid-cols-5 gap-1">
+          {REBUILD_EASINGS.map(easing => (
+            <button
+              key={easing.value}
+              type="button"
+              onClick={() => { Sound.play('ui'); onChange({ ...value, easing: easing.value }); }}
+              title={easing.title}
+              className={`px-0.5 py-1 rounded-lg text-[10px] font-bold transition-all ${value.easing === easing.value ? accent.active : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+            >
+              {easing.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-col gap-1" title="Length of the whole transition">
+        <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
+          <span>Duration</span>
+          <span className="font-mono">{(value.duration / 1000).toFixed(1)}s</span>
+        </div>
+        <input
+          type="range" min={CONFIG.MIN_REBUILD_DURATION} max={CONFIG.MAX_REBUILD_DURATION} step="250" value={value.duration}
+          onChange={(e) => onChange({ ...value, duration: parseInt(e.target.value) })}
+          className={`w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer ${accent.slider}`}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { GeneratorParams, GeneratorParamSpec } from '../types';
+import { X, SlidersHorizontal, Dices, Check } from 'lucide-react';
+import { Sound } from '../services/SoundService';
+import { GeneratorContribution } from '../services/PluginRegistry';
+import { randomSeed } from '../utils/seededRandom';
+
+interface GeneratorPanelProps {
+  generator: GeneratorContribution;
+  params: GeneratorParams;
+  onChange: (params: GeneratorParams) => void;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const toHex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+/**
+ * Parameter form for a procedural generator. Every change is previewed live
+ * in the scene; Cancel restores the scene as it was before the form opened.
+ */
+export const GeneratorPanel: React.FC<GeneratorPanelProps> = ({ generator, params, onChange, onApply, onCancel }) => {
+  const set = (key: string, value: number | string) => onChange({ ...params, [key]: value });
+
+  const renderField = (spec: GeneratorParamSpec) => {
+    const value = params[spec.key] ?? spec.default;
+    switch (spec.type) {
+      case 'number':
+        return (
+          <div key={spec.key} className="flex flex-col gap-1">
+            <div className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-slate-400">
+              <span>{spec.label}</span>
+              <div className="flex items-center gap-1">
+                <span className="font-mono text-slate-600">{value}</span>
+                {spec.key === 'seed' && (
+                  <button onClick={() => { Sound.play('ui'); set('seed', randomSeed()); }} title="Random seed" className="p-1 rounded-lg text-indigo-500 hover:bg-indigo-50">
+                    <Dices size={14} />
+                  </button>
+                )}
+              </div>
+            </div>
+            <input
+              type="range" min={spec.min} max={spec.max} step={spec.step} value={Number(value)}
+              onChange={(e) => set(spec.key, parseFloat(e.target.value))}
+              className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+            />
+          </div>
+        );
+      case 'color':
+        return (
+          <label key={spec.key} className="flex items-center justify-between text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer">
+            <span>{spec.label}</span>
+            <input
+              type="color" value={toHex(Number(value))}
+              onChange={(e) => set(spec.key, parseInt(e.target.value.replace('#', ''), 16))}
+              className="w-8 h-6 rounded-md border border-slate-200 cursor-pointer bg-transparent"
+            />
+          </label>
+        );
+      case 'select':
+        return (
+          <div key={spec.key} className="flex flex-col gap-1">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{spec.label}</span>
+            <div className="flex gap-1">
+              {spec.options.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => { Sound.play('ui'); set(spec.key, option.value); }}
+                  className={`flex-1 px-2 py-1.5 rounded-lg text-[11px] font-bold transition-all ${value === option.value ? 'bg-indigo-500 text-white shadow' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="w-72 bg-white/95 backdrop-blur-md rounded-2xl border border-slate-200 shadow-xl flex flex-col max-h-[60vh] animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <div className="flex items-center gap-2 text-slate-700 font-black text-xs uppercase tracking-widest">
+          <SlidersHorizontal size={14} className="text-indigo-500" />
+          {generator.label}
+        </div>
+        <button onClick={onCancel} title="Cancel" className="p-1 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-4 flex flex-col gap-3">
+        {(generator.params ?? []).map(renderField)}
+      </div>
+
+      <div className="flex gap-2 p-3 border-t border-slate-100">
+        <button onClick={() => { Sound.play('ui'); onCancel(); }} className="flex-1 py-2 rounded-xl text-sm font-bold text-slate-500 bg-slate-100 hover:bg-slate-200">
+          Cancel
+        </button>
+        <button onClick={() => { Sound.play('success'); onApply(); }} className="flex-1 py-2 rounded-xl text-sm font-bold text-white bg-indigo-500 hover:bg-indigo-600 flex items-center justify-center gap-1">
+          <Check size={16} /> Use Model
+        </button>
+      </div>
+    </div>
+  );
+};
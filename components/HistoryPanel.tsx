@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { CommandType, HistoryTimelineEntry } from '../types';
+import { X, GitBranch, Flag, Box } from 'lucide-react';
+import { Sound } from '../services/SoundService';
+
+interface HistoryPanelProps {
+  entries: HistoryTimelineEntry[];
+  onJump: (id: number) => void;
+  onRename: (entry: HistoryTimelineEntry) => void;
+  onClose: () => void;
+}
+
+const COMMAND_LABELS: Record<CommandType, string> = {
+  ADD: 'Place', ERASE: 'Erase', FILL: 'Paint Fill', MOVE: 'Move', COPY: 'Duplicate',
+  DELETE: 'Delete', MATERIAL: 'Material', SELECTION: 'Selection', REBUILD: 'Rebuild',
+  PLUGIN: 'Plugin Edit', SHAPE: 'Shape', PAINT: 'Spray Paint',
+  EXTRUDE: 'Push/Pull', TRANSFORM: 'Transform', CUT: 'Cut', PASTE: 'Paste', STAMP: 'Stamp',
+  HOLLOW: 'Hollow', FILL_INTERIOR: 'Fill Interior', THICKEN: 'Thicken Walls', THIN: 'Thin Walls', BOOLEAN: 'Boolean'
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Timeline of the branching undo history. Every state can be revisited,
+ * including branches abandoned by editing after an undo.
+ */
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onJump, onRename, onClose }) => {
+  const currentRef = useRef<HTMLDivElement>(null);
+  const currentId = entries.find(e => e.isCurrent)?.id;
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [currentId]);
+
+  return (
+    <div className="w-72 bg-white/95 backdrop-blur-md rounded-2xl border border-slate-200 shadow-xl flex flex-col max-h-[60vh] animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <div className="flex items-center gap-2 text-slate-700 font-black text-xs uppercase tracking-widest">
+          <GitBranch size={14} className="text-indigo-500" />
+          History
+        </div>
+        <button onClick={onClose} title="Close History" className="p-1 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto p-2 flex flex-col gap-1">
+        {entries.map(entry => (
+          <div
+            key={entry.id}
+            ref={entry.isCurrent ? currentRef : undefined}
+            onClick={() => { if (!entry.isCurrent) { Sound.play('ui'); onJump(entry.id); } }}
+            onDoubleClick={() => onRename(entry)}
+            title={entry.isCurrent ? 'Current state (double-click to name)' : 'Jump to this state (double-click to name)'}
+            style={{ marginLeft: entry.depth * 12 }}
+            className={`group flex items-center gap-2 p-1.5 rounded-xl cursor-pointer transition-all border ${
+              entry.isCurrent ? 'bg-indigo-50 border-indigo-300' : 'border-transparent hover:bg-slate-50'
+            } ${entry.isActivePath ? '' : 'opacity-50 hover:opacity-100'}`}
+          >
+            {entry.thumbnail
+              ? <img src={entry.thumbnail} className="w-10 h-8 rounded-lg object-cover border border-slate-200 shrink-0" alt="" />
+              : <div className="w-10 h-8 rounded-lg bg-slate-100 flex items-center justify-center shrink-0"><Box size={14} className="text-slate-300" /></div>}
+            <div className="flex flex-col min-w-0 flex-1">
+              <span className={`text-xs font-bold truncate ${entry.isCurrent ? 'text-indigo-700' : 'text-slate-700'}`}>
+                {entry.name ?? (entry.type ? COMMAND_LABELS[entry.type] : 'Loaded Model')}
+              </span>
+              <span className="text-[10px] font-mono text-slate-400">
+                {entry.name && entry.type ? `${COMMAND_LABELS[entry.type]} · ` : ''}{formatTime(entry.timestamp)}
+              </span>
+            </div>
+            <button
+              onClick={(e) => { e.stopPropagation(); onRename(entry); }}
+              title={entry.name ? 'Rename checkpoint' : 'Name as checkpoint'}
+              className={`p-1 rounded-lg shrink-0 transition-all ${entry.name ? 'text-amber-500' : 'text-slate-300 opacity-0 group-hover:opacity-100 hover:text-amber-500'}`}
+            >
+              <Flag size={12} fill={entry.name ? 'currentColor' : 'none'} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
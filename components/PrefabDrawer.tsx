@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import { Prefab, StampSettings } from '../types';
+import { X, Stamp, Save, Download, Upload, RotateCw, FlipHorizontal2, Trash2, Check } from 'lucide-react';
+import { Sound } from '../services/SoundService';
+import { paletteOf } from '../utils/voxelTransforms';
+
+interface PrefabDrawerProps {
+  prefabs: Prefab[];
+  stamp: StampSettings | null;
+  selectedCount: number;
+  selectedColor: number;
+  onSaveSelection: () => void;
+  onStamp: (prefab: Prefab) => void;
+  onUpdateStamp: (stamp: StampSettings) => void;
+  onStopStamp: () => void;
+  onDelete: (index: number) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const toHex = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+
+/**
+ * Library of reusable parts saved from selections. Picking one stamps it into
+ * the scene on every click until Done; rotation, mirroring and color swaps
+ * update the floating preview.
+ */
+export const PrefabDrawer: React.FC<PrefabDrawerProps> = ({ prefabs, stamp, selectedCount, selectedColor, onSaveSelection, onStamp, onUpdateStamp, onStopStamp, onDelete, onExport, onImport, onClose }) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const renderStampOptions = (settings: StampSettings) => (
+    <div className="flex flex-col gap-2 p-3 border-t border-slate-100">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 truncate">Stamping {settings.prefab.name}</span>
+        <button onClick={() => { Sound.play('ui'); onStopStamp(); }} className="px-2 py-1 rounded-lg text-[11px] font-bold text-white bg-indigo-500 hover:bg-indigo-600 flex items-center gap-1">
+          <Check size={12} /> Done
+        </button>
+      </div>
+      <div className="flex gap-1">
+        <button onClick={() => { Sound.play('ui'); onUpdateStamp({ ...settings, turns: (settings.turns + 1) % 4 }); }} title="Rotate 90°" className="flex-1 py-1.5 rounded-lg text-[11px] font-bold bg-slate-100 text-slate-600 hover:bg-slate-200 flex items-center justify-center gap-1">
+          <RotateCw size={14} /> {settings.turns * 90}°
+        </button>
+        <button onClick={() => { Sound.play('ui'); onUpdateStamp({ ...settings, mirror: !settings.mirror }); }} title="Mirror" className={`flex-1 py-1.5 rounded-lg text-[11px] font-bold flex items-center justify-center gap-1 ${settings.mirror ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>
+          <FlipHorizontal2 size={14} /> Mirror
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-1" title="Click a color to swap it for the current build color">
+        {paletteOf(settings.prefab.data).slice(0, 12).map(color => {
+          const swapped = color in settings.swaps;
+          return (
+            <button
+              key={color}
+              onClick={() => {
+                Sound.play('ui');
+                const swaps = { ...settings.swaps };
+                if (swapped) delete swaps[color]; else swaps[color] = selectedColor;
+                onUpdateStamp({ ...settings, swaps });
+              }}
+              style={{ background: toHex(swapped ? settings.swaps[color] : color) }}
+              className={`w-6 h-6 rounded-md border-2 ${swapped ? 'border-indigo-500' : 'border-white shadow'}`}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-72 bg-white/95 backdrop-blur-md rounded-2xl border border-slate-200 shadow-xl flex flex-col max-h-[60vh] animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-100">
+        <div className="flex items-center gap-2 text-slate-700 font-black text-xs uppercase tracking-widest">
+          <Stamp size={14} className="text-indigo-500" />
+          Prefabs
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => { Sound.play('ui'); onExport(); }} disabled={prefabs.length === 0} title="Export prefabs to a file" className="p-1 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600 disabled:opacity-30">
+            <Download size={16} />
+          </button>
+          <button onClick={() => fileInput.current?.click()} title="Import prefabs from a file" className="p-1 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600">
+            <Upload size={16} />
+          </button>
+          <button onClick={onClose} title="Close Prefabs" className="p-1 rounded-lg text-slate-400 hover:bg-slate-100 hover:text-slate-600">
+            <X size={16} />
+          </button>
+        </div>
+        <input
+          ref={fileInput} type="file" accept=".json,application/json" className="hidden"
+          onChange={(e) => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }}
+        />
+      </div>
+
+      <div className="p-2">
+        <button
+          onClick={() => { Sound.play('ui'); onSaveSelection(); }}
+          disabled={selectedCount === 0}
+          title={selectedCount === 0 ? 'Select voxels first' : 'Save the selection as a prefab'}
+          className="w-full py-2 rounded-xl text-sm font-bold text-emerald-600 bg-emerald-50 hover:bg-emerald-100 flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Save size={16} /> Save Selection
+        </button>
+      </div>
+
+      <div className="overflow-y-auto px-2 pb-2 grid grid-cols-3 gap-2">
+        {prefabs.length === 0 && (
+          <div className="col-span-3 px-3 py-2 text-xs text-slate-400 italic text-center">No prefabs yet</div>
+        )}
+        {prefabs.map((prefab, idx) => (
+          <div
+            key={prefab.name}
+            onClick={() => { Sound.play('ui'); onStamp(prefab); }}
+            title={`Stamp "${prefab.name}" (${prefab.data.length} voxels)`}
+            className={`group relative flex flex-col items-center gap-1 p-1 rounded-xl cursor-pointer border transition-all ${stamp?.prefab.name === prefab.name ? 'bg-indigo-50 border-indigo-300' : 'border-transparent hover:bg-slate-50'}`}
+          >
+            {prefab.thumbnail
+              ? <img src={prefab.thumbnail} className="w-full h-12 rounded-lg object-cover border border-slate-200" alt="" />
+              : <div className="w-full h-12 rounded-lg bg-slate-100 flex items-center justify-center"><Stamp size={16} className="text-slate-300" /></div>}
+            <span className="text-[10px] font-bold text-slate-600 truncate w-full text-center">{prefab.name}</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelete(idx); }}
+              title="Delete prefab"
+              className="absolute top-1 right-1 p-1 rounded-md bg-white/90 text-slate-400 opacity-0 group-hover:opacity-100 hover:text-rose-500"
+            >
+              <Trash2 size={10} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {stamp && renderStampOptions(stamp)}
+    </div>
+  );
+};
@@ -8,15 +8,19 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Sparkles, X, Loader2, Wand2, Hammer, Image as ImageIcon, Trash2 } from 'lucide-react';
 import { fileToBase64, processImageForAi } from '../utils/imageHelpers';
+import { ChoreographyPicker } from './ChoreographyPicker';
+import { RebuildChoreography } from '../types';
 
 interface PromptModalProps {
   isOpen: boolean;
   mode: 'create' | 'morph';
   onClose: () => void;
   onSubmit: (prompt: string, image?: string) => Promise<void>;
+  choreography: RebuildChoreography;
+  onChoreographyChange: (choreography: RebuildChoreography) => void;
 }
 
-export const PromptModal: React.FC<PromptModalProps> = ({ isOpen, mode, onClose, onSubmit }) => {
+export const PromptModal: React.FC<PromptModalProps> = ({ isOpen, mode, onClose, onSubmit, choreography, onChoreographyChange }) => {
   const [prompt, setPrompt] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
@@ -138,6 +142,12 @@ export const PromptModal: React.FC<PromptModalProps> = ({ isOpen, mode, onClose,
                 )}
             </div>
 
+            {!isCreate && (
+              <div className="mb-4">
+                <ChoreographyPicker value={choreography} onChange={onChoreographyChange} color="amber" />
+              </div>
+            )}
+
             {error && (
               <div className="mb-4 p-3 rounded-xl bg-rose-50 text-rose-600 text-sm font-bold flex items-center gap-2">
                 <X size={16} /> {error}
@@ -5,7 +5,7 @@
 */
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AppState, AppMode, SavedModel, BuildTool, GroundingSource, VoxelMaterial, CustomColor } from '../types';
+import { AppState, AppMode, SavedModel, BuildTool, GroundingSource, VoxelMaterial, CustomColor, HistoryTimelineEntry, GeneratorParams, ShapeKind, BrushShape, SelectionMode, Axis, CollisionPolicy, Prefab, StampSettings, SymmetrySettings, SliceSettings, BooleanSettings, DemolishTool, RebuildChoreography, RebuildMatching } from '../types';
 import { 
   Box, Bird, History, Play, Pause, 
   Pencil, Eraser, Pipette, Palette, Undo2, Redo2, Camera, 
@@ -18,9 +18,64 @@ import {
   FileUp,
   FolderOpen,
   Maximize,
-  Hammer
+  Hammer,
+  GitBranch,
+  Puzzle,
+  Cat,
+  Rabbit,
+  Dices,
+  Shapes,
+  Slash,
+  Square,
+  Circle,
+  Cylinder,
+  SquareDashed,
+  SprayCan,
+  Disc,
+  ArrowUpFromLine,
+  Wand,
+  Droplet,
+  Gem,
+  Expand,
+  Shrink,
+  Contrast,
+  Lasso,
+  Scan,
+  Brush,
+  Eye,
+  RotateCcw,
+  RotateCw,
+  FlipHorizontal2,
+  Crosshair,
+  Scaling,
+  Layers,
+  Stamp,
+  FlipVertical2,
+  Minus,
+  Plus,
+  RefreshCcw,
+  Grid3x3,
+  Cuboid,
+  PackageOpen,
+  Package,
+  SquarePlus,
+  SquareMinus,
+  Combine,
+  Unlink,
+  Magnet,
+  ArrowDownToLine,
+  Bomb,
+  CircleDot
 } from 'lucide-react';
 import { Sound } from '../services/SoundService';
+import { PluginContributions, ExporterContribution, GeneratorContribution } from '../services/PluginRegistry';
+import { HistoryPanel } from './HistoryPanel';
+import { GeneratorPanel } from './GeneratorPanel';
+import { PrefabDrawer } from './PrefabDrawer';
+import { BooleanPanel } from './BooleanPanel';
+import { ChoreographyPicker } from './ChoreographyPicker';
+import { GENERATORS, BuiltinGenerator } from '../utils/voxelGenerators';
+import { CONFIG } from '../utils/voxelConstants';
 
 // --- Atomic Sub-Components (Defined first to avoid ReferenceErrors) ---
 
@@ -107,6 +162,15 @@ interface UIOverlayProps {
   appState: AppState;
   appMode: AppMode;
   buildTool: BuildTool;
+  shapeKind: ShapeKind;
+  shapeHollow: boolean;
+  brushRadius: number;
+  selectionMode: SelectionMode;
+  selectionHeight: { min: number; max: number };
+  selectVisibleOnly: boolean;
+  collisionPolicy: CollisionPolicy;
+  hasPivot: boolean;
+  brushShape: BrushShape;
   selectedColor: number;
   selectedMaterial: VoxelMaterial;
   voxelSize: number;
@@ -114,6 +178,8 @@ interface UIOverlayProps {
   customBuilds: SavedModel[];
   customRebuilds: SavedModel[];
   customPalette: CustomColor[];
+  prefabs: Prefab[];
+  stamp: StampSettings | null;
   selectedCount: number;
   isAutoRotate: boolean;
   isInfoVisible: boolean;
@@ -121,15 +187,22 @@ interface UIOverlayProps {
   groundingSources: GroundingSource[];
   canUndo: boolean;
   canRedo: boolean;
-  canUndoSelection: boolean;
-  canRedoSelection: boolean;
+  historyTimeline: HistoryTimelineEntry[];
   lastSaveTime: string | null;
-  isMirrorMode: boolean;
+  symmetry: SymmetrySettings;
+  slice: SliceSettings | null;
+  workPlane: number | null;
+  booleanSettings: BooleanSettings | null;
+  floatingReport: { voxels: number; groups: number } | null;
+  structuralGravity: boolean;
+  demolishTool: DemolishTool | null;
+  rebuildChoreography: RebuildChoreography;
+  rebuildMatching: RebuildMatching;
   isMuted: boolean;
   onUndo: () => void;
   onRedo: () => void;
-  onUndoSelection: () => void;
-  onRedoSelection: () => void;
+  onJumpToHistory: (id: number) => void;
+  onRenameHistory: (entry: HistoryTimelineEntry) => void;
   onSnapshot: () => void;
   onDismantle: () => void;
   onRebuild: (type: 'Eagle' | 'Cat' | 'Rabbit' | 'Twins') => void;
@@ -140,10 +213,21 @@ interface UIOverlayProps {
   onLoadLatest: () => void;
   onLoadRecentBuild: () => void;
   onExportObj: () => void;
+  pluginContributions: PluginContributions;
+  onPluginExport: (exporter: ExporterContribution) => void;
+  onSelectGenerator: (generator: GeneratorContribution) => void;
+  generatorForm: { generator: GeneratorContribution; params: GeneratorParams } | null;
+  onGeneratorParamsChange: (params: GeneratorParams) => void;
+  onApplyGenerator: () => void;
+  onCancelGenerator: () => void;
+  canRegenerate: boolean;
+  onRegenerate: () => void;
   onSaveColor: (color: number) => void;
   onDeleteColor: (index: number) => void;
   onSelectCustomBuild: (model: SavedModel) => void;
   onSelectCustomRebuild: (model: SavedModel) => void;
+  onSetRebuildChoreography: (choreography: RebuildChoreography) => void;
+  onSetRebuildMatching: (mode: RebuildMatching) => void;
   onDeleteBuild: (index: number) => void;
   onPromptCreate: () => void;
   onPromptMorph: () => void;
@@ -152,18 +236,62 @@ interface UIOverlayProps {
   onToggleRotation: () => void;
   onToggleInfo: () => void;
   onToggleMode: () => void;
-  onToggleMirror: () => void;
+  onSetSymmetry: (symmetry: SymmetrySettings) => void;
+  onSetSlice: (slice: SliceSettings | null) => void;
+  onSetWorkPlane: (layer: number | null) => void;
+  onHollow: (thickness: number) => void;
+  onFillInterior: () => void;
+  onThickenWalls: () => void;
+  onThinWalls: () => void;
+  onSetBoolean: (settings: BooleanSettings | null) => void;
+  onApplyBoolean: () => void;
+  onToggleFloating: () => void;
+  onToggleGravity: () => void;
+  onSetDemolishTool: (tool: DemolishTool | null) => void;
+  onSelectFloating: () => void;
+  onDeleteFloating: () => void;
+  onReattachFloating: () => void;
   onToggleMute: () => void;
   onSetTool: (tool: BuildTool) => void;
+  onSetShape: (kind: ShapeKind, hollow: boolean) => void;
+  onSetBrush: (radius: number, shape: BrushShape) => void;
+  onSetSelectionMode: (mode: SelectionMode) => void;
+  onSetSelectionHeight: (min: number, max: number) => void;
+  onToggleSelectVisibleOnly: () => void;
+  onGrowSelection: () => void;
+  onShrinkSelection: () => void;
+  onInvertSelection: () => void;
   onSetMaterial: (mat: VoxelMaterial) => void;
   onSetSelectionMaterial: (mat: VoxelMaterial) => void;
   onSetColor: (color: number) => void;
   onSetVoxelSize: (size: number) => void;
   onDeleteSelected: () => void;
-  onCopySelected: () => void;
+  onDuplicateSelected: () => void;
+  onSavePrefab: () => void;
+  onStampPrefab: (prefab: Prefab) => void;
+  onUpdateStamp: (stamp: StampSettings) => void;
+  onStopStamp: () => void;
+  onDeletePrefab: (index: number) => void;
+  onExportPrefabs: () => void;
+  onImportPrefabs: (file: File) => void;
   onMoveSelected: (axis: 'x' | 'y' | 'z', dir: number) => void;
+  onRotateSelected: (axis: Axis, turns: number) => void;
+  onMirrorSelected: (axis: Axis) => void;
+  onScaleSelected: (factor: number) => void;
+  onSetCollisionPolicy: (policy: CollisionPolicy) => void;
+  onTogglePivot: () => void;
 }
 
+const GENERATOR_ICONS: Record<BuiltinGenerator, React.ReactNode> = {
+    Eagle: <Bird size={16}/>, Cat: <Cat size={16}/>, Rabbit: <Rabbit size={16}/>, Twins: <Bird size={16}/>
+};
+
+/** Selection scale steps: shrinking keeps one voxel per block, growing turns each voxel into a block. */
+const SCALE_STEPS = [
+    { factor: 1 / 3, label: '⅓' }, { factor: 1 / 2, label: '½' },
+    { factor: 2, label: '2×' }, { factor: 3, label: '3×' }
+];
+
 const PRESET_COLORS = [
     { name: 'Blue', hex: 0x3b82f6 }, { name: 'Red', hex: 0xef4444 },
     { name: 'Emerald', hex: 0x10b981 }, { name: 'Amber', hex: 0xf59e0b },
@@ -190,9 +318,18 @@ const PRESET_COLORS = [
 export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
   const isStable = props.appState === AppState.STABLE;
   const isBuildMode = props.appMode === AppMode.BUILD;
+  const isBrushTool = props.buildTool === 'pencil' || props.buildTool === 'eraser' || props.buildTool === 'spray';
   
   const [buildSearchTerm, setBuildSearchTerm] = useState('');
   const [showAutoSave, setShowAutoSave] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showPrefabs, setShowPrefabs] = useState(false);
+  const [showBoolean, setShowBoolean] = useState(false);
+  const [showSymmetry, setShowSymmetry] = useState(false);
+  const [showVolume, setShowVolume] = useState(false);
+  const [shellThickness, setShellThickness] = useState(1);
+  const { axes, origin, radial } = props.symmetry;
+  const isSymmetryOn = axes.x || axes.y || axes.z || radial > 1;
   
   const filteredBuilds = props.customBuilds.filter(model => 
     model.name.toLowerCase().includes(buildSearchTerm.toLowerCase())
@@ -219,13 +356,24 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
                     <DropdownItem onClick={props.onSaveAs} icon={<FileDown size={16} className="text-emerald-500" />} label="Save As..." title="Save as new build" />
                     <DropdownItem onClick={props.onLoadRecentBuild} icon={<FileUp size={16} className="text-sky-500" />} label="Load Build" title="Load most recently saved build" />
                     <DropdownItem onClick={props.onExportObj} icon={<Download size={16} className="text-blue-500" />} label="Export to OBJ" title="Download 3D model" />
+                    {props.pluginContributions.exporters.map(exporter => (
+                        <DropdownItem key={exporter.id} onClick={() => props.onPluginExport(exporter)} icon={<Download size={16} className="text-blue-500" />} label={exporter.label} title={`Export with ${exporter.label}`} />
+                    ))}
                     <DropdownItem onClick={props.onLoadLatest} icon={<Clock size={16} className="text-orange-500" />} label="Load Latest" title="Recover auto-saved draft" />
                     <DropdownItem onClick={() => props.onNewScene('Eagle')} icon={<PlusCircle size={16} className="text-indigo-500" />} label="New Eagle Scene" title="Start fresh with Eagle template" />
+                    {props.canRegenerate && (
+                        <DropdownItem onClick={props.onRegenerate} icon={<Dices size={16} className="text-indigo-500" />} label="Regenerate..." title="Edit the seed and parameters this build was generated with" />
+                    )}
                     
                     <div className="h-px bg-slate-100 my-1" />
                     <div className="px-2 py-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">Presets</div>
-                    <DropdownItem onClick={() => props.onNewScene('Eagle')} icon={<Bird size={16}/>} label="Classic Eagle" title="Load Eagle template" />
+                    {(Object.keys(GENERATORS) as BuiltinGenerator[]).map(id => (
+                        <DropdownItem key={id} onClick={() => props.onSelectGenerator(GENERATORS[id])} icon={GENERATOR_ICONS[id]} label={GENERATORS[id].label} title={`Generate ${GENERATORS[id].label}`} />
+                    ))}
                     <DropdownItem onClick={props.onPromptCreate} icon={<Sparkles size={16}/>} label="AI Create" highlight title="Generate model from text" />
+                    {props.pluginContributions.generators.map(generator => (
+                        <DropdownItem key={generator.id} onClick={() => props.onSelectGenerator(generator)} icon={<Puzzle size={16}/>} label={generator.label} title={`Load ${generator.label}`} />
+                    ))}
                     
                     <div className="h-px bg-slate-100 my-1" />
                     <div className="px-2 py-1 text-[10px] font-black text-slate-400 uppercase tracking-widest flex justify-between items-center">
@@ -253,8 +401,55 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
                     </div>
                 </DropdownMenu>
 
+                <TactileButton onClick={() => setShowPrefabs(!showPrefabs)} color="sky" icon={<Stamp size={18} />} label="Prefabs" title="Reusable parts: save selections and stamp them" />
+                <TactileButton
+                  onClick={() => { if (showBoolean) props.onSetBoolean(null); setShowBoolean(!showBoolean); }}
+                  color="slate" icon={<Combine size={18} />} label="Combine" title="Union, subtract, intersect or XOR a saved build or prefab with the scene"
+                />
+
                 <TactileButton onClick={props.onPromptCreate} color="indigo" icon={<Sparkles size={18} />} label="AI Generate" title="Create voxel art with Gemini" />
                 <TactileButton onClick={props.onPromptMorph} color="amber" icon={<Wand2 size={18} />} label="AI Morph" title="Transform current build with Gemini" />
+                <DropdownMenu icon={<RefreshCcw size={18} />} label="Rebuild" color="emerald" title="Morph the current voxels into another model">
+                    <div className="px-2 py-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">Choreography</div>
+                    <div className="px-1 pb-1">
+                        <ChoreographyPicker value={props.rebuildChoreography} onChange={props.onSetRebuildChoreography} color="emerald" />
+                    </div>
+                    <div className="flex flex-col gap-1 px-1 pb-1">
+                        <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">Matching</span>
+                        <div className="flex gap-1">
+                            {([['nearest', 'Nearest', 'Fast: each target takes the closest voxel of its color'], ['optimal', 'Optimal', 'Least total travel, so paths do not cross; slower on large morphs']] as [RebuildMatching, string, string][]).map(([mode, label, title]) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => { Sound.play('ui'); props.onSetRebuildMatching(mode); }}
+                                    title={title}
+                                    className={`flex-1 px-2 py-1.5 rounded-lg text-[11px] font-bold transition-all ${props.rebuildMatching === mode ? 'bg-emerald-500 text-white shadow' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="h-px bg-slate-100 my-1" />
+                    <div className="px-2 py-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">Rebuild Into</div>
+                    {(Object.keys(GENERATORS) as BuiltinGenerator[]).map(id => (
+                        <DropdownItem key={id} onClick={() => props.onRebuild(id)} icon={GENERATOR_ICONS[id]} label={GENERATORS[id].label} title={`Rebuild the current voxels into ${GENERATORS[id].label}`} />
+                    ))}
+                    {props.customRebuilds.length > 0 && (
+                        <div className="max-h-[20vh] overflow-y-auto px-1 flex flex-col gap-1">
+                            {props.customRebuilds.map((model, idx) => (
+                                <DropdownItem
+                                    key={idx}
+                                    onClick={() => props.onSelectCustomRebuild(model)}
+                                    icon={model.thumbnail ? <img src={model.thumbnail} className="w-6 h-6 rounded object-cover border border-slate-200" alt="" /> : <History size={16} className="text-slate-400" />}
+                                    label={model.name}
+                                    truncate
+                                    title={`Rebuild into "${model.name}"`}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </DropdownMenu>
 
                 <div className="flex items-center gap-1 bg-white/90 backdrop-blur-md p-1 rounded-xl border border-slate-200 shadow-sm h-[44px]">
                     <button 
@@ -273,9 +468,64 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
                     >
                         <Redo2 size={20} />
                     </button>
+                    <div className="w-px h-6 bg-slate-200" />
+                    <button 
+                        onClick={() => { Sound.play('ui'); setShowHistory(!showHistory); }} 
+                        title="History Timeline"
+                        className={`p-2.5 rounded-lg transition-all active:scale-90 ${showHistory ? 'bg-indigo-50 text-indigo-600' : 'text-slate-800 hover:bg-slate-100'}`}
+                    >
+                        <GitBranch size={20} />
+                    </button>
                 </div>
             </div>
 
+            {showHistory && (
+                <HistoryPanel 
+                    entries={props.historyTimeline} 
+                    onJump={props.onJumpToHistory} 
+                    onRename={props.onRenameHistory} 
+                    onClose={() => setShowHistory(false)} 
+                />
+            )}
+
+            {showPrefabs && (
+                <PrefabDrawer
+                    prefabs={props.prefabs}
+                    stamp={props.stamp}
+                    selectedCount={props.selectedCount}
+                    selectedColor={props.selectedColor}
+                    onSaveSelection={props.onSavePrefab}
+                    onStamp={props.onStampPrefab}
+                    onUpdateStamp={props.onUpdateStamp}
+                    onStopStamp={props.onStopStamp}
+                    onDelete={props.onDeletePrefab}
+                    onExport={props.onExportPrefabs}
+                    onImport={props.onImportPrefabs}
+                    onClose={() => { setShowPrefabs(false); props.onStopStamp(); }}
+                />
+            )}
+
+            {showBoolean && (
+                <BooleanPanel
+                    builds={props.customBuilds}
+                    prefabs={props.prefabs}
+                    settings={props.booleanSettings}
+                    onChange={props.onSetBoolean}
+                    onApply={props.onApplyBoolean}
+                    onClose={() => { setShowBoolean(false); props.onSetBoolean(null); }}
+                />
+            )}
+
+            {props.generatorForm && (
+                <GeneratorPanel
+                    generator={props.generatorForm.generator}
+                    params={props.generatorForm.params}
+                    onChange={props.onGeneratorParamsChange}
+                    onApply={props.onApplyGenerator}
+                    onCancel={props.onCancelGenerator}
+                />
+            )}
+
             <div className="flex items-center gap-2">
               <div className="flex items-center gap-3 px-4 py-2 bg-white/90 backdrop-blur-md rounded-2xl border border-slate-200 shadow-sm text-slate-600 font-bold" title="Total Voxel Count">
                   <Box size={16} className="text-blue-500" />
@@ -284,12 +534,24 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
             </div>
         </div>
 
+        <div className="flex flex-col items-end gap-2">
         <div className="flex gap-2">
             <TactileButton onClick={props.onToggleMode} color={isBuildMode ? 'emerald' : 'sky'} icon={isBuildMode ? <BoxSelect size={18}/> : <Palette size={18}/>} label={isBuildMode ? "View" : "Build"} title="Toggle View/Build Mode (B)" />
             <TactileButton onClick={props.onSnapshot} color="indigo" icon={<Camera size={18}/>} compact title="Take Snapshot" />
             <TactileButton onClick={props.onToggleRotation} color={props.isAutoRotate ? 'sky' : 'slate'} icon={props.isAutoRotate ? <Pause size={18} fill="currentColor"/> : <Play size={18} fill="currentColor"/>} compact title="Toggle Auto-Rotation" />
             <TactileButton onClick={props.onToggleMute} color={props.isMuted ? 'slate' : 'slate'} icon={props.isMuted ? <VolumeX size={18}/> : <Volume2 size={18}/>} compact title={props.isMuted ? "Unmute Audio" : "Mute Audio"} />
         </div>
+
+        {/* Plugin Panels */}
+        {props.pluginContributions.panels.map(panel => (
+            <div key={panel.id} className="w-64 bg-white/95 backdrop-blur-md rounded-2xl border border-slate-200 shadow-xl overflow-hidden">
+                <div className="px-4 py-2 border-b border-slate-100 text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                    <Puzzle size={12} /> {panel.title}
+                </div>
+                <div className="p-3"><panel.component /></div>
+            </div>
+        ))}
+        </div>
       </div>
 
       {/* Auto Save Notification */}
@@ -303,12 +565,100 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
       {/* Middle: Build Controls */}
       {isBuildMode && (
           <div className="flex flex-col gap-3 pointer-events-auto self-start ml-0 translate-y-[-50%] absolute top-1/2 left-4 animate-in slide-in-from-left-4">
-              <div className="bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex flex-col gap-2">
+              <div className="relative bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex flex-col gap-2">
                   <ToolIcon active={props.buildTool === 'pencil'} onClick={() => props.onSetTool('pencil')} icon={<Pencil size={20}/>} label="1" color="blue" title="Pencil: Add new voxels" />
                   <ToolIcon active={props.buildTool === 'eraser'} onClick={() => props.onSetTool('eraser')} icon={<Eraser size={20}/>} label="2" color="rose" title="Eraser: Remove voxels" />
                   <ToolIcon active={props.buildTool === 'picker'} onClick={() => props.onSetTool('picker')} icon={<Pipette size={20}/>} label="3" color="emerald" title="Picker: Sample color and material" />
-                  <ToolIcon active={props.buildTool === 'select'} onClick={() => props.onSetTool('select')} icon={<BoxSelect size={20}/>} label="4" color="indigo" title="Select: Drag to select multiple voxels" />
+                  <ToolIcon active={props.buildTool === 'select'} onClick={() => props.onSetTool('select')} icon={<BoxSelect size={20}/>} label="4" color="indigo" title="Select: Drag or click to select voxels (Shift adds, Alt subtracts, both intersect)" />
                   <ToolIcon active={props.buildTool === 'paintBucket'} onClick={() => props.onSetTool('paintBucket')} icon={<PaintBucket size={20}/>} label="5" color="amber" title="Paint Bucket: Flood fill connected voxels" />
+                  <ToolIcon active={props.buildTool === 'shape'} onClick={() => props.onSetTool('shape')} icon={<Shapes size={20}/>} label="6" color="teal" title="Shape: Draw lines, boxes, ellipsoids and cylinders (Esc cancels)" />
+                  <ToolIcon active={props.buildTool === 'spray'} onClick={() => props.onSetTool('spray')} icon={<SprayCan size={20}/>} label="7" color="pink" title="Spray: Drag to speckle voxels with the current color" />
+                  <ToolIcon active={props.buildTool === 'extrude'} onClick={() => props.onSetTool('extrude')} icon={<ArrowUpFromLine size={20}/>} label="8" color="orange" title="Push/Pull: Drag a face to extrude or retract it" />
+                  {props.pluginContributions.tools.map(tool => (
+                      <ToolIcon key={tool.id} active={props.buildTool === tool.id} onClick={() => props.onSetTool(tool.id)} icon={tool.icon ?? <Puzzle size={20}/>} label={tool.label} color="violet" title={tool.title ?? tool.label} />
+                  ))}
+
+                  {props.buildTool === 'select' && (
+                      <div className="absolute left-full top-0 ml-2 bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex flex-col gap-2 animate-in fade-in slide-in-from-left-2">
+                        <div className="flex gap-1">
+                          <MaterialIcon active={props.selectionMode === 'box'} onClick={() => props.onSetSelectionMode('box')} icon={<BoxSelect size={18}/>} label="Box" title="Box: Drag a 3D box across the layers of the Y range" />
+                          <MaterialIcon active={props.selectionMode === 'lasso'} onClick={() => props.onSetSelectionMode('lasso')} icon={<Lasso size={18}/>} label="Lasso" title="Lasso: Draw around voxels on screen" />
+                          <MaterialIcon active={props.selectionMode === 'marquee'} onClick={() => props.onSetSelectionMode('marquee')} icon={<Scan size={18}/>} label="Marquee" title="Marquee: Drag a screen rectangle" />
+                          <MaterialIcon active={props.selectionMode === 'paint'} onClick={() => props.onSetSelectionMode('paint')} icon={<Brush size={18}/>} label="Paint" title="Paint: Brush over voxels to select them" />
+                          <MaterialIcon active={props.selectionMode === 'wand'} onClick={() => props.onSetSelectionMode('wand')} icon={<Wand size={18}/>} label="Wand" title="Magic Wand: Connected voxels of the same color and material" />
+                          <MaterialIcon active={props.selectionMode === 'color'} onClick={() => props.onSetSelectionMode('color')} icon={<Droplet size={18}/>} label="Color" title="Color: Every voxel of the clicked color" />
+                          <MaterialIcon active={props.selectionMode === 'material'} onClick={() => props.onSetSelectionMode('material')} icon={<Gem size={18}/>} label="Material" title="Material: Every voxel of the clicked material" />
+                          <MaterialIcon active={props.selectionMode === 'floating'} onClick={() => props.onSetSelectionMode('floating')} icon={<Unlink size={18}/>} label="Floating" title="Floating: The clicked loose group, or every voxel not connected to the floor or main body" />
+                          <div className="w-px bg-slate-200 mx-1" />
+                          <MaterialIcon active={false} onClick={props.onGrowSelection} icon={<Expand size={18}/>} label="Grow" title="Grow selection by one voxel" />
+                          <MaterialIcon active={false} onClick={props.onShrinkSelection} icon={<Shrink size={18}/>} label="Shrink" title="Shrink selection by one voxel" />
+                          <MaterialIcon active={false} onClick={props.onInvertSelection} icon={<Contrast size={18}/>} label="Invert" title="Invert selection" />
+                        </div>
+
+                        {props.selectionMode === 'box' && (
+                          <div className="flex gap-3 px-1">
+                              {(['min', 'max'] as const).map(end => (
+                                <div key={end} className="flex flex-col items-center gap-1 flex-1" title={end === 'min' ? 'Lowest layer of the box' : 'Highest layer of the box'}>
+                                    <input
+                                      type="range" min={CONFIG.FLOOR_Y} max={CONFIG.FLOOR_Y + CONFIG.MAX_SELECTION_HEIGHT} step="1" value={props.selectionHeight[end]}
+                                      onChange={(e) => {
+                                          const y = parseInt(e.target.value);
+                                          // Handles cannot cross, so the range never flips
+                                          if (end === 'min') props.onSetSelectionHeight(Math.min(y, props.selectionHeight.max), props.selectionHeight.max);
+                                          else props.onSetSelectionHeight(props.selectionHeight.min, Math.max(y, props.selectionHeight.min));
+                                      }}
+                                      className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                                    />
+                                    <span className="text-[8px] font-black uppercase text-slate-400">{end === 'min' ? 'From' : 'To'} Y {props.selectionHeight[end]}</span>
+                                </div>
+                              ))}
+                          </div>
+                        )}
+                        {(props.selectionMode === 'lasso' || props.selectionMode === 'marquee') && (
+                          <div className="flex gap-1">
+                              <MaterialIcon active={props.selectVisibleOnly} onClick={props.onToggleSelectVisibleOnly} icon={<Eye size={18}/>} label="Visible" title="Visible only: Skip voxels hidden behind others" />
+                          </div>
+                        )}
+                        {props.selectionMode === 'paint' && (
+                          <div className="flex flex-col items-center gap-1 px-1" title="Brush Radius">
+                              <input
+                                type="range" min="0" max={CONFIG.MAX_BRUSH_RADIUS} step="1" value={props.brushRadius}
+                                onChange={(e) => props.onSetBrush(parseInt(e.target.value), props.brushShape)}
+                                className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                              />
+                              <span className="text-[8px] font-black uppercase text-slate-400">Radius {props.brushRadius}</span>
+                          </div>
+                        )}
+                      </div>
+                  )}
+
+                  {isBrushTool && (
+                      <div className="absolute left-full top-0 ml-2 bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex gap-1 animate-in fade-in slide-in-from-left-2">
+                          <MaterialIcon active={props.brushShape === 'cube'} onClick={() => props.onSetBrush(props.brushRadius, 'cube')} icon={<Square size={18}/>} label="Cube" title="Cube brush" />
+                          <MaterialIcon active={props.brushShape === 'sphere'} onClick={() => props.onSetBrush(props.brushRadius, 'sphere')} icon={<Circle size={18}/>} label="Sphere" title="Sphere brush" />
+                          <MaterialIcon active={props.brushShape === 'disc'} onClick={() => props.onSetBrush(props.brushRadius, 'disc')} icon={<Disc size={18}/>} label="Disc" title="Disc brush: Flat against the clicked face" />
+                          <div className="w-px bg-slate-200 mx-1" />
+                          <div className="flex flex-col items-center justify-center gap-1 w-20 px-1" title="Brush Radius">
+                              <input
+                                type="range" min="0" max={CONFIG.MAX_BRUSH_RADIUS} step="1" value={props.brushRadius}
+                                onChange={(e) => props.onSetBrush(parseInt(e.target.value), props.brushShape)}
+                                className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                              />
+                              <span className="text-[8px] font-black uppercase text-slate-400">Radius {props.brushRadius}</span>
+                          </div>
+                      </div>
+                  )}
+
+                  {props.buildTool === 'shape' && (
+                      <div className="absolute left-full top-0 ml-2 bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex gap-1 animate-in fade-in slide-in-from-left-2">
+                          <MaterialIcon active={props.shapeKind === 'line'} onClick={() => props.onSetShape('line', props.shapeHollow)} icon={<Slash size={18}/>} label="Line" title="Line: Click both ends" />
+                          <MaterialIcon active={props.shapeKind === 'box'} onClick={() => props.onSetShape('box', props.shapeHollow)} icon={<Square size={18}/>} label="Box" title="Box: Click two corners, then the height" />
+                          <MaterialIcon active={props.shapeKind === 'ellipsoid'} onClick={() => props.onSetShape('ellipsoid', props.shapeHollow)} icon={<Circle size={18}/>} label="Ellipsoid" title="Ellipsoid: Click two corners, then the height" />
+                          <MaterialIcon active={props.shapeKind === 'cylinder'} onClick={() => props.onSetShape('cylinder', props.shapeHollow)} icon={<Cylinder size={18}/>} label="Cylinder" title="Cylinder: Click two corners of the base, then the height" />
+                          <div className="w-px bg-slate-200 mx-1" />
+                          <MaterialIcon active={props.shapeHollow} onClick={() => props.onSetShape(props.shapeKind, !props.shapeHollow)} icon={<SquareDashed size={18}/>} label="Hollow" title="Hollow: Keep only the outer shell" />
+                      </div>
+                  )}
               </div>
 
               <div className="bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex flex-col gap-2">
@@ -317,8 +667,47 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
                   <MaterialIcon active={props.selectedMaterial === VoxelMaterial.GLOW} onClick={() => props.onSetMaterial(VoxelMaterial.GLOW)} icon={<Sparkles size={18}/>} label="Glow" title="Glow: Self-illuminating surface" />
               </div>
 
-              <div className="bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex flex-col gap-2">
-                  <MaterialIcon active={props.isMirrorMode} onClick={props.onToggleMirror} icon={<Split size={18}/>} label="Mirror" title="Mirror Mode: Symmetrical building along the X-axis" />
+              <div className="relative bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex flex-col gap-2">
+                  <MaterialIcon active={isSymmetryOn} onClick={() => setShowSymmetry(!showSymmetry)} icon={<Split size={18}/>} label="Mirror" title="Symmetry: Mirror planes and radial copies for every build tool" />
+
+                  {showSymmetry && (
+                      <div className="absolute left-full top-0 ml-2 bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex flex-col gap-2 animate-in fade-in slide-in-from-left-2">
+                        <div className="flex gap-1">
+                          {(['x', 'y', 'z'] as Axis[]).map(axis => (
+                              <MaterialIcon
+                                key={axis} active={axes[axis]}
+                                onClick={() => props.onSetSymmetry({ ...props.symmetry, axes: { ...axes, [axis]: !axes[axis] } })}
+                                icon={axis === 'y' ? <FlipVertical2 size={18}/> : <FlipHorizontal2 size={18}/>}
+                                label={axis.toUpperCase()} title={`Mirror across the ${axis.toUpperCase()} plane`}
+                              />
+                          ))}
+                          <div className="w-px bg-slate-200 mx-1" />
+                          <div className="flex flex-col items-center justify-center gap-1 w-20 px-1" title="Radial symmetry: Copies around the Y axis (1 is off)">
+                              <input
+                                type="range" min="1" max={CONFIG.MAX_RADIAL_SYMMETRY} step="1" value={radial}
+                                onChange={(e) => props.onSetSymmetry({ ...props.symmetry, radial: parseInt(e.target.value) })}
+                                className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                              />
+                              <span className="text-[8px] font-black uppercase text-slate-400">Radial {radial}</span>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 px-1">
+                          {(['x', 'y', 'z'] as Axis[]).map(axis => (
+                              <div key={axis} className="flex items-center gap-0.5 flex-1" title={`Move the symmetry origin along ${axis.toUpperCase()}`}>
+                                  <button onClick={() => props.onSetSymmetry({ ...props.symmetry, origin: { ...origin, [axis]: origin[axis] - 0.5 } })} className="p-1 bg-slate-100 rounded-md hover:bg-slate-200"><Minus size={10}/></button>
+                                  <span className="text-[9px] font-black text-slate-500 font-mono w-9 text-center">{axis.toUpperCase()} {origin[axis]}</span>
+                                  <button onClick={() => props.onSetSymmetry({ ...props.symmetry, origin: { ...origin, [axis]: origin[axis] + 0.5 } })} className="p-1 bg-slate-100 rounded-md hover:bg-slate-200"><Plus size={10}/></button>
+                              </div>
+                          ))}
+                          <button
+                            onClick={() => { Sound.play('ui'); props.onSetSymmetry({ axes: { x: false, y: false, z: false }, origin: { x: 0, y: 0, z: 0 }, radial: 1 }); }}
+                            className="p-1 rounded-md text-slate-400 hover:bg-slate-100 hover:text-slate-600" title="Turn symmetry off and reset the origin"
+                          >
+                            <RefreshCcw size={12}/>
+                          </button>
+                        </div>
+                      </div>
+                  )}
                   
                   <div className="flex flex-col items-center justify-center pt-2 gap-1 w-14" title="Adjust Voxel Size">
                     <Maximize size={16} className="text-slate-400" />
@@ -335,6 +724,74 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
                   </div>
               </div>
 
+              <div className="relative bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex flex-col gap-2">
+                  <MaterialIcon active={!!props.slice} onClick={() => props.onSetSlice(props.slice ? null : { axis: 'y', level: 0, keep: 'below' })} icon={<Layers size={18}/>} label="Slice" title="Slice: Hide voxels past a level to edit the interior ([ and ] step)" />
+                  <MaterialIcon active={props.workPlane !== null} onClick={() => props.onSetWorkPlane(props.workPlane === null ? 0 : null)} icon={<Grid3x3 size={18}/>} label="Plane" title="Work Plane: Build on a movable grid instead of the floor (PgUp and PgDn step)" />
+                  <MaterialIcon active={showVolume} onClick={() => setShowVolume(!showVolume)} icon={<Cuboid size={18}/>} label="Shell" title="Shell: Hollow, fill and thicken the selection or the whole model" />
+                  <MaterialIcon active={!!props.floatingReport} onClick={props.onToggleFloating} icon={<Unlink size={18}/>} label="Loose" title="Connectivity: Highlight voxels not connected to the floor or the main body" />
+                  <MaterialIcon active={props.structuralGravity} onClick={props.onToggleGravity} icon={<ArrowDownToLine size={18}/>} label="Gravity" title="Structural Gravity: Voxels cut off from the floor fall after erasing" />
+
+                  {props.slice && (
+                      <div className="absolute left-full top-0 ml-2 bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex gap-1 animate-in fade-in slide-in-from-left-2">
+                          {(['x', 'y', 'z'] as Axis[]).map(axis => (
+                              <MaterialIcon key={axis} active={props.slice!.axis === axis} onClick={() => props.onSetSlice({ ...props.slice!, axis })} icon={<span className="text-sm font-black">{axis.toUpperCase()}</span>} label="Axis" title={`Slice along ${axis.toUpperCase()}`} />
+                          ))}
+                          <div className="w-px bg-slate-200 mx-1" />
+                          <MaterialIcon active={props.slice.keep === 'below'} onClick={() => props.onSetSlice({ ...props.slice!, keep: 'below' })} icon={<ArrowDown size={18}/>} label="Below" title="Keep the layers up to the level" />
+                          <MaterialIcon active={props.slice.keep === 'above'} onClick={() => props.onSetSlice({ ...props.slice!, keep: 'above' })} icon={<ArrowUp size={18}/>} label="Above" title="Keep the layers from the level on" />
+                          <div className="w-px bg-slate-200 mx-1" />
+                          <div className="flex flex-col items-center justify-center gap-0.5 w-12" title="Slice level ([ and ] step)">
+                              <button onClick={() => props.onSetSlice({ ...props.slice!, level: props.slice!.level + 1 })} className="p-0.5 bg-slate-100 rounded-md hover:bg-slate-200"><ChevronUp size={12}/></button>
+                              <span className="text-[10px] font-black text-slate-500 font-mono">{props.slice.level}</span>
+                              <button onClick={() => props.onSetSlice({ ...props.slice!, level: props.slice!.level - 1 })} className="p-0.5 bg-slate-100 rounded-md hover:bg-slate-200"><ChevronDown size={12}/></button>
+                          </div>
+                      </div>
+                  )}
+
+                  {showVolume && (
+                      <div className="absolute left-full top-28 ml-2 bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex gap-1 animate-in fade-in slide-in-from-left-2">
+                          <MaterialIcon active={false} onClick={() => props.onHollow(shellThickness)} icon={<PackageOpen size={18}/>} label="Hollow" title={`Hollow: Keep a shell ${shellThickness} voxel${shellThickness > 1 ? 's' : ''} thick`} />
+                          <div className="flex flex-col items-center justify-center gap-1 w-16 px-1" title="Shell thickness">
+                              <input
+                                type="range" min="1" max={CONFIG.MAX_SHELL_THICKNESS} step="1" value={shellThickness}
+                                onChange={(e) => setShellThickness(parseInt(e.target.value))}
+                                className="w-full h-1 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-indigo-500"
+                              />
+                              <span className="text-[8px] font-black uppercase text-slate-400">Shell {shellThickness}</span>
+                          </div>
+                          <div className="w-px bg-slate-200 mx-1" />
+                          <MaterialIcon active={false} onClick={props.onFillInterior} icon={<Package size={18}/>} label="Fill" title="Fill Interior: Fill enclosed cavities with the current color" />
+                          <MaterialIcon active={false} onClick={props.onThickenWalls} icon={<SquarePlus size={18}/>} label="Thicken" title="Thicken: Grow walls one voxel into the cavity" />
+                          <MaterialIcon active={false} onClick={props.onThinWalls} icon={<SquareMinus size={18}/>} label="Thin" title="Thin: Peel one voxel off the inside of walls" />
+                      </div>
+                  )}
+
+                  {props.floatingReport && (
+                      <div className="absolute left-full top-[168px] ml-2 bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex items-center gap-1 animate-in fade-in slide-in-from-left-2">
+                          <div className="flex flex-col items-center justify-center w-20 px-1 text-center">
+                              <span className={`text-lg font-black font-mono ${props.floatingReport.voxels > 0 ? 'text-orange-500' : 'text-emerald-500'}`}>{props.floatingReport.voxels}</span>
+                              <span className="text-[8px] font-black uppercase text-slate-400">
+                                  {props.floatingReport.voxels > 0 ? `Loose in ${props.floatingReport.groups} group${props.floatingReport.groups > 1 ? 's' : ''}` : 'All connected'}
+                              </span>
+                          </div>
+                          <div className="w-px bg-slate-200 mx-1 self-stretch" />
+                          <MaterialIcon active={false} onClick={props.onSelectFloating} icon={<BoxSelect size={18}/>} label="Select" title="Select the floating voxels" />
+                          <MaterialIcon active={false} onClick={props.onDeleteFloating} icon={<Trash2 size={18}/>} label="Delete" title="Delete the floating voxels" />
+                          <MaterialIcon active={false} onClick={props.onReattachFloating} icon={<Magnet size={18}/>} label="Reattach" title="Drop each floating group until it rests on the model or the floor" />
+                      </div>
+                  )}
+
+                  {props.workPlane !== null && (
+                      <div className="absolute left-full top-14 ml-2 bg-white/95 backdrop-blur-md p-2 rounded-2xl border border-slate-200 shadow-xl flex items-center gap-1 animate-in fade-in slide-in-from-left-2">
+                          <div className="flex flex-col items-center justify-center gap-0.5 w-12" title="Work plane layer (PgUp and PgDn step)">
+                              <button onClick={() => props.onSetWorkPlane(props.workPlane! + 1)} className="p-0.5 bg-slate-100 rounded-md hover:bg-slate-200"><ChevronUp size={12}/></button>
+                              <span className="text-[10px] font-black text-slate-500 font-mono">Y {props.workPlane}</span>
+                              <button onClick={() => props.onSetWorkPlane(props.workPlane! - 1)} className="p-0.5 bg-slate-100 rounded-md hover:bg-slate-200"><ChevronDown size={12}/></button>
+                          </div>
+                      </div>
+                  )}
+              </div>
+
               <div className="bg-white/95 backdrop-blur-md p-3 rounded-2xl border border-slate-200 shadow-xl flex flex-col gap-3 max-w-[210px]">
                   <div className="grid grid-cols-6 gap-2">
                       {PRESET_COLORS.map(c => (
@@ -354,7 +811,7 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
                       <span className="text-xl font-black text-indigo-600 font-mono">{props.selectedCount} <span className="text-xs text-slate-500 uppercase">voxels</span></span>
                   </div>
                   <div className="flex gap-2">
-                      <button onClick={props.onCopySelected} className="p-3 rounded-xl bg-indigo-100 text-indigo-600 hover:bg-indigo-200 transition-colors" title="Duplicate Selection">
+                      <button onClick={props.onDuplicateSelected} className="p-3 rounded-xl bg-indigo-100 text-indigo-600 hover:bg-indigo-200 transition-colors" title="Duplicate Selection: Click to place the copy">
                           <Copy size={20} />
                       </button>
                       <button onClick={props.onDeleteSelected} className="p-3 rounded-xl bg-rose-100 text-rose-600 hover:bg-rose-200 transition-colors" title="Delete Selection">
@@ -372,25 +829,6 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
                  </div>
               </div>
 
-               <div className="flex justify-center gap-2 border-b border-slate-100 pb-3">
-                   <button 
-                       onClick={props.onUndoSelection} 
-                       disabled={!props.canUndoSelection}
-                       className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${props.canUndoSelection ? 'bg-slate-100 hover:bg-slate-200 text-slate-600' : 'bg-slate-50 text-slate-300 cursor-not-allowed'}`}
-                       title="Undo Selection Change"
-                   >
-                       <Undo2 size={14} /> Undo Action
-                   </button>
-                   <button 
-                       onClick={props.onRedoSelection} 
-                       disabled={!props.canRedoSelection}
-                       className={`flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-bold transition-all ${props.canRedoSelection ? 'bg-slate-100 hover:bg-slate-200 text-slate-600' : 'bg-slate-50 text-slate-300 cursor-not-allowed'}`}
-                       title="Redo Selection Change"
-                   >
-                       <Redo2 size={14} /> Redo Action
-                   </button>
-               </div>
-
               <div className="grid grid-cols-3 gap-2">
                   <div className="flex flex-col items-center gap-1">
                       <span className="text-[8px] font-black text-slate-400 uppercase">X Axis</span>
@@ -413,12 +851,46 @@ export const UIOverlay: React.FC<UIOverlayProps> = (props) => {
                           <button onClick={() => props.onMoveSelected('z', 1)} className="p-2 bg-slate-100 rounded-lg hover:bg-slate-200" title="Move Forward"><ArrowUp size={16}/></button>
                       </div>
                   </div>
+                  {(['x', 'y', 'z'] as const).map(axis => (
+                      <div key={axis} className="flex gap-1 justify-center">
+                          <button onClick={() => props.onRotateSelected(axis, 1)} className="p-2 bg-slate-100 rounded-lg hover:bg-slate-200" title={`Rotate 90° counterclockwise about ${axis.toUpperCase()}`}><RotateCcw size={16}/></button>
+                          <button onClick={() => props.onRotateSelected(axis, -1)} className="p-2 bg-slate-100 rounded-lg hover:bg-slate-200" title={`Rotate 90° clockwise about ${axis.toUpperCase()}`}><RotateCw size={16}/></button>
+                          <button onClick={() => props.onMirrorSelected(axis)} className="p-2 bg-slate-100 rounded-lg hover:bg-slate-200" title={`Mirror along ${axis.toUpperCase()}`}><FlipHorizontal2 size={16}/></button>
+                      </div>
+                  ))}
+              </div>
+
+              <div className="flex items-center justify-between gap-4 border-t border-slate-100 pt-3">
+                  <div className="flex gap-1">
+                      {SCALE_STEPS.map(({ factor, label }) => (
+                          <button key={label} onClick={() => props.onScaleSelected(factor)} className="px-2 py-2 bg-slate-100 rounded-lg hover:bg-slate-200 flex items-center gap-1 text-xs font-black text-slate-600" title={factor < 1 ? `Scale down to ${label}` : `Scale up ${label}`}>
+                              <Scaling size={14}/>{label}
+                          </button>
+                      ))}
+                  </div>
+                  <div className="flex gap-1 bg-slate-100 rounded-lg p-1" title="When a transform hits unselected voxels">
+                      <Layers size={14} className="self-center text-slate-400 mx-1" />
+                      {(['overwrite', 'skip', 'cancel'] as const).map(policy => (
+                          <button key={policy} onClick={() => props.onSetCollisionPolicy(policy)} className={`px-2 py-1 rounded-md text-[10px] font-black uppercase ${props.collisionPolicy === policy ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-slate-200'}`}>
+                              {policy}
+                          </button>
+                      ))}
+                  </div>
+                  <button onClick={props.onTogglePivot} className={`p-2 rounded-lg ${props.hasPivot ? 'bg-amber-100 text-amber-600' : 'bg-slate-100 hover:bg-slate-200'}`} title={props.hasPivot ? 'Clear pivot (transform about the selection center)' : 'Set pivot: click a voxel in the scene'}>
+                      <Crosshair size={16}/>
+                  </button>
               </div>
           </div>
       )}
 
       {/* Bottom Actions */}
       <div className="flex justify-center items-center gap-4 pointer-events-auto">
+          {!props.isGenerating && !isBuildMode && (isStable || props.appState === AppState.DISMANTLING) && (
+               <div className="flex flex-col gap-1 bg-white/90 backdrop-blur-sm p-1 rounded-2xl border border-slate-200 shadow-lg animate-in fade-in slide-in-from-bottom-4">
+                  <MaterialIcon active={props.demolishTool === 'explode'} onClick={() => props.onSetDemolishTool(props.demolishTool === 'explode' ? null : 'explode')} icon={<Bomb size={18}/>} label="Blast" title="Explosion: click the model to blast it apart" />
+                  <MaterialIcon active={props.demolishTool === 'wreck'} onClick={() => props.onSetDemolishTool(props.demolishTool === 'wreck' ? null : 'wreck')} icon={<CircleDot size={18}/>} label="Wreck" title="Wrecking Ball: click to throw a heavy ball at that point" />
+               </div>
+          )}
           {isStable && !props.isGenerating && !isBuildMode && (
                <div className="flex gap-4 animate-in fade-in slide-in-from-bottom-4">
                   <BigActionButton onClick={props.onDismantle} icon={<Hammer size={32}/>} label="BREAK" color="rose" title="Simulate physics collapse" />
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VoxelScene } from './VoxelScene';
+import { AppMode, VoxelMaterial } from '../types';
+
+const cells = (scene: VoxelScene) => scene.voxels.map(v => `${v.x},${v.y},${v.z}`).sort();
+
+describe('CommandHistory', () => {
+  let scene: VoxelScene;
+  const place = (x: number) => scene.applyTool({ cell: { x, y: 0, z: 0 } });
+
+  beforeEach(() => {
+    scene = new VoxelScene();
+    scene.loadInitialModel([]);
+    scene.setMode(AppMode.BUILD);
+    scene.setTool('pencil');
+  });
+
+  it('undoes edits and selection changes on one stack, newest first', () => {
+    place(0);
+    scene.select([scene.voxelAt(0, 0, 0)!.id]);
+    place(1);
+
+    scene.undo();
+    expect(cells(scene)).toEqual(['0,0,0']);
+    expect(scene.selectionSize).toBe(1);
+    scene.undo();
+    expect(scene.selectionSize).toBe(0);
+    scene.undo();
+    expect(scene.voxels).toHaveLength(0);
+    expect(scene.undo()).toBe(false);
+  });
+
+  it('keeps an abandoned future as a branch that can be jumped back to', () => {
+    place(0);
+    place(1);
+    const abandoned = scene.currentHistoryNode.id;
+    scene.undo();
+    place(2);
+    expect(scene.redo()).toBe(false);
+
+    const branches = scene.getHistoryTimeline().filter(entry => entry.depth > 0);
+    expect(branches.length).toBeGreaterThan(0);
+
+    expect(scene.jumpToHistory(abandoned)).toBe(true);
+    expect(cells(scene)).toEqual(['0,0,0', '1,0,0']);
+  });
+
+  it('restores the undo history with a saved session', () => {
+    scene.setBuildProps(0x00ff00, VoxelMaterial.GLOW);
+    place(0);
+    place(1);
+    const session = JSON.parse(JSON.stringify(scene.getSession()));
+
+    const restored = new VoxelScene();
+    restored.restoreSession(session);
+    restored.setMode(AppMode.BUILD);
+    expect(restored.voxelAt(1, 0, 0)?.material).toBe(VoxelMaterial.GLOW);
+    expect(restored.undo()).toBe(true);
+    expect(cells(restored)).toEqual(['0,0,0']);
+    expect(restored.redo()).toBe(true);
+    expect(cells(restored)).toEqual(['0,0,0', '1,0,0']);
+  });
+});
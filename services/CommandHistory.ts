@@ -0,0 +1,360 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CommandType, EditCommand, HistoryNode, HistoryTimelineEntry, SerializedHistory, SimulationVoxel, VoxelRecord } from '../types';
+
+// Rough per-entry costs used for the byte budget (JS object overhead included)
+const COMMAND_BYTES = 96;
+const RECORD_BYTES = 72;
+const ID_BYTES = 8;
+
+/** Captures the persistent part of a simulation voxel. */
+export const toRecord = (v: SimulationVoxel): VoxelRecord => ({
+  id: v.id, x: v.x, y: v.y, z: v.z, color: v.color.getHex(), material: v.material
+});
+
+const sameRecord = (a: VoxelRecord, b: VoxelRecord) =>
+  a.x === b.x && a.y === b.y && a.z === b.z && a.color === b.color && a.material === b.material;
+
+/** A command to replay while walking the tree; `reverse` means undo it. */
+export interface HistoryStep {
+  command: EditCommand;
+  reverse: boolean;
+}
+
+/** Edit being recorded between `begin` and `commit`. */
+interface PendingCommand {
+  type: CommandType;
+  addedIds: Set<number>;
+  removed: VoxelRecord[];
+  before: Map<number, VoxelRecord>;
+  selectionBefore: number[];
+}
+
+/**
+ * CommandHistory is the single undo/redo log for every edit. Each entry is a
+ * reversible diff of only the voxels it touched, so memory scales with the size
+ * of the change rather than the model, and the log is bounded by a byte budget.
+ *
+ * Entries form a tree: editing after an undo starts a new branch instead of
+ * discarding the old future, and any node can be revisited by replaying the
+ * diffs along the path between it and the current state.
+ */
+export class CommandHistory {
+  private nodes = new Map<number, HistoryNode>();
+  private children = new Map<number, number[]>();
+  /** Child that redo follows from each node (the most recently visited one). */
+  private redoTargets = new Map<number, number>();
+  private rootId = 0;
+  private currentId = 0;
+  private nextId = 0;
+  private usedBytes = 0;
+  private maxBytes: number;
+  private pending: PendingCommand | null = null;
+
+  constructor(maxBytes: number) {
+    this.maxBytes = maxBytes;
+    this.clear();
+  }
+
+  public get canUndo() { return this.current.parentId !== null; }
+  public get canRedo() { return this.redoTargetOf(this.currentId) !== undefined; }
+  public get isRecording() { return this.pending !== null; }
+  /** Voxels the pending edit has destroyed so far, as they were before it. */
+  public get pendingRemovals(): readonly VoxelRecord[] { return this.pending?.removed ?? []; }
+  public get current(): HistoryNode { return this.nodes.get(this.currentId)!; }
+
+  /** Resets to a single root node representing the freshly loaded model. */
+  public clear() {
+    this.nodes.clear();
+    this.children.clear();
+    this.redoTargets.clear();
+    this.usedBytes = 0;
+    this.pending = null;
+    this.rootId = this.currentId = this.createNode(null).id;
+  }
+
+  // --- Recording ---
+
+  public begin(type: CommandType, selection: Set<number>) {
+    this.pending = { type, addedIds: new Set(), removed: [], before: new Map(), selectionBefore: Array.from(selection) };
+  }
+
+  public recordAdd(v: SimulationVoxel) {
+    this.pending?.addedIds.add(v.id);
+  }
+
+  public recordRemove(v: SimulationVoxel) {
+    if (!this.pending) return;
+    // A voxel created and destroyed within the same edit leaves no trace
+    if (this.pending.addedIds.delete(v.id)) return;
+    this.pending.removed.push(this.pending.before.get(v.id) ?? toRecord(v));
+    this.pending.before.delete(v.id);
+  }
+
+  /**
+   * Must be called before a surviving voxel is mutated. Only the first call per
+   * edit is kept; `before` overrides the captured state (e.g. pre-physics positions).
+   */
+  public recordTouch(v: SimulationVoxel, before?: VoxelRecord) {
+    if (!this.pending || this.pending.addedIds.has(v.id) || this.pending.before.has(v.id)) return;
+    this.pending.before.set(v.id, before ?? toRecord(v));
+  }
+
+  /**
+   * Finalizes the pending edit against the current scene state.
+   * Returns false (and records nothing) when the edit turned out to be a no-op.
+   */
+  public commit(selection: Set<number>, resolve: (id: number) => SimulationVoxel | undefined): boolean {
+    const p = this.pending;
+    this.pending = null;
+    if (!p) return false;
+
+    const added: VoxelRecord[] = [];
+    p.addedIds.forEach(id => { const v = resolve(id); if (v) added.push(toRecord(v)); });
+
+    const changed: EditCommand['changed'] = [];
+    p.before.forEach((before, id) => {
+      const v = resolve(id);
+      if (!v) return;
+      const after = toRecord(v);
+      if (!sameRecord(before, after)) changed.push({ before, after });
+    });
+
+    const next = Array.from(selection);
+    const selectionChanged = next.length !== p.selectionBefore.length || p.selectionBefore.some(id => !selection.has(id));
+
+    if (added.length === 0 && p.removed.length === 0 && changed.length === 0 && !selectionChanged) return false;
+
+    const command: EditCommand = { type: p.type, added, removed: p.removed, changed, bytes: 0 };
+    if (selectionChanged) command.selection = { prev: p.selectionBefore, next };
+    command.bytes = COMMAND_BYTES
+      + (added.length + p.removed.length + changed.length * 2) * RECORD_BYTES
+      + (selectionChanged ? (p.selectionBefore.length + next.length) * ID_BYTES : 0);
+
+    this.push(command);
+    return true;
+  }
+
+  /** Drops the pending edit without recording it. */
+  public cancel() {
+    this.pending = null;
+  }
+
+  // --- Navigation ---
+
+  /** Steps to the parent state. Returns the command whose inverse the caller applies. */
+  public undo(): EditCommand | undefined {
+    const node = this.current;
+    if (node.parentId === null) return undefined;
+    this.redoTargets.set(node.parentId, node.id);
+    this.currentId = node.parentId;
+    return node.command;
+  }
+
+  /** Steps to the most recently visited child. Returns the command to re-apply. */
+  public redo(): EditCommand | undefined {
+    const childId = this.redoTargetOf(this.currentId);
+    if (childId === undefined) return undefined;
+    this.currentId = childId;
+    return this.nodes.get(childId)!.command;
+  }
+
+  /**
+   * Moves to any node in the tree. Returns the commands to replay, in order:
+   * undo up to the common ancestor, then redo down the target's branch.
+   */
+  public jumpTo(targetId: number): HistoryStep[] {
+    if (!this.nodes.has(targetId) || targetId === this.currentId) return [];
+    const targetPath = this.pathFromRoot(targetId);
+    const onTargetPath = new Set(targetPath);
+
+    const steps: HistoryStep[] = [];
+    let node = this.current;
+    while (!onTargetPath.has(node.id)) {
+      steps.push({ command: node.command!, reverse: true });
+      node = this.nodes.get(node.parentId!)!;
+    }
+    for (let i = targetPath.indexOf(node.id) + 1; i < targetPath.length; i++) {
+      const next = this.nodes.get(targetPath[i])!;
+      this.redoTargets.set(next.parentId!, next.id);
+      steps.push({ command: next.command!, reverse: false });
+    }
+    this.currentId = targetId;
+    return steps;
+  }
+
+  public rename(id: number, name: string) {
+    const node = this.nodes.get(id);
+    if (node) node.name = name || undefined;
+  }
+
+  public setThumbnail(id: number, thumbnail: string) {
+    const node = this.nodes.get(id);
+    if (node) node.thumbnail = thumbnail;
+  }
+
+  /** Depth-first listing of the tree for the timeline panel. */
+  public timeline(): HistoryTimelineEntry[] {
+    const activePath = new Set(this.pathFromRoot(this.currentId));
+    const entries: HistoryTimelineEntry[] = [];
+    const visit = (id: number, depth: number) => {
+      const node = this.nodes.get(id)!;
+      entries.push({
+        id, type: node.command?.type, name: node.name, timestamp: node.timestamp, thumbnail: node.thumbnail,
+        depth, isCurrent: id === this.currentId, isActivePath: activePath.has(id)
+      });
+      // The oldest child continues the line; later branches are indented beneath the fork
+      (this.children.get(id) ?? []).forEach((childId, i) => visit(childId, i === 0 ? depth : depth + 1));
+    };
+    visit(this.rootId, 0);
+    return entries;
+  }
+
+  // --- Persistence ---
+
+  /**
+   * Exports the tree within a size budget. The current state and its nearest
+   * ancestors are kept first, then branches closest to the current path.
+   */
+  public serialize(maxBytes: number): SerializedHistory {
+    const sizeOf = (n: HistoryNode) => (n.command?.bytes ?? COMMAND_BYTES) + (n.thumbnail?.length ?? 0);
+    const kept = new Set<number>();
+    let budget = maxBytes;
+
+    // The current node is always kept, even when it alone exceeds the budget
+    let node: HistoryNode | undefined = this.current;
+    let topId = node.id;
+    while (node && (kept.size === 0 || sizeOf(node) <= budget)) {
+      kept.add(node.id);
+      budget -= sizeOf(node);
+      topId = node.id;
+      node = node.parentId === null ? undefined : this.nodes.get(node.parentId);
+    }
+
+    const queue = Array.from(kept);
+    for (let i = 0; i < queue.length; i++) {
+      for (const childId of this.children.get(queue[i])!) {
+        const child = this.nodes.get(childId)!;
+        if (kept.has(childId) || sizeOf(child) > budget) continue;
+        kept.add(childId);
+        budget -= sizeOf(child);
+        queue.push(childId);
+      }
+    }
+
+    const nodes = Array.from(this.nodes.values())
+      .filter(n => kept.has(n.id))
+      .map(n => n.id === topId ? { ...n, parentId: null, command: undefined } : n);
+    const redoTargets = Array.from(this.redoTargets.entries()).filter(([from, to]) => kept.has(from) && kept.has(to));
+    return { nodes, rootId: topId, currentId: this.currentId, nextId: this.nextId, redoTargets };
+  }
+
+  /** Replaces the whole tree with a previously serialized one. */
+  public restore(data: SerializedHistory) {
+    this.nodes.clear();
+    this.children.clear();
+    this.redoTargets = new Map(data.redoTargets);
+    this.pending = null;
+    this.usedBytes = 0;
+    // Ids grow with creation time, so sorting keeps siblings in their original order
+    const nodes = [...data.nodes].sort((a, b) => a.id - b.id);
+    nodes.forEach(n => { this.nodes.set(n.id, n); this.children.set(n.id, []); });
+    nodes.forEach(n => {
+      if (n.parentId !== null) this.children.get(n.parentId)?.push(n.id);
+      if (n.command) this.usedBytes += n.command.bytes;
+    });
+    this.rootId = data.rootId;
+    this.currentId = data.currentId;
+    this.nextId = data.nextId;
+    this.trim();
+  }
+
+  private push(command: EditCommand) {
+    const node = this.createNode(this.currentId, command);
+    this.redoTargets.set(this.currentId, node.id);
+    this.currentId = node.id;
+    this.usedBytes += command.bytes;
+    this.trim();
+  }
+
+  private createNode(parentId: number | null, command?: EditCommand): HistoryNode {
+    const node: HistoryNode = { id: this.nextId++, parentId, command, timestamp: Date.now() };
+    this.nodes.set(node.id, node);
+    this.children.set(node.id, []);
+    if (parentId !== null) this.children.get(parentId)!.push(node.id);
+    return node;
+  }
+
+  private redoTargetOf(id: number): number | undefined {
+    const target = this.redoTargets.get(id);
+    if (target !== undefined && this.nodes.has(target)) return target;
+    const children = this.children.get(id) ?? [];
+    return children[children.length - 1];
+  }
+
+  private pathFromRoot(id: number): number[] {
+    const path: number[] = [];
+    for (let node: HistoryNode | undefined = this.nodes.get(id); node; node = node.parentId === null ? undefined : this.nodes.get(node.parentId)) {
+      path.push(node.id);
+    }
+    return path.reverse();
+  }
+
+  /**
+   * Enforces the byte budget. Abandoned branches go first (oldest leaf first,
+   * named checkpoints last), then the root is advanced along the current path.
+   * The current state and its newest edit are always kept.
+   */
+  private trim() {
+    if (this.usedBytes <= this.maxBytes) return;
+    const activePath = new Set(this.pathFromRoot(this.currentId));
+
+    const leaves = Array.from(this.nodes.values())
+      .filter(n => !activePath.has(n.id) && this.children.get(n.id)!.length === 0)
+      .sort((a, b) => (a.name ? 1 : 0) - (b.name ? 1 : 0) || a.timestamp - b.timestamp);
+    while (this.usedBytes > this.maxBytes && leaves.length > 0) {
+      const leaf = leaves.shift()!;
+      const parentId = leaf.parentId!;
+      this.removeNode(leaf.id);
+      // Pruning a leaf can expose its parent as a new abandoned leaf
+      const parent = this.nodes.get(parentId)!;
+      if (!activePath.has(parentId) && this.children.get(parentId)!.length === 0) leaves.push(parent);
+    }
+
+    while (this.usedBytes > this.maxBytes && this.rootId !== this.currentId) {
+      const path = this.pathFromRoot(this.currentId);
+      if (path.length <= 2) break;
+      const oldRoot = this.rootId;
+      const newRoot = this.nodes.get(path[1])!;
+      // Everything hanging off the old root except the new root becomes unreachable
+      this.children.get(oldRoot)!.filter(id => id !== newRoot.id).forEach(id => this.removeSubtree(id));
+      this.nodes.delete(oldRoot);
+      this.children.delete(oldRoot);
+      this.redoTargets.delete(oldRoot);
+      this.usedBytes -= newRoot.command!.bytes;
+      newRoot.parentId = null;
+      newRoot.command = undefined;
+      this.rootId = newRoot.id;
+    }
+  }
+
+  private removeSubtree(id: number) {
+    [...this.children.get(id)!].forEach(childId => this.removeSubtree(childId));
+    this.removeNode(id);
+  }
+
+  private removeNode(id: number) {
+    const node = this.nodes.get(id)!;
+    if (node.command) this.usedBytes -= node.command.bytes;
+    if (node.parentId !== null) {
+      const siblings = this.children.get(node.parentId);
+      if (siblings) siblings.splice(siblings.indexOf(id), 1);
+    }
+    this.nodes.delete(id);
+    this.children.delete(id);
+    this.redoTargets.delete(id);
+  }
+}
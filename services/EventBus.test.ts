@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect } from 'vitest';
+import { EventBus } from './EventBus';
+
+interface TestEvents {
+  ping: number;
+}
+
+describe('EventBus', () => {
+  it('delivers payloads until the handler is removed', () => {
+    const bus = new EventBus<TestEvents>();
+    const seen: number[] = [];
+    const off = bus.on('ping', n => seen.push(n));
+    bus.emit('ping', 1);
+    off();
+    bus.emit('ping', 2);
+    expect(seen).toEqual([1]);
+  });
+
+  it('runs every handler and rethrows a failure when nobody handles errors', () => {
+    const bus = new EventBus<TestEvents>();
+    const seen: number[] = [];
+    bus.on('ping', () => { throw new Error('boom'); });
+    bus.on('ping', n => seen.push(n));
+    expect(() => bus.emit('ping', 1)).toThrow('boom');
+    expect(seen).toEqual([1]);
+  });
+
+  it('routes handler failures to error subscribers', () => {
+    const bus = new EventBus<TestEvents>();
+    const failures: [unknown, keyof TestEvents][] = [];
+    bus.onError((error, type) => failures.push([error, type]));
+    bus.on('ping', () => { throw new Error('boom'); });
+    expect(() => bus.emit('ping', 1)).not.toThrow();
+    expect(failures).toHaveLength(1);
+    expect(failures[0][1]).toBe('ping');
+  });
+});
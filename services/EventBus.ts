@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type EventHandler<T> = (payload: T) => void;
+export type EventErrorHandler<E> = (error: unknown, type: keyof E) => void;
+
+/**
+ * Minimal typed event emitter. `E` maps each event name to its payload type,
+ * so subscribers and emitters are checked against the same contract.
+ */
+export class EventBus<E> {
+  private handlers = new Map<keyof E, Set<EventHandler<E[keyof E]>>>();
+  private errorHandlers = new Set<EventErrorHandler<E>>();
+
+  /** Subscribes to an event. Returns a function that removes the handler. */
+  public on<K extends keyof E>(type: K, handler: EventHandler<E[K]>): () => void {
+    let set = this.handlers.get(type);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(type, set);
+    }
+    set.add(handler as EventHandler<E[keyof E]>);
+    return () => this.off(type, handler);
+  }
+
+  public off<K extends keyof E>(type: K, handler: EventHandler<E[K]>) {
+    this.handlers.get(type)?.delete(handler as EventHandler<E[keyof E]>);
+  }
+
+  /** Receives exceptions thrown by event handlers. Returns a function that removes the handler. */
+  public onError(handler: EventErrorHandler<E>): () => void {
+    this.errorHandlers.add(handler);
+    return () => this.errorHandlers.delete(handler);
+  }
+
+  /**
+   * Calls every handler even if one throws, so a failing observer (e.g. a plugin)
+   * cannot starve the others. Errors then go to `onError` subscribers, or the
+   * first one is rethrown when nobody listens.
+   */
+  public emit<K extends keyof E>(type: K, payload: E[K]) {
+    const set = this.handlers.get(type);
+    if (!set) return;
+    const errors: unknown[] = [];
+    set.forEach(handler => {
+      try {
+        handler(payload);
+      } catch (e) {
+        errors.push(e);
+      }
+    });
+    if (errors.length === 0) return;
+    if (this.errorHandlers.size === 0) throw errors[0];
+    errors.forEach(error => this.errorHandlers.forEach(handler => handler(error, type)));
+  }
+
+  public clear() {
+    this.handlers.clear();
+    this.errorHandlers.clear();
+  }
+}
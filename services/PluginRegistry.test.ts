@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect } from 'vitest';
+import type { VoxelEngine } from './VoxelEngine';
+import { PluginRegistry } from './PluginRegistry';
+import { VoxelScene } from './VoxelScene';
+
+const tool = { id: 'plugin:stamp' as const, label: 'Stamp', apply: () => false };
+
+describe('PluginRegistry', () => {
+  it('registers contributions and removes them with the plugin', () => {
+    const scene = new VoxelScene();
+    const plugins = new PluginRegistry({} as VoxelEngine, scene);
+    let disposed = false;
+    plugins.use({ id: 'stamp', setup: ({ registerTool }) => { registerTool(tool); return () => { disposed = true; }; } });
+    expect(scene.getTool(tool.id)).toBe(tool);
+    expect(plugins.contributions.tools).toHaveLength(1);
+
+    plugins.remove('stamp');
+    expect(scene.getTool(tool.id)).toBeUndefined();
+    expect(disposed).toBe(true);
+  });
+
+  it('installs nothing when setup throws', () => {
+    const scene = new VoxelScene();
+    const plugins = new PluginRegistry({} as VoxelEngine, scene);
+    expect(() => plugins.use({ id: 'broken', setup: ({ registerTool }) => { registerTool(tool); throw new Error('boom'); } }))
+      .toThrow('boom');
+    expect(plugins.has('broken')).toBe(false);
+    expect(scene.getTool(tool.id)).toBeUndefined();
+    expect(plugins.contributions.tools).toHaveLength(0);
+  });
+});
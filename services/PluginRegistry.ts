@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type React from 'react';
+import { VoxelData, VoxelEvents, GeneratorDefinition, GeneratorParamSpec } from '../types';
+import type { VoxelEngine } from './VoxelEngine';
+import { EventBus } from './EventBus';
+import { PluginTool, VoxelScene } from './VoxelScene';
+
+/** A plugin click tool together with its toolbar presentation. */
+export interface ToolContribution extends PluginTool {
+  icon?: React.ReactNode;
+  title?: string;
+}
+
+/** A model source listed next to the built-in presets. Declaring `params` opens the generator form. */
+export interface GeneratorContribution extends Omit<GeneratorDefinition, 'params'> {
+  params?: GeneratorParamSpec[];
+}
+
+export interface ExportFile {
+  filename: string;
+  content: string;
+}
+
+/** An export format listed in the Builds menu. */
+export interface ExporterContribution {
+  id: string;
+  label: string;
+  export: (voxels: VoxelData[]) => ExportFile[];
+}
+
+/** A floating UI panel rendered by the overlay. */
+export interface PanelContribution {
+  id: string;
+  title: string;
+  component: React.ComponentType;
+}
+
+/** Everything the UI currently needs to render plugin contributions. */
+export interface PluginContributions {
+  tools: ToolContribution[];
+  generators: GeneratorContribution[];
+  exporters: ExporterContribution[];
+  panels: PanelContribution[];
+}
+
+/** Handed to `VoxelPlugin.setup`. Registrations are undone automatically when the plugin is removed. */
+export interface PluginContext {
+  engine: VoxelEngine;
+  scene: VoxelScene;
+  events: EventBus<VoxelEvents>;
+  registerTool: (tool: ToolContribution) => void;
+  registerGenerator: (generator: GeneratorContribution) => void;
+  registerExporter: (exporter: ExporterContribution) => void;
+  registerPanel: (panel: PanelContribution) => void;
+}
+
+export interface VoxelPlugin {
+  id: string;
+  name?: string;
+  /** Registers contributions. May return a cleanup function (e.g. to drop event subscriptions). */
+  setup: (context: PluginContext) => void | (() => void);
+}
+
+interface InstalledPlugin {
+  contributions: PluginContributions;
+  dispose?: () => void;
+}
+
+/**
+ * PluginRegistry installs plugins and tracks what each one contributed, so
+ * new tools, generators, exporters and panels need no changes to the engine core.
+ */
+export class PluginRegistry {
+  private installed = new Map<string, InstalledPlugin>();
+  private engine: VoxelEngine;
+  private scene: VoxelScene;
+
+  constructor(engine: VoxelEngine, scene: VoxelScene) {
+    this.engine = engine;
+    this.scene = scene;
+  }
+
+  public get contributions(): PluginContributions {
+    const all: PluginContributions = { tools: [], generators: [], exporters: [], panels: [] };
+    this.installed.forEach(({ contributions: c }) => {
+      all.tools.push(...c.tools);
+      all.generators.push(...c.generators);
+      all.exporters.push(...c.exporters);
+      all.panels.push(...c.panels);
+    });
+    return all;
+  }
+
+  public has(id: string) { return this.installed.has(id); }
+
+  public use(plugin: VoxelPlugin) {
+    if (this.installed.has(plugin.id)) this.remove(plugin.id);
+
+    const contributions: PluginContributions = { tools: [], generators: [], exporters: [], panels: [] };
+    let dispose: void | (() => void);
+    try {
+      dispose = plugin.setup({
+        engine: this.engine,
+        scene: this.scene,
+        events: this.scene.events,
+        registerTool: tool => {
+          this.scene.registerTool(tool);
+          contributions.tools.push(tool);
+        },
+        registerGenerator: generator => contributions.generators.push(generator),
+        registerExporter: exporter => contributions.exporters.push(exporter),
+        registerPanel: panel => contributions.panels.push(panel)
+      });
+    } catch (e) {
+      // Leave no half-installed plugin behind
+      contributions.tools.forEach(tool => this.scene.unregisterTool(tool.id));
+      throw e;
+    }
+
+    const entry: InstalledPlugin = { contributions };
+    if (dispose) entry.dispose = dispose;
+    this.installed.set(plugin.id, entry);
+    this.scene.events.emit('pluginsChanged', undefined);
+  }
+
+  public remove(id: string) {
+    const entry = this.installed.get(id);
+    if (!entry) return;
+    this.installed.delete(id);
+    entry.contributions.tools.forEach(tool => this.scene.unregisterTool(tool.id));
+    entry.dispose?.();
+    this.scene.events.emit('pluginsChanged', undefined);
+  }
+}
@@ -6,20 +6,43 @@
 
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-import { AppState, AppMode, SimulationVoxel, RebuildTarget, VoxelData, BuildTool, VoxelMaterial } from '../types';
+import { AppState, AppMode, VoxelData, SimulationVoxel, BuildTool, VoxelMaterial, HistoryTimelineEntry, SessionDraft, VoxelEvents, GridPoint, ShapeKind, ToolTarget, BrushShape, SelectionMode, SelectionOp, Axis, CollisionPolicy, SymmetrySettings, SliceSettings, BooleanSettings, DemolishTool, RebuildChoreography, RebuildMatching } from '../types';
 import { CONFIG } from '../utils/voxelConstants';
+import { resizeThumbnail } from '../utils/imageHelpers';
 import { Sound } from './SoundService';
-
-type SelectionAction = 
-  | { type: 'SELECTION', prev: Set<number>, next: Set<number> }
-  | { type: 'TRANSFORM', prev: Map<number, THREE.Vector3>, next: Map<number, THREE.Vector3> }
-  | { type: 'DELETE', voxels: SimulationVoxel[] }
-  | { type: 'COPY', createdVoxels: SimulationVoxel[] }
-  | { type: 'MATERIAL', prev: Map<number, VoxelMaterial>, next: Map<number, VoxelMaterial> };
+import { VoxelRenderLayer } from './VoxelRenderLayer';
+import { VoxelScene } from './VoxelScene';
+import { EventBus } from './EventBus';
+import { PluginRegistry, VoxelPlugin } from './PluginRegistry';
+
+/** Feedback sound for each click tool that changed something. */
+const TOOL_SOUNDS: Partial<Record<BuildTool, 'place' | 'break' | 'ui' | 'paint'>> = {
+  pencil: 'place', eraser: 'break', picker: 'ui', paintBucket: 'paint', select: 'ui', shape: 'place', spray: 'paint'
+};
+
+/** Shift adds to the selection, Alt subtracts from it, both intersect with it. */
+const selectionOp = (event: MouseEvent): SelectionOp =>
+  event.shiftKey && event.altKey ? 'intersect' : event.shiftKey ? 'add' : event.altKey ? 'subtract' : 'replace';
+
+/** Tools that apply their brush continuously while the pointer is dragged. */
+const BRUSH_TOOLS = new Set<BuildTool>(['pencil', 'eraser', 'spray']);
+
+/** Selection modes that pick by dragging rather than by a single click. */
+const DRAG_SELECTION_MODES = new Set<SelectionMode>(['box', 'lasso', 'marquee', 'paint']);
+
+/** Even-odd test of a screen point against a closed polygon. */
+function pointInPolygon(x: number, y: number, polygon: { x: number; y: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i], b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < (b.x - a.x) * (y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
 
 /**
- * VoxelEngine handles the heavy lifting of 3D rendering, physics simulation,
- * and user interactions using Three.js and InstancedMeshes.
+ * VoxelEngine renders a VoxelScene with Three.js and InstancedMeshes and turns
+ * pointer input into tool calls. All voxel logic lives in the headless scene.
  */
 export class VoxelEngine {
   private container: HTMLElement;
@@ -28,13 +51,21 @@ export class VoxelEngine {
   private renderer: THREE.WebGLRenderer;
   private controls: OrbitControls;
   
-  private meshes: Map<VoxelMaterial, THREE.InstancedMesh> = new Map();
+  // Capacity-managed instanced buffers, updated per changed voxel
+  private renderLayer: VoxelRenderLayer;
   private dummy = new THREE.Object3D();
   
   private raycaster = new THREE.Raycaster();
   private mouse = new THREE.Vector2();
   
   private ghostVoxel: THREE.Mesh;
+  // Multi-cell ghost for shape previews, grown on demand
+  private ghostCells: THREE.InstancedMesh;
+  private ghostCellsCapacity: number = 0;
+  private ghostCellsKey: string = '';
+  // Multi-cell ghosts are tinted per instance, so their material stays white
+  private ghostCellsMaterial: THREE.MeshStandardMaterial;
+  private ghostColor = new THREE.Color();
   private targetHighlightGroup: THREE.Group;
   private targetHighlightWire: THREE.Mesh;
   private targetHighlightGlow: THREE.Mesh;
@@ -43,58 +74,51 @@ export class VoxelEngine {
   private selectionMesh: THREE.Mesh;
   private selectionStartPoint: THREE.Vector3 | null = null;
   private isSelecting: boolean = false;
-  private isAddingSelection: boolean = false; // Track shift key state
-  private selectedVoxelIds: Set<number> = new Set();
-  
-  // Persistent selection outline (Multiple voxels)
-  private persistentSelectionOutline: THREE.InstancedMesh | null = null;
+  // Layers spanned by the 3D selection box
+  private selectionYRange = { min: CONFIG.FLOOR_Y, max: CONFIG.FLOOR_Y + CONFIG.MAX_SELECTION_HEIGHT };
+  // Lasso and marquee: screen path of the drag and whether hidden voxels are skipped
+  private selectionPath: { x: number; y: number }[] = [];
+  private selectVisibleOnly: boolean = false;
+  private selectionCanvas: HTMLCanvasElement;
+  // Marker of a fixed transform pivot; the next click sets the pivot while picking
+  private pivotMarker: THREE.Mesh;
+  private isPickingPivot: boolean = false;
+  // Mirror planes and radial spokes of the symmetry settings, rebuilt whenever they change
+  private symmetryGizmo: THREE.Group;
+  // Cross-section clipping, and the grid that replaces the floor as the placement surface while set
+  private slice: SliceSettings | null = null;
+  private workPlane: THREE.Mesh;
+  private workPlaneLayer: number | null = null;
+  // Clipboard ghost follows the pointer until clicked into place; a stamp places prefab voxels instead, repeatedly
+  private isPasting: boolean = false;
+  private stampVoxels: VoxelData[] | null = null;
+  // Pending boolean shown as ghost cells; pointer editing pauses until it is applied or dropped
+  private booleanPreview: BooleanSettings | null = null;
+  // Outlines of voxels the connectivity analysis found floating, rebuilt per analysis
+  private floatingMarkers: THREE.InstancedMesh | null = null;
+  // Click effect while viewing, fired on release unless the press turned into a camera drag
+  private demolishTool: DemolishTool | null = null;
+  private demolishPress: { x: number; y: number } | null = null;
+  private wreckingBall: THREE.Mesh;
+
+  // Brush stroke (pencil/eraser/spray drag)
+  private isStroking: boolean = false;
+  private strokePlane: THREE.Plane | null = null;
+  private lastStrokeKey: string = '';
+  private lastStrokeSound: number = 0;
+
+  // Push/pull drag: the grabbed face region and the axis it slides along
+  private pushPullDrag: { region: GridPoint[]; normal: GridPoint; origin: THREE.Vector3; distance: number } | null = null;
   
   private voxelSize: number = CONFIG.VOXEL_SIZE;
-  private voxels: SimulationVoxel[] = [];
-  
-  // Global History
-  private undoStack: VoxelData[][] = [];
-  private redoStack: VoxelData[][] = [];
-  private maxHistory = 50;
-
-  // Selection Specific History
-  private selectionUndoStack: SelectionAction[] = [];
-  private selectionRedoStack: SelectionAction[] = [];
-
-  private rebuildTargets: RebuildTarget[] = [];
-  private rebuildStartTime: number = 0;
-  
-  private state: AppState = AppState.STABLE;
-  private mode: AppMode = AppMode.VIEW;
-  private buildTool: BuildTool = 'pencil';
-  private selectedColor: number = 0x3b82f6;
-  private selectedMaterial: VoxelMaterial = VoxelMaterial.MATTE;
-  private isMirrorMode: boolean = false;
-
-  private onStateChange: (state: AppState) => void;
-  private onCountChange: (count: number) => void;
-  private onColorPick: (color: number, material: VoxelMaterial) => void;
-  private onSelectionChange?: (count: number) => void;
-  private onHistoryChange?: (canUndo: boolean, canRedo: boolean) => void;
-  private onSelectionHistoryChange?: (canUndo: boolean, canRedo: boolean) => void;
+  // Headless model owning voxels, history, tools and simulation
+  private voxelScene: VoxelScene;
+  public readonly plugins: PluginRegistry;
+  private thumbnailTimer: number = 0;
   private animationId: number = 0;
 
-  constructor(
-    container: HTMLElement, 
-    onStateChange: (state: AppState) => void,
-    onCountChange: (count: number) => void,
-    onColorPick: (color: number, material: VoxelMaterial) => void,
-    onHistoryChange?: (canUndo: boolean, canRedo: boolean) => void,
-    onSelectionChange?: (count: number) => void,
-    onSelectionHistoryChange?: (canUndo: boolean, canRedo: boolean) => void
-  ) {
+  constructor(container: HTMLElement) {
     this.container = container;
-    this.onStateChange = onStateChange;
-    this.onCountChange = onCountChange;
-    this.onColorPick = onColorPick;
-    this.onHistoryChange = onHistoryChange;
-    this.onSelectionChange = onSelectionChange;
-    this.onSelectionHistoryChange = onSelectionHistoryChange;
 
     this.scene = new THREE.Scene();
     this.scene.background = new THREE.Color(CONFIG.BG_COLOR);
@@ -112,14 +136,41 @@ export class VoxelEngine {
     this.renderer.setSize(window.innerWidth, window.innerHeight);
     this.renderer.shadowMap.enabled = true;
     this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    this.renderer.localClippingEnabled = true;
     container.appendChild(this.renderer.domElement);
 
+    // 2D overlay for lasso and marquee outlines
+    this.selectionCanvas = document.createElement('canvas');
+    this.selectionCanvas.style.cssText = 'position:absolute;inset:0;pointer-events:none';
+    this.selectionCanvas.width = window.innerWidth;
+    this.selectionCanvas.height = window.innerHeight;
+    container.appendChild(this.selectionCanvas);
+
     this.controls = new OrbitControls(this.camera, this.renderer.domElement);
     this.controls.enableDamping = true;
     this.controls.autoRotate = true;
     this.controls.autoRotateSpeed = 0.5;
     this.controls.target.set(0, 5, 0);
 
+    this.voxelScene = new VoxelScene();
+    this.renderLayer = new VoxelRenderLayer(this.scene, this.voxelSize, id => this.voxelScene.isSelected(id));
+    this.plugins = new PluginRegistry(this, this.voxelScene);
+
+    const events = this.voxelScene.events;
+    events.on('voxelAdded', v => this.renderLayer.add(v));
+    events.on('voxelRemoved', v => this.renderLayer.remove(v));
+    events.on('voxelUpdated', v => this.renderLayer.update(v));
+    events.on('voxelsReset', voxels => this.renderLayer.reset(voxels));
+    events.on('pivotChanged', pivot => {
+        this.pivotMarker.visible = !!pivot && this.voxelScene.mode === AppMode.BUILD;
+        if (pivot) this.pivotMarker.position.set(pivot.x, pivot.y, pivot.z);
+    });
+    events.on('historyChanged', () => {
+        // Cached ghost previews depend on the voxels around them
+        this.ghostCellsKey = '';
+        this.scheduleThumbnail();
+    });
+
     this.initOverlays();
     this.initLighting();
     this.initEnvironment();
@@ -140,6 +191,8 @@ export class VoxelEngine {
     this.ghostVoxel = new THREE.Mesh(ghostGeo, ghostMat);
     this.ghostVoxel.visible = false;
     this.scene.add(this.ghostVoxel);
+    this.ghostCellsMaterial = ghostMat.clone();
+    this.ghostCells = this.createGhostCells(256);
 
     this.targetHighlightGroup = new THREE.Group();
     const highlightGeo = new THREE.BoxGeometry(1.08, 1.08, 1.08);
@@ -161,10 +214,67 @@ export class VoxelEngine {
     this.selectionMesh = new THREE.Mesh(selectionGeo, selectionMat);
     this.selectionMesh.visible = false;
     this.scene.add(this.selectionMesh);
+
+    this.pivotMarker = new THREE.Mesh(new THREE.OctahedronGeometry(0.6), new THREE.MeshBasicMaterial({
+        color: 0xf59e0b, wireframe: true, depthTest: false
+    }));
+    this.pivotMarker.renderOrder = 1;
+    this.pivotMarker.visible = false;
+    this.scene.add(this.pivotMarker);
+
+    this.symmetryGizmo = new THREE.Group();
+    this.symmetryGizmo.visible = false;
+    this.scene.add(this.symmetryGizmo);
+
+    this.wreckingBall = new THREE.Mesh(
+        new THREE.SphereGeometry(CONFIG.WRECKING_BALL_RADIUS, 24, 16),
+        new THREE.MeshStandardMaterial({ color: 0x334155, metalness: 0.8, roughness: 0.35 })
+    );
+    this.wreckingBall.castShadow = true;
+    this.wreckingBall.visible = false;
+    this.scene.add(this.wreckingBall);
     
     this.updateOverlayScales();
   }
 
+  private createGhostCells(capacity: number): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(this.ghostVoxel.geometry, this.ghostCellsMaterial, capacity);
+    mesh.count = 0;
+    mesh.visible = false;
+    mesh.frustumCulled = false;
+    this.ghostCellsCapacity = capacity;
+    this.scene.add(mesh);
+    return mesh;
+  }
+
+  /** Shows the ghost at every given cell, in the build color unless `colors` are given per cell. */
+  private showGhostCells(cells: GridPoint[], colors?: number[]) {
+    if (cells.length > this.ghostCellsCapacity) {
+      this.scene.remove(this.ghostCells);
+      this.ghostCells.dispose();
+      let capacity = this.ghostCellsCapacity;
+      while (capacity < cells.length) capacity *= 2;
+      this.ghostCells = this.createGhostCells(capacity);
+    }
+    this.dummy.rotation.set(0, 0, 0);
+    this.dummy.scale.setScalar(this.voxelSize);
+    cells.forEach((c, i) => {
+      this.dummy.position.set(c.x, c.y, c.z);
+      this.dummy.updateMatrix();
+      this.ghostCells.setMatrixAt(i, this.dummy.matrix);
+      this.ghostCells.setColorAt(i, this.ghostColor.setHex(colors?.[i] ?? this.voxelScene.color));
+    });
+    this.ghostCells.count = cells.length;
+    this.ghostCells.instanceMatrix.needsUpdate = true;
+    if (this.ghostCells.instanceColor) this.ghostCells.instanceColor.needsUpdate = true;
+    this.ghostCells.visible = cells.length > 0;
+  }
+
+  private hideGhostCells() {
+    this.ghostCells.visible = false;
+    this.ghostCellsKey = '';
+  }
+
   private updateOverlayScales() {
     const scale = this.voxelSize;
     this.ghostVoxel.scale.set(scale, scale, scale);
@@ -190,635 +300,849 @@ export class VoxelEngine {
     floor.receiveShadow = true;
     floor.name = "FLOOR";
     this.scene.add(floor);
+
+    const size = CONFIG.WORK_PLANE_SIZE;
+    this.workPlane = new THREE.Mesh(
+        new THREE.PlaneGeometry(size, size).rotateX(-Math.PI / 2),
+        new THREE.MeshBasicMaterial({ color: 0x6366f1, transparent: true, opacity: 0.08, depthWrite: false })
+    );
+    // Grid lines run along cell boundaries rather than through cell centers
+    const grid = new THREE.GridHelper(size, size, 0x6366f1, 0xa5b4fc);
+    grid.position.set(0.5, 0.01, 0.5);
+    this.workPlane.add(grid);
+    this.workPlane.name = "WORK_PLANE";
+    this.workPlane.visible = false;
+    this.scene.add(this.workPlane);
   }
 
   public takeSnapshot(): string {
       const prevG = this.ghostVoxel.visible;
       const prevH = this.targetHighlightGroup.visible;
+      const prevC = this.ghostCells.visible;
+      const prevP = this.pivotMarker.visible;
+      const prevS = this.symmetryGizmo.visible;
+      const prevW = this.workPlane.visible;
+      const prevF = this.floatingMarkers?.visible ?? false;
+      const prevB = this.wreckingBall.visible;
       this.ghostVoxel.visible = false;
       this.targetHighlightGroup.visible = false;
+      this.ghostCells.visible = false;
+      this.pivotMarker.visible = false;
+      this.symmetryGizmo.visible = false;
+      this.workPlane.visible = false;
+      if (this.floatingMarkers) this.floatingMarkers.visible = false;
+      this.wreckingBall.visible = false;
       this.renderer.render(this.scene, this.camera);
       const dataUrl = this.renderer.domElement.toDataURL('image/png');
       this.ghostVoxel.visible = prevG;
       this.targetHighlightGroup.visible = prevH;
+      this.ghostCells.visible = prevC;
+      this.pivotMarker.visible = prevP;
+      this.symmetryGizmo.visible = prevS;
+      this.workPlane.visible = prevW;
+      if (this.floatingMarkers) this.floatingMarkers.visible = prevF;
+      this.wreckingBall.visible = prevB;
       return dataUrl;
   }
 
-  // --- Selection History Management ---
+  /** Typed scene events (voxel edits, selection, state, history, tools, plugins). */
+  public get events(): EventBus<VoxelEvents> { return this.voxelScene.events; }
+
+  /** The headless model, for plugins and scripts that edit voxels directly. */
+  public get model(): VoxelScene { return this.voxelScene; }
+
+  public use(plugin: VoxelPlugin) { this.plugins.use(plugin); }
+
+  // --- Group Manipulation Methods ---
 
-  private pushSelectionHistory(action: SelectionAction) {
-    this.selectionUndoStack.push(action);
-    this.selectionRedoStack = [];
-    this.notifySelectionHistory();
+  public deleteSelected() {
+    if (this.voxelScene.deleteSelected()) Sound.play('break');
   }
 
-  private notifySelectionHistory() {
-    this.onSelectionHistoryChange?.(this.selectionUndoStack.length > 0, this.selectionRedoStack.length > 0);
+  /** Copies the selection to the clipboard. Returns the copied voxels for the system clipboard. */
+  public copySelection(): VoxelData[] | null {
+    const copied = this.voxelScene.copySelection();
+    if (copied) Sound.play('ui');
+    return copied;
   }
 
-  public undoSelection() {
-    const action = this.selectionUndoStack.pop();
-    if (!action) return;
+  public cutSelection(): VoxelData[] | null {
+    const copied = this.voxelScene.cutSelection();
+    if (copied) Sound.play('break');
+    return copied;
+  }
 
-    this.selectionRedoStack.push(action);
+  /**
+   * Starts placing the clipboard (replaced by `voxels` if given) as a ghost
+   * that follows the pointer until a click pastes it. Returns false if there is nothing to paste.
+   */
+  public beginPaste(voxels?: VoxelData[]): boolean {
+    if (voxels) this.voxelScene.setClipboard(voxels);
+    if (this.voxelScene.mode !== AppMode.BUILD || this.voxelScene.clipboardVoxels.length === 0) return false;
+    this.isPasting = true;
+    this.stampVoxels = null;
+    this.updatePasteGhost();
+    return true;
+  }
 
-    switch(action.type) {
-      case 'SELECTION':
-        this.selectedVoxelIds = new Set(action.prev);
-        break;
-      case 'TRANSFORM':
-        this.voxels.forEach(v => {
-          if (action.prev.has(v.id)) {
-            const pos = action.prev.get(v.id)!;
-            v.x = pos.x; v.y = pos.y; v.z = pos.z;
-          }
-        });
-        break;
-      case 'DELETE':
-        this.voxels.push(...action.voxels);
-        action.voxels.forEach(v => this.selectedVoxelIds.add(v.id)); // Restore selection of deleted items
-        break;
-      case 'COPY':
-        const createdIds = new Set(action.createdVoxels.map(v => v.id));
-        this.voxels = this.voxels.filter(v => !createdIds.has(v.id));
-        this.selectedVoxelIds = new Set(); // Clear selection as copies are gone
-        break;
-      case 'MATERIAL':
-        this.voxels.forEach(v => {
-          if (action.prev.has(v.id)) {
-            v.material = action.prev.get(v.id)!;
-          }
-        });
-        break;
-    }
+  /**
+   * Starts stamping base-anchored prefab voxels: every click places a copy
+   * until `cancelPaste`. Calling it again swaps the voxels, e.g. after a rotation.
+   */
+  public beginStamp(voxels: VoxelData[]): boolean {
+    if (this.voxelScene.mode !== AppMode.BUILD || voxels.length === 0) return false;
+    this.isPasting = true;
+    this.stampVoxels = voxels;
+    this.updatePasteGhost();
+    return true;
+  }
 
-    this.rebuildInstanceMeshes();
-    this.onCountChange(this.voxels.length);
-    this.onSelectionChange?.(this.selectedVoxelIds.size);
-    this.notifySelectionHistory();
-    Sound.play('undo');
+  public cancelPaste() {
+    this.isPasting = false;
+    this.stampVoxels = null;
+    this.hideGhostCells();
   }
 
-  public redoSelection() {
-    const action = this.selectionRedoStack.pop();
-    if (!action) return;
+  private updatePasteGhost() {
+      this.raycaster.setFromCamera(this.mouse, this.camera);
+      const anchor = this.pickTarget()?.cell;
+      const voxels = this.stampVoxels ?? this.voxelScene.clipboardVoxels;
+      if (anchor) this.showGhostCells(this.voxelScene.pasteCells(anchor, voxels), voxels.map(v => v.color));
+      else this.ghostCells.visible = false;
+  }
 
-    this.selectionUndoStack.push(action);
+  /**
+   * Previews a boolean as ghost cells: additions in the operand's colors, removals
+   * in red. Null clears it.
+   */
+  public previewBoolean(settings: BooleanSettings | null) {
+    this.booleanPreview = settings;
+    if (!settings) { this.hideGhostCells(); return; }
+    const { added, removed, recolored } = this.voxelScene.booleanDiff(settings);
+    const cells: GridPoint[] = [...added, ...removed, ...recolored.map(r => r.voxel)];
+    const colors = [...added.map(v => v.color), ...removed.map(() => 0xef4444), ...recolored.map(r => r.data.color)];
+    this.showGhostCells(cells, colors);
+  }
 
-    switch(action.type) {
-      case 'SELECTION':
-        this.selectedVoxelIds = new Set(action.next);
-        break;
-      case 'TRANSFORM':
-        this.voxels.forEach(v => {
-          if (action.next.has(v.id)) {
-            const pos = action.next.get(v.id)!;
-            v.x = pos.x; v.y = pos.y; v.z = pos.z;
-          }
-        });
-        break;
-      case 'DELETE':
-        const idsToDelete = new Set(action.voxels.map(v => v.id));
-        this.voxels = this.voxels.filter(v => !idsToDelete.has(v.id));
-        this.clearSelection();
-        break;
-      case 'COPY':
-        this.voxels.push(...action.createdVoxels);
-        this.clearSelection();
-        action.createdVoxels.forEach(v => this.selectedVoxelIds.add(v.id));
-        break;
-      case 'MATERIAL':
-        this.voxels.forEach(v => {
-            if (action.next.has(v.id)) {
-              v.material = action.next.get(v.id)!;
-            }
-          });
-        break;
-    }
+  public applyBoolean(settings: BooleanSettings): boolean {
+    const applied = this.voxelScene.applyBoolean(settings);
+    if (applied) this.previewBoolean(null);
+    Sound.play(applied ? 'place' : 'error');
+    return applied;
+  }
 
-    this.rebuildInstanceMeshes();
-    this.onCountChange(this.voxels.length);
-    this.onSelectionChange?.(this.selectedVoxelIds.size);
-    this.notifySelectionHistory();
-    Sound.play('redo');
+  /** Copies the selection and starts pasting it. */
+  public duplicateSelection() {
+    if (this.voxelScene.copySelection()) this.beginPaste();
   }
 
-  // --- Group Manipulation Methods ---
+  public moveSelected(axis: 'x' | 'y' | 'z', dir: number) {
+    if (this.voxelScene.moveSelected(axis, dir)) Sound.play('place');
+  }
 
-  public deleteSelected() {
-    if (this.selectedVoxelIds.size === 0) return;
-    this.pushHistory(); // Main history
-    
-    // Capture for Selection History
-    const deletedVoxels = this.voxels.filter(v => this.selectedVoxelIds.has(v.id));
-    this.pushSelectionHistory({
-      type: 'DELETE',
-      voxels: JSON.parse(JSON.stringify(deletedVoxels)) // Deep copy
-    });
+  public setSelectionMaterial(material: VoxelMaterial) {
+    if (this.voxelScene.setSelectionMaterial(material)) Sound.play('paint');
+  }
 
-    this.voxels = this.voxels.filter(v => !this.selectedVoxelIds.has(v.id));
-    this.clearSelection(); // This calls rebuildInstanceMeshes
-    this.onCountChange(this.voxels.length);
-    Sound.play('break');
+  public clearSelection() {
+    this.voxelScene.clearSelection();
   }
 
-  public copySelected() {
-    if (this.selectedVoxelIds.size === 0) return;
-    this.pushHistory(); // Main history
+  public growSelection() {
+    if (this.voxelScene.growSelection()) Sound.play('ui');
+  }
 
-    const selected = this.voxels.filter(v => this.selectedVoxelIds.has(v.id));
-    const copies = selected.map(v => ({
-        ...v,
-        id: Date.now() + Math.random(),
-        x: v.x + 1 // Offset to show it was copied
-    }));
-    this.voxels.push(...copies);
+  public shrinkSelection() {
+    if (this.voxelScene.shrinkSelection()) Sound.play('ui');
+  }
 
-    // Capture for Selection History
-    this.pushSelectionHistory({
-      type: 'COPY',
-      createdVoxels: JSON.parse(JSON.stringify(copies))
-    });
+  public invertSelection() {
+    if (this.voxelScene.invertSelection()) Sound.play('ui');
+  }
 
-    // Select the new copies
-    this.selectedVoxelIds.clear();
-    copies.forEach(c => this.selectedVoxelIds.add(c.id));
+  public rotateSelection(axis: Axis, turns: number) {
+    Sound.play(this.voxelScene.rotateSelection(axis, turns) ? 'place' : 'error');
+  }
 
-    this.rebuildInstanceMeshes();
-    this.onCountChange(this.voxels.length);
-    this.onSelectionChange?.(this.selectedVoxelIds.size);
-    Sound.play('place');
+  public mirrorSelection(axis: Axis) {
+    Sound.play(this.voxelScene.mirrorSelection(axis) ? 'place' : 'error');
   }
 
-  public moveSelected(axis: 'x' | 'y' | 'z', dir: number) {
-    if (this.selectedVoxelIds.size === 0) return;
-    this.pushHistory(); // Main History
-
-    // Capture state before move
-    const prevPositions = new Map<number, THREE.Vector3>();
-    this.voxels.forEach(v => {
-      if (this.selectedVoxelIds.has(v.id)) {
-        prevPositions.set(v.id, new THREE.Vector3(v.x, v.y, v.z));
-      }
-    });
+  public scaleSelection(factor: number) {
+    Sound.play(this.voxelScene.scaleSelection(factor) ? 'place' : 'error');
+  }
 
-    // Perform move
-    this.voxels.forEach(v => {
-        if (this.selectedVoxelIds.has(v.id)) {
-            v[axis] += dir;
-        }
-    });
+  /** Outlines floating voxels (see `VoxelScene.floatingGroups`) and reports how many there are. */
+  public analyzeFloating(): { voxels: number; groups: number } {
+    const groups = this.voxelScene.floatingGroups();
+    const floating = groups.flat();
+    this.hideFloating();
+    if (floating.length > 0) {
+      const markers = new THREE.InstancedMesh(
+          new THREE.BoxGeometry(1.1, 1.1, 1.1),
+          new THREE.MeshBasicMaterial({ color: 0xf97316, wireframe: true, depthTest: false }),
+          floating.length
+      );
+      markers.renderOrder = 1;
+      markers.frustumCulled = false;
+      floating.forEach((v, i) => {
+        this.dummy.position.set(v.x, v.y, v.z);
+        this.dummy.rotation.set(0, 0, 0);
+        this.dummy.scale.setScalar(this.voxelSize);
+        this.dummy.updateMatrix();
+        markers.setMatrixAt(i, this.dummy.matrix);
+      });
+      this.floatingMarkers = markers;
+      this.scene.add(markers);
+    }
+    return { voxels: floating.length, groups: groups.length };
+  }
 
-    // Capture state after move
-    const nextPositions = new Map<number, THREE.Vector3>();
-    this.voxels.forEach(v => {
-      if (this.selectedVoxelIds.has(v.id)) {
-        nextPositions.set(v.id, new THREE.Vector3(v.x, v.y, v.z));
-      }
-    });
+  public hideFloating() {
+    if (!this.floatingMarkers) return;
+    this.scene.remove(this.floatingMarkers);
+    this.floatingMarkers.geometry.dispose();
+    (this.floatingMarkers.material as THREE.Material).dispose();
+    this.floatingMarkers.dispose();
+    this.floatingMarkers = null;
+  }
 
-    this.pushSelectionHistory({
-      type: 'TRANSFORM',
-      prev: prevPositions,
-      next: nextPositions
-    });
+  public selectFloating() {
+    if (this.voxelScene.selectFloating()) Sound.play('ui');
+  }
 
-    this.rebuildInstanceMeshes();
-    Sound.play('place');
+  public deleteFloating() {
+    Sound.play(this.voxelScene.deleteFloating() ? 'break' : 'error');
   }
 
-  public setSelectionMaterial(material: VoxelMaterial) {
-    if (this.selectedVoxelIds.size === 0) return;
-    this.pushHistory();
-
-    const prev = new Map<number, VoxelMaterial>();
-    const next = new Map<number, VoxelMaterial>();
-
-    this.voxels.forEach(v => {
-        if (this.selectedVoxelIds.has(v.id)) {
-            prev.set(v.id, v.material);
-            v.material = material;
-            next.set(v.id, material);
-        }
-    });
+  public reattachFloating() {
+    Sound.play(this.voxelScene.reattachFloating() ? 'place' : 'error');
+  }
 
-    this.pushSelectionHistory({
-      type: 'MATERIAL',
-      prev,
-      next
-    });
+  /** Volume operations act on the selection, or the whole model when nothing is selected. */
+  public hollow(thickness: number) {
+    Sound.play(this.voxelScene.hollow(thickness) ? 'break' : 'error');
+  }
 
-    this.rebuildInstanceMeshes();
-    Sound.play('paint');
+  public fillInterior() {
+    Sound.play(this.voxelScene.fillInterior() ? 'place' : 'error');
   }
 
-  public clearSelection() {
-    // If we are clearing a non-empty selection, maybe track it?
-    // Usually clicking away clears. We might want to undo that.
-    if (this.selectedVoxelIds.size > 0) {
-       this.pushSelectionHistory({
-         type: 'SELECTION',
-         prev: new Set(this.selectedVoxelIds),
-         next: new Set()
-       });
-    }
+  public thickenWalls() {
+    Sound.play(this.voxelScene.thickenWalls() ? 'place' : 'error');
+  }
+
+  public thinWalls() {
+    Sound.play(this.voxelScene.thinWalls() ? 'break' : 'error');
+  }
+
+  public setCollisionPolicy(policy: CollisionPolicy) {
+    this.voxelScene.setCollisionPolicy(policy);
+  }
 
-    this.selectedVoxelIds.clear();
-    this.onSelectionChange?.(0);
-    this.rebuildInstanceMeshes();
+  /** The next click in the scene sets the transform pivot to the voxel or cell under the pointer. */
+  public pickPivot() {
+    this.isPickingPivot = true;
+  }
+
+  public clearPivot() {
+    this.isPickingPivot = false;
+    this.voxelScene.setTransformPivot(null);
   }
 
   // --- Interaction Logic ---
 
   public setMode(mode: AppMode) {
-      this.mode = mode;
+      this.voxelScene.setMode(mode);
+      this.isPasting = false;
+      this.stampVoxels = null;
       this.ghostVoxel.visible = false;
       this.targetHighlightGroup.visible = false;
-      if (mode !== AppMode.BUILD) this.clearSelection();
+      this.pivotMarker.visible = mode === AppMode.BUILD && !!this.voxelScene.pivot;
+      this.symmetryGizmo.visible = mode === AppMode.BUILD && this.symmetryGizmo.children.length > 0;
+      this.workPlane.visible = mode === AppMode.BUILD && this.workPlaneLayer !== null;
+      this.hideGhostCells();
   }
 
   public setTool(tool: BuildTool) {
-      this.buildTool = tool;
-      this.clearSelection();
+      this.voxelScene.setTool(tool);
+      this.hideGhostCells();
+  }
+
+  public setSelectionMode(mode: SelectionMode) {
+      this.voxelScene.setSelectionMode(mode);
+  }
+
+  /** Restricts the 3D selection box to the layers from `min` to `max`. */
+  public setSelectionHeight(min: number, max: number) {
+      this.selectionYRange = { min: Math.min(min, max), max: Math.max(min, max) };
+  }
+
+  /** When enabled, lasso and marquee skip voxels hidden behind others. */
+  public setSelectVisibleOnly(enabled: boolean) {
+      this.selectVisibleOnly = enabled;
   }
 
-  public setMirrorMode(enabled: boolean) {
-    this.isMirrorMode = enabled;
+  public setBrush(radius: number, shape: BrushShape) {
+      this.voxelScene.setBrush(radius, shape);
+  }
+
+  public setShapeOptions(kind: ShapeKind, hollow: boolean) {
+      this.voxelScene.setShapeOptions(kind, hollow);
+      this.hideGhostCells();
+  }
+
+  /** Abandons a partially drawn shape (Escape). */
+  public cancelShape() {
+      this.voxelScene.cancelShape();
+      this.hideGhostCells();
+  }
+
+  /** Applies mirror axes, plane origin and radial fold count to every build tool and redraws the gizmo. */
+  public setSymmetry(symmetry: SymmetrySettings) {
+    this.voxelScene.setSymmetry(symmetry);
+    this.updateSymmetryGizmo();
+  }
+
+  private updateSymmetryGizmo() {
+    this.symmetryGizmo.children.forEach(child => {
+      const obj = child as THREE.Mesh | THREE.LineSegments;
+      obj.geometry.dispose();
+      (obj.material as THREE.Material).dispose();
+    });
+    this.symmetryGizmo.clear();
+
+    const { axes, origin, radial } = this.voxelScene.symmetrySettings;
+    const size = CONFIG.SYMMETRY_GIZMO_SIZE;
+    const planeColors = { x: 0xef4444, y: 0x22c55e, z: 0x3b82f6 };
+    (['x', 'y', 'z'] as const).forEach(axis => {
+      if (!axes[axis]) return;
+      const plane = new THREE.Mesh(new THREE.PlaneGeometry(size, size), new THREE.MeshBasicMaterial({
+          color: planeColors[axis], transparent: true, opacity: 0.12, side: THREE.DoubleSide, depthWrite: false
+      }));
+      // PlaneGeometry faces +Z; turn it to face the mirrored axis
+      if (axis === 'x') plane.rotation.y = Math.PI / 2;
+      if (axis === 'y') plane.rotation.x = Math.PI / 2;
+      plane.position.set(origin.x, origin.y, origin.z);
+      this.symmetryGizmo.add(plane);
+    });
+
+    if (radial > 1) {
+      const points: THREE.Vector3[] = [
+          new THREE.Vector3(origin.x, CONFIG.FLOOR_Y, origin.z), new THREE.Vector3(origin.x, CONFIG.FLOOR_Y + size, origin.z)
+      ];
+      for (let k = 0; k < radial; k++) {
+        const angle = (2 * Math.PI * k) / radial;
+        points.push(
+            new THREE.Vector3(origin.x, origin.y, origin.z),
+            new THREE.Vector3(origin.x + Math.cos(angle) * size / 2, origin.y, origin.z + Math.sin(angle) * size / 2)
+        );
+      }
+      this.symmetryGizmo.add(new THREE.LineSegments(
+          new THREE.BufferGeometry().setFromPoints(points),
+          new THREE.LineBasicMaterial({ color: 0xa855f7, transparent: true, opacity: 0.6 })
+      ));
+    }
+    this.symmetryGizmo.visible = this.voxelScene.mode === AppMode.BUILD && this.symmetryGizmo.children.length > 0;
+  }
+
+  /**
+   * Clips voxels past the slice level from the render and from picking, so
+   * interior layers can be edited one at a time. Null shows the whole model.
+   */
+  public setSlice(slice: SliceSettings | null) {
+      this.slice = slice;
+      if (!slice) {
+          this.renderLayer.setClippingPlanes([]);
+      } else {
+          const normal = new THREE.Vector3();
+          normal[slice.axis] = slice.keep === 'below' ? -1 : 1;
+          // Cut on the cell boundary past the level so the kept edge layer shows whole
+          const constant = slice.keep === 'below' ? slice.level + 0.5 : -(slice.level - 0.5);
+          this.renderLayer.setClippingPlanes([new THREE.Plane(normal, constant)]);
+      }
+      this.ghostCellsKey = '';
+  }
+
+  /** Makes removals that leave voxels without a path to the floor drop them (BUILD mode only). */
+  public setStructuralGravity(enabled: boolean) {
+      this.voxelScene.setStructuralGravity(enabled);
+  }
+
+  /** Moves the placement surface to the bottom of a cell layer, so clicks on it build in mid-air. Null restores the floor. */
+  public setWorkPlane(layer: number | null) {
+      this.workPlaneLayer = layer;
+      if (layer !== null) this.workPlane.position.y = layer - 0.5;
+      this.workPlane.visible = layer !== null && this.voxelScene.mode === AppMode.BUILD;
+      this.ghostCellsKey = '';
+  }
+
+  private isSliced(v: GridPoint): boolean {
+      if (!this.slice) return false;
+      const { axis, level, keep } = this.slice;
+      const c = Math.round(v[axis]);
+      return keep === 'below' ? c > level : c < level;
+  }
+
+  /** Nearest hit under the pointer on an unsliced voxel or the placement surface (work plane, else floor). */
+  private intersectScene(): THREE.Intersection | null {
+      const surface = this.workPlaneLayer !== null ? this.workPlane : this.scene.getObjectByName("FLOOR")!;
+      const hits = this.raycaster.intersectObjects([...this.renderLayer.meshes, surface], false);
+      return hits.find(hit => {
+          if (hit.object === surface) return true;
+          const voxel = this.renderLayer.voxelAt(hit.object, hit.instanceId!);
+          return !!voxel && !this.isSliced(voxel);
+      }) ?? null;
   }
 
   private onMouseMove(event: MouseEvent) {
-      if (this.mode !== AppMode.BUILD) return;
+      if (this.voxelScene.mode !== AppMode.BUILD) return;
       this.mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
       this.mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
       this.raycaster.setFromCamera(this.mouse, this.camera);
 
-      if (this.isSelecting && this.selectionStartPoint) {
-          const floor = this.scene.getObjectByName("FLOOR")!;
-          const intersects = this.raycaster.intersectObject(floor);
-          if (intersects.length > 0) {
-              const currentPoint = intersects[0].point;
-              this.updateSelectionBox(this.selectionStartPoint, currentPoint);
-          }
+      if (this.isSelecting) {
+          this.updateSelectionDrag(event);
           return;
       }
-
-      const interactiveObjects = Array.from(this.meshes.values());
-      const floor = this.scene.getObjectByName("FLOOR")!;
-      const intersects = this.raycaster.intersectObjects([...interactiveObjects, floor]);
+      if (this.booleanPreview) return;
 
       this.ghostVoxel.visible = false;
       this.targetHighlightGroup.visible = false;
 
-      if (intersects.length > 0) {
-          const intersect = intersects[0];
+      if (this.isPasting) {
+          const anchor = this.pickTarget()?.cell;
+          const key = anchor ? `${anchor.x},${anchor.y},${anchor.z}` : '';
+          if (key === this.ghostCellsKey) return;
+          this.ghostCellsKey = key;
+          this.updatePasteGhost();
+          return;
+      }
+
+      if (this.voxelScene.tool === 'shape') {
+          const cell = this.pickShapeCell();
+          const key = cell ? `${cell.x},${cell.y},${cell.z}|${this.voxelScene.pendingShapeAnchors.length}` : '';
+          // Rasterizing large shapes is not free, so only redo it when the target cell changes
+          if (key === this.ghostCellsKey) return;
+          this.ghostCellsKey = key;
+          if (cell) this.showGhostCells(this.voxelScene.previewShape(cell));
+          else this.ghostCells.visible = false;
+          return;
+      }
+
+      const tool = this.voxelScene.tool;
+      if (tool === 'extrude') {
+          this.updatePushPullPreview();
+          return;
+      }
+      if (BRUSH_TOOLS.has(tool)) {
+          const target = this.isStroking ? this.pickStrokeTarget() : this.pickTarget();
+          if (this.isStroking && target) this.applyStroke(target);
+          // Ghost shows the brush footprint: cells to fill for the pencil, voxels hit by eraser and spray
+          this.showGhostCells(target ? this.voxelScene.brushFootprint(target) : []);
+          return;
+      }
+
+      const interactiveObjects = this.renderLayer.meshes;
+      const intersect = this.intersectScene();
+
+      if (intersect) {
           const isVoxel = interactiveObjects.includes(intersect.object as any);
-          if (this.buildTool === 'pencil') {
+          const preview = this.voxelScene.getTool(tool)?.preview;
+          if (preview === 'cell') {
               const pos = intersect.point.clone().add(intersect.face!.normal.clone().multiplyScalar(0.5));
               this.ghostVoxel.visible = true;
               this.ghostVoxel.position.set(Math.round(pos.x), Math.round(pos.y), Math.round(pos.z));
-          } else if ((this.buildTool === 'eraser' || this.buildTool === 'picker' || this.buildTool === 'paintBucket') && isVoxel) {
+          } else if ((tool === 'picker' || tool === 'paintBucket' || preview === 'voxel' ||
+                      (tool === 'select' && !DRAG_SELECTION_MODES.has(this.voxelScene.selectMode))) && isVoxel) {
               this.updateHighlight(intersect.object as THREE.InstancedMesh, intersect.instanceId!, 0xffffff);
           }
       }
   }
 
+  /** The box is dragged out on the bottom face of its lowest layer and spans the whole Y range. */
   private updateSelectionBox(start: THREE.Vector3, end: THREE.Vector3) {
+      const { min, max } = this.selectionYRange;
       this.selectionMesh.visible = true;
-      const center = new THREE.Vector3().addVectors(start, end).multiplyScalar(0.5);
-      const size = new THREE.Vector3(
+      this.selectionMesh.position.set((start.x + end.x) / 2, (min + max) / 2, (start.z + end.z) / 2);
+      this.selectionMesh.scale.set(
           Math.abs(start.x - end.x) || 0.1,
-          10, // Height is fixed for floor-based dragging or can be relative
+          max - min + 1,
           Math.abs(start.z - end.z) || 0.1
       );
-      this.selectionMesh.position.copy(center);
-      this.selectionMesh.scale.copy(size);
   }
 
-  private onMouseDown(event: MouseEvent) {
-      Sound.resume(); // Ensure context is running on user interaction
-      
-      if (this.mode !== AppMode.BUILD || this.state !== AppState.STABLE) return;
-      if (event.button !== 0) return;
+  private selectionBasePlane(): THREE.Plane {
+      return new THREE.Plane(new THREE.Vector3(0, 1, 0), -(this.selectionYRange.min - 0.5));
+  }
 
-      if (this.buildTool === 'select') {
-          const floor = this.scene.getObjectByName("FLOOR")!;
-          const intersects = this.raycaster.intersectObject(floor);
-          if (intersects.length > 0) {
-              this.selectionStartPoint = intersects[0].point.clone();
-              this.isSelecting = true;
-              this.isAddingSelection = event.shiftKey; // Check for shift key
-              this.controls.enabled = false;
-              
-              if (!this.isAddingSelection) {
-                this.clearSelection();
-              }
-          }
+  private beginSelection(event: MouseEvent) {
+      const mode = this.voxelScene.selectMode;
+      const op = selectionOp(event);
+      this.raycaster.setFromCamera(this.mouse, this.camera);
+      if (!DRAG_SELECTION_MODES.has(mode)) {
+          if (this.voxelScene.pickSelection(this.pickTarget()?.voxel, op)) Sound.play('ui');
           return;
       }
 
-      this.raycaster.setFromCamera(this.mouse, this.camera);
-      const interactiveObjects = Array.from(this.meshes.values());
-      const intersects = this.raycaster.intersectObjects([...interactiveObjects, this.scene.getObjectByName("FLOOR")!]);
-
-      if (intersects.length > 0) {
-          const intersect = intersects[0];
-          const isVoxel = interactiveObjects.includes(intersect.object as any);
-          if (this.buildTool === 'pencil') {
-              const pos = intersect.point.clone().add(intersect.face!.normal.clone().multiplyScalar(0.5));
-              this.addVoxel(Math.round(pos.x), Math.round(pos.y), Math.round(pos.z), this.selectedColor, this.selectedMaterial);
-          } else if (this.buildTool === 'eraser' && isVoxel) {
-              this.removeVoxel(intersect.instanceId!, Number(intersect.object.name));
-          } else if (this.buildTool === 'picker' && isVoxel) {
-              const meshVoxels = this.voxels.filter(v => v.material === Number(intersect.object.name));
-              const v = meshVoxels[intersect.instanceId!];
-              this.onColorPick(v.color.getHex(), v.material);
-              Sound.play('ui');
-          } else if (this.buildTool === 'paintBucket' && isVoxel) {
-              const meshVoxels = this.voxels.filter(v => v.material === Number(intersect.object.name));
-              const v = meshVoxels[intersect.instanceId!];
-              this.paintFill(v.x, v.y, v.z, this.selectedColor, this.selectedMaterial);
-          }
+      if (mode === 'box') {
+          const point = new THREE.Vector3();
+          if (!this.raycaster.ray.intersectPlane(this.selectionBasePlane(), point)) return;
+          this.selectionStartPoint = point;
+      } else {
+          this.selectionPath = [{ x: event.clientX, y: event.clientY }];
       }
+      this.isSelecting = true;
+      this.controls.enabled = false;
+      this.voxelScene.beginSelectionDrag(op);
+      if (mode === 'paint') this.paintSelection();
   }
 
-  private performFloodFill(sx: number, sy: number, sz: number, fillHex: number, fillMat: VoxelMaterial, voxelMap: Map<string, SimulationVoxel>): number {
-      const startVoxel = voxelMap.get(`${sx},${sy},${sz}`);
-      if (!startVoxel) return 0;
-      
-      const targetHex = startVoxel.color.getHex();
-      const targetMat = startVoxel.material;
-      
-      if (targetHex === fillHex && targetMat === fillMat) return 0;
-      
-      const queue: [number, number, number][] = [[sx, sy, sz]];
-      const visited = new Set<string>();
-      visited.add(`${sx},${sy},${sz}`);
-      
-      let affected = 0;
-      
-      while(queue.length > 0) {
-          const [cx, cy, cz] = queue.shift()!;
-          const key = `${cx},${cy},${cz}`;
-          const v = voxelMap.get(key);
-          
-          if (v && v.color.getHex() === targetHex && v.material === targetMat) {
-              v.color.setHex(fillHex);
-              v.material = fillMat;
-              affected++;
-              
-              const neighbors = [
-                  [cx + 1, cy, cz], [cx - 1, cy, cz],
-                  [cx, cy + 1, cz], [cx, cy - 1, cz],
-                  [cx, cy, cz + 1], [cx, cy, cz - 1]
-              ];
-              
-              for(const [nx, ny, nz] of neighbors) {
-                  const nKey = `${nx},${ny},${nz}`;
-                  if (!visited.has(nKey) && voxelMap.has(nKey)) {
-                      const nVoxel = voxelMap.get(nKey);
-                      if (nVoxel && nVoxel.color.getHex() === targetHex && nVoxel.material === targetMat) {
-                        visited.add(nKey);
-                        queue.push([nx, ny, nz]);
-                      }
-                  }
+  private updateSelectionDrag(event: MouseEvent) {
+      const point = { x: event.clientX, y: event.clientY };
+      switch (this.voxelScene.selectMode) {
+          case 'box': {
+              const current = new THREE.Vector3();
+              if (this.selectionStartPoint && this.raycaster.ray.intersectPlane(this.selectionBasePlane(), current)) {
+                  this.updateSelectionBox(this.selectionStartPoint, current);
               }
+              break;
+          }
+          case 'paint':
+              this.paintSelection();
+              break;
+          case 'marquee':
+              this.selectionPath = [this.selectionPath[0], point];
+              this.drawSelectionPath();
+              break;
+          case 'lasso': {
+              // Skip points closer than a few pixels to keep the polygon small
+              const last = this.selectionPath[this.selectionPath.length - 1];
+              if (Math.hypot(point.x - last.x, point.y - last.y) < 4) return;
+              this.selectionPath.push(point);
+              this.drawSelectionPath();
+              break;
           }
       }
-      return affected;
   }
 
-  private paintFill(startX: number, startY: number, startZ: number, fillHex: number, fillMat: VoxelMaterial) {
-    this.pushHistory();
-
-    const voxelMap = new Map<string, SimulationVoxel>();
-    this.voxels.forEach(v => voxelMap.set(`${v.x},${v.y},${v.z}`, v));
-
-    let affected = this.performFloodFill(startX, startY, startZ, fillHex, fillMat, voxelMap);
-
-    if (this.isMirrorMode && startX !== 0) {
-       affected += this.performFloodFill(-startX, startY, startZ, fillHex, fillMat, voxelMap);
-    }
-
-    if (affected > 0) {
-      this.rebuildInstanceMeshes();
-      Sound.play('paint');
-    } else {
-      this.undoStack.pop();
-      this.notifyHistory();
-    }
+  /** Adds the voxels under the brush to a paint selection. */
+  private paintSelection() {
+      const target = this.pickTarget();
+      if (target?.voxel) this.voxelScene.paintSelection(target.voxel, target.normal);
   }
 
-  private onMouseUp() {
-      if (this.isSelecting) {
-          this.isSelecting = false;
-          this.selectionMesh.visible = false;
-          this.controls.enabled = true;
-          this.finishSelection();
+  private drawSelectionPath() {
+      const ctx = this.selectionCanvas.getContext('2d')!;
+      ctx.clearRect(0, 0, this.selectionCanvas.width, this.selectionCanvas.height);
+      const path = this.selectionPath;
+      if (path.length < 2) return;
+
+      ctx.beginPath();
+      if (this.voxelScene.selectMode === 'marquee') {
+          ctx.rect(path[0].x, path[0].y, path[1].x - path[0].x, path[1].y - path[0].y);
+      } else {
+          ctx.moveTo(path[0].x, path[0].y);
+          path.forEach(p => ctx.lineTo(p.x, p.y));
+          ctx.closePath();
       }
+      ctx.fillStyle = 'rgba(79, 70, 229, 0.12)';
+      ctx.fill();
+      ctx.setLineDash([6, 4]);
+      ctx.lineWidth = 1.5;
+      ctx.strokeStyle = '#4f46e5';
+      ctx.stroke();
   }
 
-  private finishSelection() {
-      const box = new THREE.Box3().setFromObject(this.selectionMesh);
-      const prevIds = new Set(this.selectedVoxelIds);
-      
-      // If NOT adding (normal drag), we already cleared selection in onMouseDown
-      // But we tracked it in prevIds before onMouseDown if we were clever, 
-      // but actually onMouseDown cleared it. 
-      // To properly undo "Clear + Select New", we would need to know what was cleared.
-      // However, simplified logic: `selectedVoxelIds` currently contains what we want IF isAddingSelection is true.
-      // If isAddingSelection is false, selectedVoxelIds is empty.
-      
-      this.voxels.forEach(v => {
-          if (box.containsPoint(new THREE.Vector3(v.x, v.y, v.z))) {
-              this.selectedVoxelIds.add(v.id);
-          }
+  /** Voxels whose projected centers fall inside the lasso or marquee. */
+  private voxelsInSelectionPath(): SimulationVoxel[] {
+      const path = this.selectionPath;
+      if (path.length < 2) return [];
+      const marquee = this.voxelScene.selectMode === 'marquee';
+      const left = Math.min(path[0].x, path[1].x), right = Math.max(path[0].x, path[1].x);
+      const top = Math.min(path[0].y, path[1].y), bottom = Math.max(path[0].y, path[1].y);
+
+      const projected = new THREE.Vector3();
+      const picked = this.voxelScene.voxels.filter(v => {
+          if (this.isSliced(v)) return false;
+          projected.set(v.x, v.y, v.z).project(this.camera);
+          // Behind the camera
+          if (projected.z > 1) return false;
+          const x = (projected.x + 1) / 2 * window.innerWidth;
+          const y = (1 - projected.y) / 2 * window.innerHeight;
+          return marquee ? x >= left && x <= right && y >= top && y <= bottom : pointInPolygon(x, y, path);
       });
+      return this.selectVisibleOnly ? this.voxelScene.visibleFrom(picked, this.camera.position) : picked;
+  }
+
+  private onMouseDown(event: MouseEvent) {
+      Sound.resume(); // Ensure context is running on user interaction
       
-      // Only push history if selection actually changed
-      let changed = false;
-      if (this.selectedVoxelIds.size !== prevIds.size) changed = true;
-      else {
-          for (const id of this.selectedVoxelIds) if (!prevIds.has(id)) changed = true;
+      if (this.voxelScene.mode === AppMode.VIEW && this.demolishTool && event.button === 0 && event.target === this.renderer.domElement) {
+          this.demolishPress = { x: event.clientX, y: event.clientY };
+          return;
       }
-      
-      if (changed) {
-          this.pushSelectionHistory({
-              type: 'SELECTION',
-              prev: prevIds,
-              next: new Set(this.selectedVoxelIds)
-          });
+      if (this.voxelScene.mode !== AppMode.BUILD || this.voxelScene.state !== AppState.STABLE) return;
+      if (event.button !== 0) return;
+      // Clicks on overlay panels (e.g. stamp options) must not reach the scene
+      if (event.target !== this.renderer.domElement) return;
+      if (this.booleanPreview) return;
+
+      if (this.isPasting) {
+          this.raycaster.setFromCamera(this.mouse, this.camera);
+          const anchor = this.pickTarget()?.cell;
+          if (!anchor) return;
+          // A blocked paste stays in placement mode so it can be moved elsewhere
+          const placed = this.stampVoxels ? this.voxelScene.stamp(anchor, this.stampVoxels) : this.voxelScene.paste(anchor);
+          if (!placed) { Sound.play('error'); return; }
+          Sound.play('place');
+          if (!this.stampVoxels) this.cancelPaste();
+          return;
       }
 
-      this.onSelectionChange?.(this.selectedVoxelIds.size);
-      this.rebuildInstanceMeshes();
-      if (this.selectedVoxelIds.size > 0) Sound.play('ui');
-  }
-
-  private rebuildInstanceMeshes() {
-      this.createVoxels(this.getVoxelData());
-  }
+      if (this.isPickingPivot) {
+          this.isPickingPivot = false;
+          this.raycaster.setFromCamera(this.mouse, this.camera);
+          const target = this.pickTarget();
+          if (target) {
+              this.voxelScene.setTransformPivot(target.voxel ?? target.cell);
+              Sound.play('ui');
+          }
+          return;
+      }
 
-  private createVoxels(data: VoxelData[]) {
-    this.meshes.forEach(m => { this.scene.remove(m); m.geometry.dispose(); (m.material as THREE.Material).dispose(); });
-    this.meshes.clear();
+      const tool = this.voxelScene.tool;
+      if (tool === 'select') {
+          this.beginSelection(event);
+          return;
+      }
 
-    if (this.persistentSelectionOutline) {
-        this.scene.remove(this.persistentSelectionOutline);
-        this.persistentSelectionOutline.geometry.dispose();
-        (this.persistentSelectionOutline.material as THREE.Material).dispose();
-        this.persistentSelectionOutline = null;
-    }
+      this.raycaster.setFromCamera(this.mouse, this.camera);
+      if (BRUSH_TOOLS.has(tool)) {
+          this.beginStroke();
+          return;
+      }
+      if (tool === 'extrude') {
+          this.beginPushPull();
+          return;
+      }
 
-    const groups = new Map<VoxelMaterial, SimulationVoxel[]>();
-    this.voxels.forEach(v => {
-        if (!groups.has(v.material)) groups.set(v.material, []);
-        groups.get(v.material)!.push(v);
-    });
+      const shapeCell = tool === 'shape' ? this.pickShapeCell() : null;
+      const target = tool === 'shape' ? (shapeCell && { cell: shapeCell }) : this.pickTarget();
+      if (!target) return;
 
-    const geometry = new THREE.BoxGeometry(this.voxelSize - 0.05, this.voxelSize - 0.05, this.voxelSize - 0.05);
-    groups.forEach((voxels, type) => {
-        const material = this.getMaterialByType(type);
-        const mesh = new THREE.InstancedMesh(geometry, material, voxels.length);
-        mesh.castShadow = true; mesh.receiveShadow = true; mesh.name = type.toString();
-        this.scene.add(mesh);
-        this.meshes.set(type, mesh);
-    });
+      const applied = this.voxelScene.applyTool(target);
+      if (tool === 'shape') {
+          this.hideGhostCells();
+          // Intermediate clicks only place anchors
+          if (!applied) Sound.play('error');
+          else Sound.play(this.voxelScene.pendingShapeAnchors.length > 0 ? 'ui' : 'place');
+      } else if (applied) {
+          Sound.play(TOOL_SOUNDS[tool] ?? 'place');
+      }
+  }
 
-    // Create persistent selection outline mesh (Wireframe overlay for all selected)
-    if (this.voxels.length > 0) {
-        const outlineGeo = new THREE.BoxGeometry(this.voxelSize + 0.02, this.voxelSize + 0.02, this.voxelSize + 0.02);
-        const outlineMat = new THREE.MeshBasicMaterial({ 
-            color: 0x4f46e5, 
-            wireframe: true, 
-            transparent: true, 
-            opacity: 0.6, 
-            depthWrite: false 
-        });
-        this.persistentSelectionOutline = new THREE.InstancedMesh(outlineGeo, outlineMat, this.voxels.length);
-        this.persistentSelectionOutline.visible = true;
-        this.scene.add(this.persistentSelectionOutline);
-    }
+  /** Resolves the voxel and empty cell under the pointer for a click tool. */
+  private pickTarget(): ToolTarget | null {
+      const interactiveObjects = this.renderLayer.meshes;
+      const intersect = this.intersectScene();
+      if (!intersect) return null;
+
+      const isVoxel = interactiveObjects.includes(intersect.object as any);
+      const pos = intersect.point.clone().add(intersect.face!.normal.clone().multiplyScalar(0.5));
+      const normal = intersect.face!.normal.clone().transformDirection(intersect.object.matrixWorld);
+      return {
+          voxel: isVoxel ? this.renderLayer.voxelAt(intersect.object, intersect.instanceId!) : undefined,
+          cell: { x: Math.round(pos.x), y: Math.round(pos.y), z: Math.round(pos.z) },
+          normal: { x: Math.round(normal.x), y: Math.round(normal.y), z: Math.round(normal.z) }
+      };
+  }
 
-    this.draw();
+  private beginStroke() {
+      const target = this.pickTarget();
+      if (!target || !this.voxelScene.beginStroke()) return;
+      this.isStroking = true;
+      this.controls.enabled = false;
+      this.lastStrokeKey = '';
+      // The pencil stays on the layer it started on instead of climbing the voxels it just placed
+      if (this.voxelScene.tool === 'pencil' && target.normal) {
+          const { cell, normal } = target;
+          this.strokePlane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+              new THREE.Vector3(normal.x, normal.y, normal.z), new THREE.Vector3(cell.x, cell.y, cell.z));
+      }
+      this.applyStroke(target);
   }
 
-  private draw() {
-    const groups = new Map<VoxelMaterial, SimulationVoxel[]>();
-    this.voxels.forEach(v => {
-        if (!groups.has(v.material)) groups.set(v.material, []);
-        groups.get(v.material)!.push(v);
-    });
+  /** Stroke target under the pointer; pencil strokes are picked on their layer plane. */
+  private pickStrokeTarget(): ToolTarget | null {
+      if (!this.strokePlane) return this.pickTarget();
+      const point = new THREE.Vector3();
+      if (!this.raycaster.ray.intersectPlane(this.strokePlane, point)) return null;
+      const n = this.strokePlane.normal;
+      return {
+          cell: { x: Math.round(point.x), y: Math.round(point.y), z: Math.round(point.z) },
+          normal: { x: Math.round(n.x), y: Math.round(n.y), z: Math.round(n.z) }
+      };
+  }
 
-    // Animate selection outline opacity if it exists
-    if (this.persistentSelectionOutline) {
-        const opacityPulse = 0.5 + Math.sin(Date.now() * 0.005) * 0.3;
-        (this.persistentSelectionOutline.material as THREE.MeshBasicMaterial).opacity = opacityPulse;
-    }
+  /** Stamps the brush once per visited cell. */
+  private applyStroke(target: ToolTarget) {
+      const tool = this.voxelScene.tool;
+      const center = tool === 'pencil' ? target.cell : target.voxel;
+      if (!center) return;
+      const key = `${center.x},${center.y},${center.z}`;
+      if (key === this.lastStrokeKey) return;
+      this.lastStrokeKey = key;
+      if (!this.voxelScene.applyTool(target)) return;
+      // Throttled, so a fast drag does not turn into a buzz
+      const now = Date.now();
+      if (now - this.lastStrokeSound > 80) {
+          Sound.play(TOOL_SOUNDS[tool] ?? 'place');
+          this.lastStrokeSound = now;
+      }
+  }
 
-    groups.forEach((voxels, type) => {
-        const mesh = this.meshes.get(type);
-        if (!mesh) return;
-        voxels.forEach((v, i) => {
-            this.dummy.position.set(v.x, v.y, v.z);
-            this.dummy.rotation.set(v.rx, v.ry, v.rz);
-            this.dummy.scale.set(1, 1, 1);
-            this.dummy.updateMatrix();
-            mesh.setMatrixAt(i, this.dummy.matrix);
-            
-            // Highlight selected voxels by color
-            const isSelected = this.selectedVoxelIds.has(v.id);
-            if (isSelected) {
-                mesh.setColorAt(i, new THREE.Color(0xfacc15)); // Gold
-            } else {
-                mesh.setColorAt(i, v.color);
-            }
-        });
-        mesh.instanceMatrix.needsUpdate = true;
-        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
-    });
+  /** Grabs the face region under the pointer for a push/pull drag. */
+  private beginPushPull() {
+      const target = this.pickTarget();
+      if (!target?.voxel || !target.normal) return;
+      const { voxel, normal } = target;
+      const region = this.voxelScene.faceRegion(voxel, normal);
+      if (region.length === 0) return;
+      const origin = new THREE.Vector3(voxel.x + normal.x * 0.5, voxel.y + normal.y * 0.5, voxel.z + normal.z * 0.5);
+      this.pushPullDrag = { region, normal, origin, distance: 0 };
+      this.controls.enabled = false;
+      this.hideGhostCells();
+      Sound.play('ui');
+  }
 
-    // Draw the persistent wireframe overlay
-    if (this.persistentSelectionOutline) {
-        this.voxels.forEach((v, i) => {
-            const isSelected = this.selectedVoxelIds.has(v.id);
-            this.dummy.position.set(v.x, v.y, v.z);
-            this.dummy.rotation.set(v.rx, v.ry, v.rz);
-            
-            if (isSelected) {
-                // Pulse size slightly for visual flair
-                const pulse = 1.05 + Math.sin(Date.now() * 0.008) * 0.05;
-                this.dummy.scale.set(pulse, pulse, pulse);
-            } else {
-                // Effectively hide non-selected ones
-                this.dummy.scale.set(0, 0, 0);
-            }
-            
-            this.dummy.updateMatrix();
-            this.persistentSelectionOutline!.setMatrixAt(i, this.dummy.matrix);
-        });
-        this.persistentSelectionOutline.instanceMatrix.needsUpdate = true;
-    }
+  /**
+   * Whole steps along the face normal to the point of the axis closest to the
+   * pointer ray, so the face follows the cursor from any camera angle.
+   */
+  private pushPullDistance(): number {
+      const { origin, normal, distance } = this.pushPullDrag!;
+      const axis = new THREE.Vector3(normal.x, normal.y, normal.z);
+      const ray = this.raycaster.ray;
+      const w0 = new THREE.Vector3().subVectors(ray.origin, origin);
+      const b = ray.direction.dot(axis);
+      const denom = 1 - b * b;
+      // Looking straight down the axis gives no usable depth; keep the last distance
+      if (denom < 1e-6) return distance;
+      return Math.round((axis.dot(w0) - b * ray.direction.dot(w0)) / denom);
   }
 
-  private getMaterialByType(type: VoxelMaterial): THREE.Material {
-      switch (type) {
-          case VoxelMaterial.METAL: return new THREE.MeshStandardMaterial({ roughness: 0.15, metalness: 1.0 });
-          case VoxelMaterial.GLOW: return new THREE.MeshStandardMaterial({ roughness: 0.5, emissive: 0xffffff, emissiveIntensity: 1.5 });
-          default: return new THREE.MeshStandardMaterial({ roughness: 0.8, metalness: 0.1 });
+  /** Ghost preview of a push/pull: the dragged result, or the region that would be pulled when hovering. */
+  private updatePushPullPreview() {
+      const drag = this.pushPullDrag;
+      if (drag) {
+          const distance = this.pushPullDistance();
+          if (distance === drag.distance && this.ghostCellsKey) return;
+          drag.distance = distance;
+          this.ghostCellsKey = `drag|${distance}`;
+          this.showGhostCells(this.voxelScene.pushPullCells(drag.region, drag.normal, distance));
+          return;
       }
+
+      const target = this.pickTarget();
+      const key = target?.voxel && target.normal ? `${target.voxel.id}|${target.normal.x},${target.normal.y},${target.normal.z}` : '';
+      // Region search walks the whole face, so only redo it when the hovered face changes
+      if (key === this.ghostCellsKey) return;
+      this.ghostCellsKey = key;
+      if (!key) { this.ghostCells.visible = false; return; }
+      const region = this.voxelScene.faceRegion(target.voxel, target.normal);
+      this.showGhostCells(this.voxelScene.pushPullCells(region, target.normal, 1));
   }
 
-  // --- Boilerplate & History ---
+  private endPushPull() {
+      const { region, normal, distance } = this.pushPullDrag!;
+      this.pushPullDrag = null;
+      this.controls.enabled = true;
+      this.hideGhostCells();
+      if (this.voxelScene.pushPull(region, normal, distance)) Sound.play(distance > 0 ? 'place' : 'break');
+  }
 
-  private pushHistory() {
-    this.undoStack.push(this.getVoxelData());
-    if (this.undoStack.length > this.maxHistory) this.undoStack.shift();
-    this.redoStack = [];
-    this.notifyHistory();
+  private endStroke() {
+      this.isStroking = false;
+      this.strokePlane = null;
+      this.controls.enabled = true;
+      this.voxelScene.endStroke();
   }
 
-  private notifyHistory() { this.onHistoryChange?.(this.undoStack.length > 0, this.redoStack.length > 0); }
+  /**
+   * Next shape anchor under the pointer. The height click reads the pointer's level
+   * on a vertical plane through the second corner, facing the camera.
+   */
+  private pickShapeCell(): GridPoint | null {
+      if (!this.voxelScene.shapeNeedsHeight) return this.pickTarget()?.cell ?? null;
+      const corner = this.voxelScene.pendingShapeAnchors[1];
+      const origin = new THREE.Vector3(corner.x, corner.y, corner.z);
+      const normal = new THREE.Vector3().subVectors(this.camera.position, origin).setY(0);
+      if (normal.lengthSq() === 0) return null;
+      const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(normal.normalize(), origin);
+      const point = new THREE.Vector3();
+      if (!this.raycaster.ray.intersectPlane(plane, point)) return null;
+      return { x: corner.x, y: Math.max(Math.round(point.y), Math.round(CONFIG.FLOOR_Y + 0.5)), z: corner.z };
+  }
 
-  public undo() { 
-      if (this.undoStack.length === 0) return; 
-      this.redoStack.push(this.getVoxelData()); 
-      this.loadSnapshot(this.undoStack.pop()!); 
-      
-      // Clear selection history on global undo to prevent state mismatch
-      this.selectionUndoStack = [];
-      this.selectionRedoStack = [];
-      this.notifySelectionHistory();
-      
-      Sound.play('undo');
+  private onMouseUp(event: MouseEvent) {
+      if (this.demolishPress) {
+          const press = this.demolishPress;
+          this.demolishPress = null;
+          if (Math.hypot(event.clientX - press.x, event.clientY - press.y) < 5) this.demolish(event);
+      }
+      if (this.isStroking) this.endStroke();
+      if (this.pushPullDrag) this.endPushPull();
+      if (this.isSelecting) {
+          this.isSelecting = false;
+          this.controls.enabled = true;
+          this.finishSelection();
+      }
   }
-  public redo() { 
-      if (this.redoStack.length === 0) return; 
-      this.undoStack.push(this.getVoxelData()); 
-      this.loadSnapshot(this.redoStack.pop()!); 
-      
-      // Clear selection history on global redo
-      this.selectionUndoStack = [];
-      this.selectionRedoStack = [];
-      this.notifySelectionHistory();
 
-      Sound.play('redo');
+  private finishSelection() {
+      let picked: SimulationVoxel[] = [];
+      const mode = this.voxelScene.selectMode;
+      if (mode === 'box' && this.selectionMesh.visible) {
+          const box = new THREE.Box3().setFromObject(this.selectionMesh);
+          picked = this.voxelScene.voxelsInBox(box.min, box.max).filter(v => !this.isSliced(v));
+      } else if (mode === 'lasso' || mode === 'marquee') {
+          picked = this.voxelsInSelectionPath();
+      }
+      this.selectionMesh.visible = false;
+      this.selectionStartPoint = null;
+      this.selectionPath = [];
+      this.drawSelectionPath();
+      if (this.voxelScene.endSelectionDrag(picked.map(v => v.id)) > 0) Sound.play('ui');
   }
 
-  private loadSnapshot(data: VoxelData[]) {
-    this.voxels = data.map((v, i) => ({
-        id: i, // Reset IDs on global load
-        x: v.x, y: v.y, z: v.z, color: new THREE.Color(v.color), material: v.material ?? 0,
-        vx: 0, vy: 0, vz: 0, rx: 0, ry: 0, rz: 0, rvx: 0, rvy: 0, rvz: 0
-    }));
-    this.selectedVoxelIds.clear(); // Clear selection on global load
-    this.onSelectionChange?.(0);
-    this.rebuildInstanceMeshes();
-    this.onCountChange(this.voxels.length);
-    this.state = AppState.STABLE;
-    this.onStateChange(this.state);
-    this.notifyHistory();
+  private draw(simulating: boolean) {
+    // Physics and morphing move every voxel; in STABLE only edited instances are dirty
+    if (simulating) this.renderLayer.updateAll();
+    this.renderLayer.animateOutline(Date.now());
+    this.renderLayer.flush();
   }
 
+  // --- History ---
+
+  /** Captures a timeline thumbnail for the current history node once editing pauses. */
+  private scheduleThumbnail() {
+    window.clearTimeout(this.thumbnailTimer);
+    this.thumbnailTimer = window.setTimeout(() => {
+        const node = this.voxelScene.currentHistoryNode;
+        if (node.thumbnail || this.voxelScene.state !== AppState.STABLE) return;
+        resizeThumbnail(this.takeSnapshot(), 64)
+            .then(url => this.voxelScene.setHistoryThumbnail(node.id, url))
+            .catch(() => {});
+    }, CONFIG.THUMBNAIL_DELAY);
+  }
+
+  public undo() { if (this.voxelScene.undo()) Sound.play('undo'); }
+  public redo() { if (this.voxelScene.redo()) Sound.play('redo'); }
+  public jumpToHistory(id: number) { if (this.voxelScene.jumpToHistory(id)) Sound.play('ui'); }
+  public renameHistoryNode(id: number, name: string) { this.voxelScene.renameHistoryNode(id, name); }
+  public getHistoryTimeline(): HistoryTimelineEntry[] { return this.voxelScene.getHistoryTimeline(); }
+
   private updateHighlight(mesh: THREE.InstancedMesh, id: number, color: number) {
       this.targetHighlightGroup.visible = true;
       mesh.getMatrixAt(id, this.dummy.matrix);
@@ -826,138 +1150,95 @@ export class VoxelEngine {
       (this.targetHighlightWire.material as THREE.MeshBasicMaterial).color.set(color);
   }
 
-  private addVoxel(x: number, y: number, z: number, color: number, material: VoxelMaterial) {
-      if (this.voxels.length >= CONFIG.MAX_VOXELS) return;
-      if (this.voxels.some(v => v.x === x && v.y === y && v.z === z)) return;
-      this.pushHistory();
-      
-      const addOne = (vx: number, vy: number, vz: number) => {
-        if (this.voxels.some(v => v.x === vx && v.y === vy && v.z === vz)) return;
-        this.voxels.push({ 
-          id: Date.now() + Math.random(), 
-          x: vx, y: vy, z: vz, 
-          color: new THREE.Color(color), 
-          material, 
-          vx: 0, vy: 0, vz: 0, rx: 0, ry: 0, rz: 0, rvx: 0, rvy: 0, rvz: 0 
-        });
-      };
+  // --- Loading & Sessions ---
 
-      addOne(x, y, z);
-      if (this.isMirrorMode) {
-        addOne(-x, y, z);
-      }
+  public loadInitialModel(data: VoxelData[]) {
+    this.voxelScene.loadInitialModel(data);
+  }
 
-      this.rebuildInstanceMeshes();
-      this.onCountChange(this.voxels.length);
-      Sound.play('place');
+  /** Snapshot of the working session for the auto-save draft. */
+  public getSession(): SessionDraft {
+    const position = this.camera.position;
+    const target = this.controls.target;
+    return {
+      ...this.voxelScene.getSession(),
+      camera: { position: [position.x, position.y, position.z], target: [target.x, target.y, target.z] }
+    };
   }
 
-  private removeVoxel(instanceId: number, materialType: VoxelMaterial) {
-      this.pushHistory();
-      const meshVoxels = this.voxels.filter(v => v.material === materialType);
-      const target = meshVoxels[instanceId];
-      if (!target) return;
+  /** Restores a session saved by `getSession`, including its undo history. */
+  public restoreSession(session: SessionDraft) {
+    this.camera.position.set(...session.camera.position);
+    this.controls.target.set(...session.camera.target);
+    this.controls.update();
+    this.voxelScene.restoreSession(session);
+    this.setBuildProps(session.color, session.material);
+  }
 
-      const deleteAt = (vx: number, vy: number, vz: number) => {
-        const idx = this.voxels.findIndex(v => v.x === vx && v.y === vy && v.z === vz);
-        if (idx !== -1) {
-          this.voxels.splice(idx, 1);
-        }
-      };
+  // --- Simulation ---
 
-      const tx = target.x;
-      const ty = target.y;
-      const tz = target.z;
+  public dismantle() {
+    if (this.voxelScene.dismantle()) Sound.play('break');
+  }
 
-      deleteAt(tx, ty, tz);
-      if (this.isMirrorMode) {
-        deleteAt(-tx, ty, tz);
-      }
+  /** Arms a click effect for view mode; null returns clicks to the camera controls. */
+  public setDemolishTool(tool: DemolishTool | null) {
+    this.demolishTool = tool;
+    this.demolishPress = null;
+  }
 
-      this.rebuildInstanceMeshes();
-      this.onCountChange(this.voxels.length);
-      Sound.play('break');
+  /** Blasts the clicked point, or throws the wrecking ball from the camera toward it. */
+  private demolish(event: MouseEvent) {
+    this.mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
+    this.mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
+    this.raycaster.setFromCamera(this.mouse, this.camera);
+    const hit = this.raycaster.intersectObjects([...this.renderLayer.meshes, this.scene.getObjectByName("FLOOR")!], false)[0];
+    if (!hit) return;
+    if (this.demolishTool === 'wreck') {
+      // Starts just in front of the camera so it does not fill the view
+      const { origin, direction } = this.raycaster.ray;
+      const start = origin.clone().addScaledVector(direction, CONFIG.WRECKING_BALL_RADIUS * 3);
+      Sound.play(this.voxelScene.launchWreckingBall(start, hit.point) ? 'place' : 'error');
+    } else {
+      Sound.play(this.voxelScene.explode(hit.point) ? 'break' : 'error');
+    }
   }
 
-  public loadInitialModel(data: VoxelData[]) {
-    this.undoStack = []; this.redoStack = [];
-    this.voxels = data.map((v, i) => ({ id: i, x: v.x, y: v.y, z: v.z, color: new THREE.Color(v.color), material: v.material ?? 0, vx: 0, vy: 0, vz: 0, rx: 0, ry: 0, rz: 0, rvx: 0, rvy: 0, rvz: 0 }));
-    this.selectedVoxelIds.clear();
-    this.selectionUndoStack = []; this.selectionRedoStack = [];
-    this.rebuildInstanceMeshes();
-    this.onCountChange(this.voxels.length);
-    this.state = AppState.STABLE; this.onStateChange(this.state);
-    this.notifyHistory();
+  public setRebuildChoreography(choreography: RebuildChoreography) {
+    this.voxelScene.setChoreography(choreography);
   }
 
-  public dismantle() {
-    if (this.state !== AppState.STABLE || this.mode === AppMode.BUILD) return;
-    this.state = AppState.DISMANTLING;
-    this.onStateChange(this.state);
-    Sound.play('break');
-    this.voxels.forEach(v => { v.vx = (Math.random() - 0.5) * 0.9; v.vy = Math.random() * 0.7; v.vz = (Math.random() - 0.5) * 0.9; v.rvx = (Math.random() - 0.5) * 0.3; v.rvy = (Math.random() - 0.5) * 0.3; v.rvz = (Math.random() - 0.5) * 0.3; });
+  public setRebuildMatching(mode: RebuildMatching) {
+    this.voxelScene.setMatchMode(mode);
   }
 
   public rebuild(targetModel: VoxelData[]) {
-    if (this.state === AppState.REBUILDING || this.mode === AppMode.BUILD) return;
-    this.pushHistory();
-    const sourceVoxels = [...this.voxels];
-    const targetVoxels = [...targetModel];
-    if (sourceVoxels.length === 0) sourceVoxels.push({ id: -1, x: 0, y: CONFIG.FLOOR_Y + 5, z: 0, color: new THREE.Color(0xffffff), material: VoxelMaterial.MATTE, vx: 0, vy: 0, vz: 0, rx: 0, ry: 0, rz: 0, rvx: 0, rvy: 0, rvz: 0 });
-    while (sourceVoxels.length < targetVoxels.length) { const idx = Math.floor(Math.random() * sourceVoxels.length); sourceVoxels.push({ ...sourceVoxels[idx], id: Date.now() + Math.random() }); }
-    this.voxels = sourceVoxels;
-    this.rebuildInstanceMeshes();
-    const available = this.voxels.map((v, i) => ({ index: i, color: v.color, mat: v.material, taken: false }));
-    const mappings: RebuildTarget[] = new Array(this.voxels.length).fill(null);
-    targetVoxels.forEach(target => {
-        let bestScore = 9999; let bestIdx = -1;
-        for (let i = 0; i < available.length; i++) {
-            if (available[i].taken) continue;
-            const targetColor = new THREE.Color(target.color);
-            const score = Math.sqrt(Math.pow(available[i].color.r - targetColor.r, 2) + Math.pow(available[i].color.g - targetColor.g, 2) + Math.pow(available[i].color.b - targetColor.b, 2)) + (available[i].mat === target.material ? 0 : 0.4);
-            if (score < bestScore) { bestScore = score; bestIdx = i; }
-        }
-        if (bestIdx !== -1) { available[bestIdx].taken = true; const h = Math.max(0, (target.y - CONFIG.FLOOR_Y) / 15); mappings[available[bestIdx].index] = { x: target.x, y: target.y, z: target.z, material: target.material ?? VoxelMaterial.MATTE, delay: h * 600 }; }
-    });
-    for (let i = 0; i < this.voxels.length; i++) if (!mappings[i]) mappings[i] = { x: this.voxels[i].x, y: this.voxels[i].y, z: this.voxels[i].z, material: this.voxels[i].material, isRubble: true, delay: 0 };
-    this.rebuildTargets = mappings; this.rebuildStartTime = Date.now();
-    this.state = AppState.REBUILDING; this.onStateChange(this.state);
-    Sound.play('place');
-  }
-
-  private updatePhysics() {
-    if (this.state === AppState.DISMANTLING) {
-        this.voxels.forEach(v => {
-            v.vy -= CONFIG.GRAVITY; v.x += v.vx; v.y += v.vy; v.z += v.vz; v.rx += v.rvx; v.ry += v.rvy; v.rz += v.rvz;
-            if (v.y < CONFIG.FLOOR_Y + 0.5) { v.y = CONFIG.FLOOR_Y + 0.5; v.vy *= -0.55; v.vx *= CONFIG.DAMPING; v.vz *= CONFIG.DAMPING; }
-        });
-    } else if (this.state === AppState.REBUILDING) {
-        const elapsed = Date.now() - this.rebuildStartTime; let allDone = true;
-        this.voxels.forEach((v, i) => {
-            const t = this.rebuildTargets[i]; if (!t) return;
-            if (t.isRubble) { v.vy -= CONFIG.GRAVITY; v.y += v.vy; if (v.y < CONFIG.FLOOR_Y + 0.5) { v.y = CONFIG.FLOOR_Y + 0.5; v.vy = 0; } return; }
-            if (elapsed < t.delay) { allDone = false; return; }
-            v.x += (t.x - v.x) * CONFIG.MORPH_SPEED; v.y += (t.y - v.y) * CONFIG.MORPH_SPEED; v.z += (t.z - v.z) * CONFIG.MORPH_SPEED;
-            if (Math.abs(t.x - v.x) + Math.abs(t.y - v.y) + Math.abs(t.z - v.z) > 0.02) allDone = false;
-            else { v.x = t.x; v.y = t.y; v.z = t.z; v.rx = v.ry = v.rz = 0; }
-        });
-        if (allDone) { this.state = AppState.STABLE; this.onStateChange(this.state); this.onCountChange(this.voxels.length); Sound.play('success'); }
-    }
+    if (this.voxelScene.rebuild(targetModel)) Sound.play('place');
   }
 
   private animate() {
     this.animationId = requestAnimationFrame(this.animate);
     this.controls.update();
-    if (this.state !== AppState.STABLE) this.updatePhysics();
-    this.draw();
+    const state = this.voxelScene.state;
+    const simulating = state !== AppState.STABLE;
+    if (simulating) {
+        this.voxelScene.step(Date.now());
+        if (state === AppState.REBUILDING && this.voxelScene.state === AppState.STABLE) Sound.play('success');
+        if (state === AppState.COLLAPSING && this.voxelScene.state === AppState.STABLE) Sound.play('break');
+    }
+    const ball = this.voxelScene.wreckingBall;
+    this.wreckingBall.visible = !!ball;
+    if (ball) this.wreckingBall.position.set(ball.x, ball.y, ball.z);
+    this.draw(simulating);
     this.renderer.render(this.scene, this.camera);
   }
 
-  public handleResize() { this.camera.aspect = window.innerWidth / window.innerHeight; this.camera.updateProjectionMatrix(); this.renderer.setSize(window.innerWidth, window.innerHeight); }
+  public handleResize() { this.camera.aspect = window.innerWidth / window.innerHeight; this.camera.updateProjectionMatrix(); this.renderer.setSize(window.innerWidth, window.innerHeight); this.selectionCanvas.width = window.innerWidth; this.selectionCanvas.height = window.innerHeight; }
   public setAutoRotate(enabled: boolean) { this.controls.autoRotate = enabled; }
-  public getVoxelData(): VoxelData[] { return this.voxels.map(v => ({ x: +v.x.toFixed(2), y: +v.y.toFixed(2), z: +v.z.toFixed(2), color: v.color.getHex(), material: v.material })); }
-  public getJsonData(): string { return JSON.stringify(this.getVoxelData().map(v => ({ ...v, color: '#' + v.color.toString(16).padStart(6, '0') })), null, 2); }
-  public setBuildProps(hex: number, mat: VoxelMaterial) { this.selectedColor = hex; this.selectedMaterial = mat; (this.ghostVoxel.material as THREE.MeshStandardMaterial).color.setHex(hex); }
-  public setVoxelSize(size: number) { this.voxelSize = size; this.updateOverlayScales(); this.rebuildInstanceMeshes(); }
-  public cleanup() { cancelAnimationFrame(this.animationId); this.container.removeChild(this.renderer.domElement); this.renderer.dispose(); }
+  public getVoxelData(): VoxelData[] { return this.voxelScene.getVoxelData(); }
+  public getSelectionData(): VoxelData[] { return this.voxelScene.getSelectionData(); }
+  public getJsonData(): string { return this.voxelScene.getJsonData(); }
+  public setBuildProps(hex: number, mat: VoxelMaterial) { this.voxelScene.setBuildProps(hex, mat); (this.ghostVoxel.material as THREE.MeshStandardMaterial).color.setHex(hex); }
+  public setVoxelSize(size: number) { this.voxelSize = size; this.updateOverlayScales(); this.renderLayer.setVoxelSize(size); }
+  public cleanup() { cancelAnimationFrame(this.animationId); window.clearTimeout(this.thumbnailTimer); this.renderLayer.dispose(); this.ghostCells.dispose(); this.container.removeChild(this.renderer.domElement); this.container.removeChild(this.selectionCanvas); this.renderer.dispose(); }
 }
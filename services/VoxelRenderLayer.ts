@@ -0,0 +1,318 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { SimulationVoxel, VoxelMaterial } from '../types';
+
+const SELECTED_COLOR = new THREE.Color(0xfacc15); // Gold
+const INITIAL_CAPACITY = 256;
+
+/** Instanced buffer for one material, with its slot bookkeeping and pending upload range. */
+interface InstanceBuffer {
+  mesh: THREE.InstancedMesh;
+  voxels: SimulationVoxel[];
+  capacity: number;
+  /** Slots written since the last upload. */
+  dirty: Set<number>;
+}
+
+/**
+ * VoxelRenderLayer keeps one capacity-managed InstancedMesh per material (plus the
+ * selection outline) and only rewrites the instances that changed. Buffers grow by
+ * doubling and removals swap the last instance into the freed slot, so placing or
+ * erasing a voxel costs O(1) regardless of scene size.
+ */
+export class VoxelRenderLayer {
+  private scene: THREE.Scene;
+  private isSelected: (id: number) => boolean;
+  private geometry: THREE.BoxGeometry;
+  private outlineGeometry: THREE.BoxGeometry;
+  private outlineMaterial: THREE.MeshBasicMaterial;
+
+  private buffers = new Map<VoxelMaterial, InstanceBuffer>();
+  private outline: InstanceBuffer;
+  /** Voxel id -> buffer (material) it currently lives in and its slot there. */
+  private slots = new Map<number, { material: VoxelMaterial, slot: number }>();
+  private outlineSlots = new Map<number, number>();
+  /** Slice planes applied to every voxel material, including ones created later. */
+  private clippingPlanes: THREE.Plane[] = [];
+
+  private dummy = new THREE.Object3D();
+
+  constructor(scene: THREE.Scene, voxelSize: number, isSelected: (id: number) => boolean) {
+    this.scene = scene;
+    this.isSelected = isSelected;
+    this.geometry = this.createGeometry(voxelSize - 0.05);
+    this.outlineGeometry = this.createGeometry(voxelSize + 0.02);
+    this.outlineMaterial = new THREE.MeshBasicMaterial({
+        color: 0x4f46e5,
+        wireframe: true,
+        transparent: true,
+        opacity: 0.6,
+        depthWrite: false
+    });
+    this.outline = this.createBuffer(this.outlineGeometry, this.outlineMaterial, INITIAL_CAPACITY, false);
+  }
+
+  /** Meshes that can be hit by the raycaster. */
+  public get meshes(): THREE.InstancedMesh[] {
+    return Array.from(this.buffers.values()).map(b => b.mesh);
+  }
+
+  /** Resolves a raycast hit (mesh + instanceId) back to its voxel. */
+  public voxelAt(object: THREE.Object3D, instanceId: number): SimulationVoxel | undefined {
+    for (const buffer of this.buffers.values()) {
+      if (buffer.mesh === object) return buffer.voxels[instanceId];
+    }
+    return undefined;
+  }
+
+  /** Replaces every instance (model load, snapshot restore). */
+  public reset(voxels: SimulationVoxel[]) {
+    this.buffers.forEach(b => b.voxels = []);
+    this.buffers.forEach(b => { b.mesh.count = 0; });
+    this.outline.voxels = []; this.outline.mesh.count = 0;
+    this.slots.clear();
+    this.outlineSlots.clear();
+    voxels.forEach(v => this.add(v));
+  }
+
+  public add(v: SimulationVoxel) {
+    const buffer = this.getBuffer(v.material);
+    const slot = this.push(buffer, v);
+    this.slots.set(v.id, { material: v.material, slot });
+    this.write(buffer, slot);
+    this.syncOutline(v);
+  }
+
+  public remove(v: SimulationVoxel) {
+    const entry = this.slots.get(v.id);
+    if (!entry) return;
+    const buffer = this.buffers.get(entry.material)!;
+    this.swapRemove(buffer, entry.slot, (moved, slot) => this.slots.set(moved.id, { material: entry.material, slot }));
+    this.slots.delete(v.id);
+
+    const outlineSlot = this.outlineSlots.get(v.id);
+    if (outlineSlot !== undefined) {
+      this.swapRemove(this.outline, outlineSlot, (moved, slot) => this.outlineSlots.set(moved.id, slot));
+      this.outlineSlots.delete(v.id);
+    }
+  }
+
+  /** Re-uploads a voxel after its position, rotation, color, material or selection changed. */
+  public update(v: SimulationVoxel) {
+    const entry = this.slots.get(v.id);
+    if (!entry) return;
+    if (entry.material !== v.material) {
+      // Material switches move the instance to another buffer
+      this.remove(v);
+      this.add(v);
+      return;
+    }
+    this.write(this.buffers.get(entry.material)!, entry.slot);
+    this.syncOutline(v);
+  }
+
+  /** Rewrites every instance matrix; used while physics or morphing moves all voxels. */
+  public updateAll() {
+    this.buffers.forEach(buffer => {
+      for (let i = 0; i < buffer.voxels.length; i++) this.writeMatrix(buffer, i);
+    });
+    for (let i = 0; i < this.outline.voxels.length; i++) this.writeMatrix(this.outline, i);
+  }
+
+  /** Uploads pending instance ranges to the GPU. Does nothing when no instance changed. */
+  public flush() {
+    this.buffers.forEach(b => this.upload(b));
+    this.upload(this.outline);
+  }
+
+  /** Pulses the selection outline through its material, so no matrices are re-uploaded. */
+  public animateOutline(time: number) {
+    this.outlineMaterial.opacity = 0.5 + Math.sin(time * 0.005) * 0.3;
+  }
+
+  /** Clips voxels and their outline against the given planes; an empty list shows everything. */
+  public setClippingPlanes(planes: THREE.Plane[]) {
+    this.clippingPlanes = planes;
+    const apply = (material: THREE.Material) => {
+      material.clippingPlanes = planes;
+      // The plane count is compiled into the shader
+      material.needsUpdate = true;
+    };
+    this.buffers.forEach(b => apply(b.mesh.material as THREE.Material));
+    apply(this.outlineMaterial);
+  }
+
+  public setVoxelSize(size: number) {
+    this.geometry.dispose();
+    this.outlineGeometry.dispose();
+    this.geometry = this.createGeometry(size - 0.05);
+    this.outlineGeometry = this.createGeometry(size + 0.02);
+    this.buffers.forEach(b => b.mesh.geometry = this.geometry);
+    this.outline.mesh.geometry = this.outlineGeometry;
+  }
+
+  public dispose() {
+    this.buffers.forEach(b => { this.scene.remove(b.mesh); (b.mesh.material as THREE.Material).dispose(); b.mesh.dispose(); });
+    this.buffers.clear();
+    this.scene.remove(this.outline.mesh);
+    this.outline.mesh.dispose();
+    this.outlineMaterial.dispose();
+    this.geometry.dispose();
+    this.outlineGeometry.dispose();
+  }
+
+  // --- Buffer management ---
+
+  private createGeometry(size: number) {
+    return new THREE.BoxGeometry(size, size, size);
+  }
+
+  private getMaterialByType(type: VoxelMaterial): THREE.Material {
+      switch (type) {
+          case VoxelMaterial.METAL: return new THREE.MeshStandardMaterial({ roughness: 0.15, metalness: 1.0 });
+          case VoxelMaterial.GLOW: return new THREE.MeshStandardMaterial({ roughness: 0.5, emissive: 0xffffff, emissiveIntensity: 1.5 });
+          default: return new THREE.MeshStandardMaterial({ roughness: 0.8, metalness: 0.1 });
+      }
+  }
+
+  private getBuffer(type: VoxelMaterial): InstanceBuffer {
+    let buffer = this.buffers.get(type);
+    if (!buffer) {
+      const material = this.getMaterialByType(type);
+      material.clippingPlanes = this.clippingPlanes;
+      buffer = this.createBuffer(this.geometry, material, INITIAL_CAPACITY, true);
+      buffer.mesh.name = type.toString();
+      this.buffers.set(type, buffer);
+    }
+    return buffer;
+  }
+
+  private createBuffer(geometry: THREE.BufferGeometry, material: THREE.Material, capacity: number, isVoxelMesh: boolean): InstanceBuffer {
+    const mesh = this.createMesh(geometry, material, capacity, isVoxelMesh);
+    this.scene.add(mesh);
+    return { mesh, voxels: [], capacity, dirty: new Set() };
+  }
+
+  private createMesh(geometry: THREE.BufferGeometry, material: THREE.Material, capacity: number, isVoxelMesh: boolean): THREE.InstancedMesh {
+    const mesh = new THREE.InstancedMesh(geometry, material, capacity);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    if (isVoxelMesh) {
+      // The outline keeps its flat material color; only voxel meshes carry per-instance colors
+      mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3);
+      mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+    }
+    mesh.castShadow = isVoxelMesh; mesh.receiveShadow = isVoxelMesh;
+    mesh.frustumCulled = false; // Instances span the whole scene; bounds are never recomputed
+    mesh.count = 0;
+    return mesh;
+  }
+
+  /** Doubles a buffer's capacity, carrying over the existing instance data. */
+  private grow(buffer: InstanceBuffer) {
+    const old = buffer.mesh;
+    const capacity = buffer.capacity * 2;
+    const mesh = this.createMesh(old.geometry, old.material as THREE.Material, capacity, buffer !== this.outline);
+    mesh.name = old.name;
+    (mesh.instanceMatrix.array as Float32Array).set(old.instanceMatrix.array as Float32Array);
+    if (old.instanceColor) (mesh.instanceColor!.array as Float32Array).set(old.instanceColor.array as Float32Array);
+    mesh.count = old.count;
+    this.scene.remove(old);
+    old.dispose();
+    this.scene.add(mesh);
+    buffer.mesh = mesh;
+    buffer.capacity = capacity;
+    // A fresh attribute needs a full upload
+    for (let i = 0; i < buffer.voxels.length; i++) buffer.dirty.add(i);
+  }
+
+  private push(buffer: InstanceBuffer, v: SimulationVoxel): number {
+    if (buffer.voxels.length >= buffer.capacity) this.grow(buffer);
+    const slot = buffer.voxels.length;
+    buffer.voxels.push(v);
+    buffer.mesh.count = buffer.voxels.length;
+    return slot;
+  }
+
+  private swapRemove(buffer: InstanceBuffer, slot: number, onMoved: (moved: SimulationVoxel, slot: number) => void) {
+    const last = buffer.voxels.pop()!;
+    buffer.mesh.count = buffer.voxels.length;
+    if (slot < buffer.voxels.length) {
+      buffer.voxels[slot] = last;
+      onMoved(last, slot);
+      if (buffer === this.outline) this.writeMatrix(buffer, slot);
+      else this.write(buffer, slot);
+    }
+  }
+
+  private syncOutline(v: SimulationVoxel) {
+    const slot = this.outlineSlots.get(v.id);
+    if (this.isSelected(v.id)) {
+      if (slot === undefined) {
+        const added = this.push(this.outline, v);
+        this.outlineSlots.set(v.id, added);
+        this.writeMatrix(this.outline, added);
+      } else {
+        this.writeMatrix(this.outline, slot);
+      }
+    } else if (slot !== undefined) {
+      this.swapRemove(this.outline, slot, (moved, s) => this.outlineSlots.set(moved.id, s));
+      this.outlineSlots.delete(v.id);
+    }
+  }
+
+  // --- Instance writes ---
+
+  private write(buffer: InstanceBuffer, slot: number) {
+    this.writeMatrix(buffer, slot);
+    const v = buffer.voxels[slot];
+    buffer.mesh.setColorAt(slot, this.isSelected(v.id) ? SELECTED_COLOR : v.color);
+  }
+
+  private writeMatrix(buffer: InstanceBuffer, slot: number) {
+    const v = buffer.voxels[slot];
+    this.dummy.position.set(v.x, v.y, v.z);
+    this.dummy.rotation.set(v.rx, v.ry, v.rz);
+    const scale = (v.scale ?? 1) * (buffer === this.outline ? 1.05 : 1);
+    this.dummy.scale.set(scale, scale, scale);
+    this.dummy.updateMatrix();
+    buffer.mesh.setMatrixAt(slot, this.dummy.matrix);
+    buffer.dirty.add(slot);
+  }
+
+  private upload(buffer: InstanceBuffer) {
+    if (buffer.dirty.size === 0) return;
+    const { instanceMatrix, instanceColor } = buffer.mesh;
+    instanceMatrix.clearUpdateRanges();
+    instanceColor?.clearUpdateRanges();
+
+    const addRange = (start: number, count: number) => {
+      instanceMatrix.addUpdateRange(start * 16, count * 16);
+      instanceColor?.addUpdateRange(start * 3, count * 3);
+    };
+
+    if (buffer.dirty.size > buffer.voxels.length / 4) {
+      // Mostly dirty (physics, reloads): one contiguous upload is cheaper than many ranges
+      addRange(0, buffer.voxels.length);
+    } else {
+      // Coalesce individual slots into consecutive runs
+      const slots = Array.from(buffer.dirty).sort((a, b) => a - b);
+      let start = slots[0], prev = slots[0];
+      for (let i = 1; i <= slots.length; i++) {
+        if (i < slots.length && slots[i] === prev + 1) { prev = slots[i]; continue; }
+        addRange(start, prev - start + 1);
+        if (i < slots.length) start = prev = slots[i];
+      }
+    }
+
+    instanceMatrix.needsUpdate = true;
+    if (instanceColor) instanceColor.needsUpdate = true;
+    // Raycasting caches instance bounds; drop them so moved or new instances stay pickable
+    buffer.mesh.boundingSphere = null;
+    buffer.mesh.boundingBox = null;
+    buffer.dirty.clear();
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VoxelScene } from './VoxelScene';
+import { AppMode, AppState, VoxelData, VoxelMaterial } from '../types';
+import { CONFIG } from '../utils/voxelConstants';
+
+const RED = 0xff0000, BLUE = 0x0000ff, GREEN = 0x00ff00;
+
+/** A flat row of voxels along X at y = 0. */
+const row = (length: number, color = RED): VoxelData[] =>
+  Array.from({ length }, (_, x) => ({ x, y: 0, z: 0, color, material: VoxelMaterial.MATTE }));
+
+const cells = (scene: VoxelScene) => scene.voxels.map(v => `${v.x},${v.y},${v.z}`).sort();
+
+describe('VoxelScene', () => {
+  let scene: VoxelScene;
+
+  beforeEach(() => {
+    scene = new VoxelScene();
+    scene.loadInitialModel(row(3));
+    scene.setMode(AppMode.BUILD);
+  });
+
+  describe('add and erase', () => {
+    it('places a voxel with the pencil and undoes and redoes it', () => {
+      scene.setTool('pencil');
+      scene.setBuildProps(BLUE, VoxelMaterial.METAL);
+      expect(scene.applyTool({ cell: { x: 0, y: 1, z: 0 } })).toBe(true);
+      expect(scene.voxelAt(0, 1, 0)?.color.getHex()).toBe(BLUE);
+      expect(scene.voxelAt(0, 1, 0)?.material).toBe(VoxelMaterial.METAL);
+
+      expect(scene.undo()).toBe(true);
+      expect(scene.voxelAt(0, 1, 0)).toBeUndefined();
+      expect(scene.voxels).toHaveLength(3);
+
+      expect(scene.redo()).toBe(true);
+      expect(scene.voxelAt(0, 1, 0)?.color.getHex()).toBe(BLUE);
+    });
+
+    it('does not place into an occupied cell', () => {
+      scene.setTool('pencil');
+      expect(scene.applyTool({ cell: { x: 1, y: 0, z: 0 } })).toBe(false);
+      expect(scene.voxels).toHaveLength(3);
+    });
+
+    it('erases a voxel and restores it with its id on undo', () => {
+      const target = scene.voxelAt(2, 0, 0)!;
+      scene.setTool('eraser');
+      expect(scene.applyTool({ voxel: target, cell: { x: 2, y: 1, z: 0 } })).toBe(true);
+      expect(scene.voxelAt(2, 0, 0)).toBeUndefined();
+
+      scene.undo();
+      expect(scene.voxelAt(2, 0, 0)?.id).toBe(target.id);
+      scene.redo();
+      expect(cells(scene)).toEqual(['0,0,0', '1,0,0']);
+    });
+
+    it('ignores tools outside build mode', () => {
+      scene.setMode(AppMode.VIEW);
+      scene.setTool('pencil');
+      expect(scene.applyTool({ cell: { x: 0, y: 1, z: 0 } })).toBe(false);
+    });
+  });
+
+  describe('flood fill', () => {
+    it('recolors the connected same-colored region only', () => {
+      scene.loadInitialModel([...row(3), { x: 3, y: 0, z: 0, color: GREEN }, { x: 4, y: 0, z: 0, color: RED }]);
+      scene.setTool('paintBucket');
+      scene.setBuildProps(BLUE, VoxelMaterial.MATTE);
+      expect(scene.applyTool({ voxel: scene.voxelAt(0, 0, 0)!, cell: { x: 0, y: 1, z: 0 } })).toBe(true);
+
+      expect([0, 1, 2].map(x => scene.voxelAt(x, 0, 0)!.color.getHex())).toEqual([BLUE, BLUE, BLUE]);
+      expect(scene.voxelAt(3, 0, 0)!.color.getHex()).toBe(GREEN);
+      expect(scene.voxelAt(4, 0, 0)!.color.getHex()).toBe(RED);
+
+      scene.undo();
+      expect([0, 1, 2].map(x => scene.voxelAt(x, 0, 0)!.color.getHex())).toEqual([RED, RED, RED]);
+    });
+
+    it('does nothing when the region already has the fill color', () => {
+      scene.setTool('paintBucket');
+      scene.setBuildProps(RED, VoxelMaterial.MATTE);
+      expect(scene.applyTool({ voxel: scene.voxelAt(0, 0, 0)!, cell: { x: 0, y: 1, z: 0 } })).toBe(false);
+    });
+  });
+
+  describe('selection', () => {
+    it('selects by color and combines with later picks', () => {
+      scene.loadInitialModel([...row(2), { x: 2, y: 0, z: 0, color: BLUE }]);
+      expect(scene.selectByColor(RED)).toBe(true);
+      expect(scene.selectionSize).toBe(2);
+      expect(scene.selectByColor(BLUE, 'add')).toBe(true);
+      expect(scene.selectionSize).toBe(3);
+      expect(scene.selectByColor(RED, 'subtract')).toBe(true);
+      expect(scene.selectionSize).toBe(1);
+    });
+
+    it('makes selection changes undoable', () => {
+      scene.select([0, 1]);
+      scene.invertSelection();
+      expect(scene.isSelected(2)).toBe(true);
+      expect(scene.selectionSize).toBe(1);
+
+      scene.undo();
+      expect(scene.isSelected(0) && scene.isSelected(1)).toBe(true);
+      expect(scene.isSelected(2)).toBe(false);
+    });
+
+    it('grows the selection across faces', () => {
+      scene.select([0]);
+      scene.growSelection();
+      expect(scene.isSelected(1)).toBe(true);
+      expect(scene.isSelected(2)).toBe(false);
+    });
+
+    it('deletes the selection as one command', () => {
+      scene.select([0, 1]);
+      expect(scene.deleteSelected()).toBe(true);
+      expect(cells(scene)).toEqual(['2,0,0']);
+      expect(scene.selectionSize).toBe(0);
+
+      scene.undo();
+      expect(scene.voxels).toHaveLength(3);
+      expect(scene.selectionSize).toBe(2);
+    });
+  });
+
+  describe('plugin tools', () => {
+    it('keeps history working after a tool throws halfway through', () => {
+      scene.registerTool({
+        id: 'plugin:broken', label: 'Broken',
+        apply: (s, { cell }) => { s.placeVoxel(cell.x, cell.y, cell.z, BLUE, VoxelMaterial.MATTE); throw new Error('boom'); }
+      });
+      scene.setTool('plugin:broken');
+      expect(() => scene.applyTool({ cell: { x: 0, y: 1, z: 0 } })).toThrow('boom');
+      expect(scene.voxelAt(0, 1, 0)).toBeDefined();
+
+      expect(scene.undo()).toBe(true);
+      expect(scene.voxelAt(0, 1, 0)).toBeUndefined();
+      scene.setTool('pencil');
+      expect(scene.applyTool({ cell: { x: 1, y: 1, z: 0 } })).toBe(true);
+      expect(scene.undo()).toBe(true);
+      expect(scene.voxels).toHaveLength(3);
+    });
+  });
+
+  describe('scaling', () => {
+    it('shrinks a scaled-up selection back to where it was', () => {
+      scene.setTransformPivot({ x: 0, y: 0, z: 0 });
+      scene.select(scene.voxels.map(v => v.id));
+      expect(scene.scaleSelection(2)).toBe(true);
+      expect(scene.voxels).toHaveLength(24);
+
+      expect(scene.scaleSelection(1 / 2)).toBe(true);
+      expect(cells(scene)).toEqual(['0,0,0', '1,0,0', '2,0,0']);
+      expect(scene.selectionSize).toBe(3);
+    });
+
+    it('keeps the most common color of each block', () => {
+      scene.loadInitialModel([...row(3, BLUE), { x: 0, y: 1, z: 0, color: RED }]);
+      scene.select(scene.voxels.map(v => v.id));
+      expect(scene.scaleSelection(1 / 3)).toBe(true);
+      expect(scene.voxels).toHaveLength(1);
+      expect(scene.voxels[0].color.getHex()).toBe(BLUE);
+    });
+  });
+
+  describe('symmetric transforms', () => {
+    beforeEach(() => {
+      scene.loadInitialModel([2, 3, -2, -3].map(x => ({ x, y: 0, z: 0, color: RED })));
+      scene.setSymmetry({ axes: { x: true, y: false, z: false }, origin: { x: 0, y: 0, z: 0 }, radial: 1 });
+      scene.select([scene.voxelAt(2, 0, 0)!.id, scene.voxelAt(3, 0, 0)!.id]);
+      scene.setTransformPivot({ x: 2, y: 0, z: 0 });
+    });
+
+    it('moves the mirror half with the selection instead of cloning it', () => {
+      expect(scene.rotateSelection('y', 1)).toBe(true);
+      expect(cells(scene)).toEqual(['-2,0,-1', '-2,0,0', '2,0,-1', '2,0,0']);
+      expect(scene.selectionSize).toBe(2);
+
+      scene.undo();
+      expect(cells(scene)).toEqual(['-2,0,0', '-3,0,0', '2,0,0', '3,0,0']);
+    });
+
+    it('does not count the mirror half as blocking under the cancel policy', () => {
+      scene.setCollisionPolicy('cancel');
+      expect(scene.mirrorSelection('x')).toBe(true);
+      expect(cells(scene)).toEqual(['-1,0,0', '-2,0,0', '1,0,0', '2,0,0']);
+    });
+  });
+
+  describe('structural gravity', () => {
+    const GROUND = Math.round(CONFIG.FLOOR_Y + 0.5);
+    const at = (x: number, y: number): VoxelData => ({ x, y: GROUND + y, z: 0, color: RED });
+    const settle = () => {
+      for (let frame = 0; frame < 1000 && scene.state !== AppState.STABLE; frame++) scene.step();
+    };
+    const erase = (x: number, y: number) => {
+      scene.setTool('eraser');
+      scene.applyTool({ voxel: scene.voxelAt(x, GROUND + y, 0)!, cell: { x, y: GROUND + y + 1, z: 0 } });
+      settle();
+    };
+    const heights = () => scene.voxels.map(v => `${v.x},${v.y - GROUND}`).sort();
+
+    beforeEach(() => scene.setStructuralGravity(true));
+
+    it('drops the part an erase cuts off from the floor as one undo step', () => {
+      scene.loadInitialModel([at(0, 0), at(0, 1), at(0, 2), at(0, 3)]);
+      erase(0, 1);
+      expect(heights()).toEqual(['0,0', '0,1', '0,2']);
+
+      scene.undo();
+      expect(heights()).toEqual(['0,0', '0,1', '0,2', '0,3']);
+    });
+
+    it('leaves groups that were already floating where they are', () => {
+      scene.loadInitialModel([at(0, 0), at(0, 1), at(5, 4), at(8, 6), at(9, 6), at(10, 6)]);
+      erase(0, 1);
+      erase(10, 6);
+      expect(heights()).toEqual(['0,0', '5,4', '8,6', '9,6']);
+    });
+
+    it('lands a collapse before leaving build mode so it stays one undo step', () => {
+      scene.loadInitialModel([at(0, 0), at(0, 1), at(0, 2), at(0, 3)]);
+      scene.setTool('eraser');
+      scene.applyTool({ voxel: scene.voxelAt(0, GROUND + 1, 0)!, cell: { x: 0, y: GROUND + 2, z: 0 } });
+      scene.step();
+      expect(scene.state).toBe(AppState.COLLAPSING);
+
+      scene.setMode(AppMode.VIEW);
+      expect(scene.state).toBe(AppState.STABLE);
+      expect(heights()).toEqual(['0,0', '0,1', '0,2']);
+
+      let now = 0;
+      expect(scene.rebuild([at(4, 0)], now)).toBe(true);
+      while (scene.state !== AppState.STABLE && now < 60000) scene.step(now += 16);
+      expect(heights()).toContain('4,0');
+      expect(scene.undo()).toBe(true);
+      expect(scene.undo()).toBe(true);
+      expect(heights()).toEqual(['0,0', '0,1', '0,2', '0,3']);
+    });
+  });
+});
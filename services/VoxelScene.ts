@@ -0,0 +1,1666 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import * as THREE from 'three';
+import { AppState, AppMode, SimulationVoxel, RebuildTarget, VoxelData, BuildTool, VoxelMaterial, VoxelRecord, CommandType, EditCommand, HistoryTimelineEntry, SessionDraft, GridPoint, ToolTarget, VoxelEvents, PluginToolId, ShapeKind, BrushShape, SelectionMode, SelectionOp, Axis, CollisionPolicy, SymmetrySettings, BooleanSettings, RebuildChoreography, RebuildMatching } from '../types';
+import { CONFIG } from '../utils/voxelConstants';
+import { VoxelIndex, voxelKey } from '../utils/voxelIndex';
+import { rasterizeShape, shapeClicks, brushCells } from '../utils/voxelShapes';
+import { voxelsToJson } from '../utils/voxelJson';
+import { anchorAtBase } from '../utils/voxelTransforms';
+import { hollowCells, enclosedCells, thickenCells, thinCells } from '../utils/voxelVolume';
+import { VoxelPhysics } from '../utils/voxelPhysics';
+import { ChoreographyPlan, DEFAULT_CHOREOGRAPHY, planChoreography, flightPoint, ease } from '../utils/voxelChoreography';
+import { matchVoxels } from '../utils/voxelMatching';
+import { CommandHistory, toRecord } from './CommandHistory';
+import { EventBus } from './EventBus';
+
+/** A click tool contributed by a plugin. */
+export interface PluginTool {
+  id: PluginToolId;
+  label: string;
+  /** Hover feedback: 'cell' shows the ghost voxel, 'voxel' highlights the voxel under the pointer. */
+  preview?: 'cell' | 'voxel';
+  /** Performs the tool action through the scene's edit API. Returns true if anything changed. */
+  apply: (scene: VoxelScene, target: ToolTarget) => boolean;
+}
+
+/** Lowest cell layer above the floor; voxels on it rest on the ground. */
+const GROUND_LAYER = Math.round(CONFIG.FLOOR_Y + 0.5);
+
+const FACE_OFFSETS: [number, number, number][] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+/** Command recorded for a drag stroke of each brush tool. */
+const STROKE_COMMANDS: Partial<Record<BuildTool, CommandType>> = { pencil: 'ADD', eraser: 'ERASE', spray: 'PAINT' };
+
+/** The persistent part of a session; camera framing is added by the renderer. */
+export type SceneSession = Omit<SessionDraft, 'camera'>;
+
+/**
+ * VoxelScene is the headless core of the toy box: voxels, selection, edit
+ * history, build tools and the dismantle/rebuild simulation. It has no DOM or
+ * WebGL dependency, so it runs in Node for tests and scripts.
+ */
+export class VoxelScene {
+  // Spatial hash owning the voxel list; every mutation goes through it
+  private index = new VoxelIndex();
+  private selectedVoxelIds: Set<number> = new Set();
+
+  // Single command log for every edit, including selection changes
+  private history = new CommandHistory(CONFIG.MAX_HISTORY_BYTES);
+  // Grid positions captured before a dismantle, so a following rebuild undoes to the intact model
+  private restPositions: Map<number, VoxelRecord> | null = null;
+
+  // Last id handed out; ids must stay unique across the whole history tree
+  private lastVoxelId: number = 0;
+
+  // Dismantle physics, and the wrecking ball while one is flying
+  private physics = new VoxelPhysics();
+  private ball: { x: number; y: number; z: number; vx: number; vy: number; vz: number; frames: number } | null = null;
+
+  // Style for the next rebuild; the running one keeps the plan it started with
+  private choreography: RebuildChoreography = DEFAULT_CHOREOGRAPHY;
+  private rebuildPlan: ChoreographyPlan | null = null;
+  // Pairing of the running rebuild's sources and targets, advanced within a frame budget
+  private matchMode: RebuildMatching = 'nearest';
+  private matching: { targets: VoxelData[]; run: Generator<void, Int32Array> } | null = null;
+  private rebuildTargets: RebuildTarget[] = [];
+  private rebuildStartTime: number = 0;
+
+  // Structural gravity: removals that strand groups make them fall, each as a rigid body
+  private structuralGravity: boolean = false;
+  private fallingGroups: { voxels: SimulationVoxel[]; startY: number[]; drop: number; offset: number; vy: number; settled: boolean }[] = [];
+
+  private _state: AppState = AppState.STABLE;
+  private _mode: AppMode = AppMode.VIEW;
+  private buildTool: BuildTool = 'pencil';
+  private selectedColor: number = 0x3b82f6;
+  private selectedMaterial: VoxelMaterial = VoxelMaterial.MATTE;
+  private symmetry: SymmetrySettings = { axes: { x: false, y: false, z: false }, origin: { x: 0, y: 0, z: 0 }, radial: 1 };
+
+  private selectionMode: SelectionMode = 'box';
+  // Drag selection in progress: the selection it started from and the voxels picked so far
+  private selectionDrag: { op: SelectionOp; base: Set<number>; picked: Set<number> } | null = null;
+
+  // Selection transforms: what happens to voxels in the way, and a fixed pivot (null = selection center)
+  private collisionPolicy: CollisionPolicy = 'overwrite';
+  private transformPivot: GridPoint | null = null;
+
+  // Copied voxels relative to their paste anchor
+  private clipboard: VoxelData[] = [];
+
+  private brushRadius: number = 0;
+  private brushShape: BrushShape = 'cube';
+
+  // Shape tool: primitive settings and the clicks placed so far
+  private shapeKind: ShapeKind = 'box';
+  private shapeHollow: boolean = false;
+  private shapeAnchors: GridPoint[] = [];
+
+  private pluginTools = new Map<PluginToolId, PluginTool>();
+
+  public readonly events = new EventBus<VoxelEvents>();
+
+  public get voxels(): readonly SimulationVoxel[] { return this.index.all; }
+  public get state() { return this._state; }
+  public get mode() { return this._mode; }
+  public get tool() { return this.buildTool; }
+  public get color() { return this.selectedColor; }
+  public get material() { return this.selectedMaterial; }
+  public get selectionSize() { return this.selectedVoxelIds.size; }
+  public get selectMode() { return this.selectionMode; }
+  public get collisions() { return this.collisionPolicy; }
+  public get pivot() { return this.transformPivot; }
+  public get symmetrySettings(): SymmetrySettings { return this.symmetry; }
+  public get gravity() { return this.structuralGravity; }
+  public get clipboardVoxels(): readonly VoxelData[] { return this.clipboard; }
+  public get brush() { return { radius: this.brushRadius, shape: this.brushShape }; }
+  public get shape() { return { kind: this.shapeKind, hollow: this.shapeHollow }; }
+  /** Clicks placed so far for the shape being drawn. */
+  public get pendingShapeAnchors(): readonly GridPoint[] { return this.shapeAnchors; }
+  /** True when the next shape click sets the height above the base rectangle. */
+  public get shapeNeedsHeight() { return this.shapeKind !== 'line' && this.shapeAnchors.length === 2; }
+
+  public isSelected(id: number) { return this.selectedVoxelIds.has(id); }
+  public voxelAt(x: number, y: number, z: number) { return this.index.get(x, y, z); }
+  public getById(id: number) { return this.index.getById(id); }
+
+  // --- Settings ---
+
+  public setMode(mode: AppMode) {
+    // A collapse belongs to the build edit that caused it, so it lands before the mode changes
+    if (this._state === AppState.COLLAPSING) this.settleCollapse();
+    this._mode = mode;
+    this.shapeAnchors = [];
+    if (mode !== AppMode.BUILD) this.clearSelection();
+    this.events.emit('modeChanged', mode);
+  }
+
+  public setTool(tool: BuildTool) {
+    this.buildTool = tool;
+    this.shapeAnchors = [];
+    this.clearSelection();
+    this.events.emit('toolChanged', tool);
+  }
+
+  public setSymmetry(symmetry: SymmetrySettings) {
+    this.symmetry = {
+      axes: { ...symmetry.axes },
+      // Planes sit on cell centers or between cells, so mirrored cells stay on the grid
+      origin: { x: Math.round(symmetry.origin.x * 2) / 2, y: Math.round(symmetry.origin.y * 2) / 2, z: Math.round(symmetry.origin.z * 2) / 2 },
+      radial: Math.max(1, Math.floor(symmetry.radial))
+    };
+  }
+
+  public setStructuralGravity(enabled: boolean) {
+    this.structuralGravity = enabled;
+  }
+
+  public setMatchMode(mode: RebuildMatching) {
+    this.matchMode = mode;
+  }
+
+  public setChoreography(choreography: RebuildChoreography) {
+    this.choreography = { ...choreography, duration: Math.min(CONFIG.MAX_REBUILD_DURATION, Math.max(CONFIG.MIN_REBUILD_DURATION, choreography.duration)) };
+  }
+
+  public setBuildProps(hex: number, mat: VoxelMaterial) {
+    this.selectedColor = hex;
+    this.selectedMaterial = mat;
+  }
+
+  public setSelectionMode(mode: SelectionMode) {
+    this.selectionMode = mode;
+  }
+
+  public setBrush(radius: number, shape: BrushShape) {
+    this.brushRadius = Math.max(0, Math.min(CONFIG.MAX_BRUSH_RADIUS, Math.round(radius)));
+    this.brushShape = shape;
+  }
+
+  public setShapeOptions(kind: ShapeKind, hollow: boolean) {
+    this.shapeKind = kind;
+    this.shapeHollow = hollow;
+    this.shapeAnchors = [];
+  }
+
+  /** Drops the clicks of a partially drawn shape. */
+  public cancelShape() {
+    this.shapeAnchors = [];
+  }
+
+  // --- Build Tools ---
+
+  /**
+   * Applies the active click tool (pencil, eraser, picker, paint bucket, ...) to a target.
+   * Returns true if anything happened.
+   */
+  public applyTool(target: ToolTarget): boolean {
+    if (this._mode !== AppMode.BUILD || this._state !== AppState.STABLE) return false;
+    const { voxel, cell } = target;
+    switch (this.buildTool) {
+      case 'pencil':
+        return this.fillCells(this.brushFootprint(target), 'ADD');
+      case 'eraser':
+        return this.eraseCells(this.brushFootprint(target));
+      case 'spray':
+        return this.sprayCells(this.brushFootprint(target));
+      case 'picker':
+        if (!voxel) return false;
+        this.events.emit('colorPicked', { color: voxel.color.getHex(), material: voxel.material });
+        return true;
+      case 'paintBucket':
+        return !!voxel && this.paintFill(voxel.x, voxel.y, voxel.z, this.selectedColor, this.selectedMaterial);
+      case 'shape':
+        return this.addShapeAnchor(cell);
+      default:
+        return this.applyPluginTool(target);
+    }
+  }
+
+  // --- Plugin Tools ---
+
+  public registerTool(tool: PluginTool) {
+    this.pluginTools.set(tool.id, tool);
+  }
+
+  public unregisterTool(id: PluginToolId) {
+    this.pluginTools.delete(id);
+    if (this.buildTool === id) this.setTool('pencil');
+  }
+
+  public getTool(id: BuildTool): PluginTool | undefined {
+    return this.pluginTools.get(id as PluginToolId);
+  }
+
+  /** Runs a plugin tool as a single undoable command. */
+  private applyPluginTool(target: ToolTarget): boolean {
+    const tool = this.getTool(this.buildTool);
+    if (!tool) return false;
+    let applied = false;
+    this.edit('PLUGIN', () => { applied = tool.apply(this, target); });
+    if (applied) {
+      this.events.emit('countChanged', this.voxels.length);
+      this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+    }
+    return applied;
+  }
+
+  // --- Edit API (for plugins; each call outside `edit` becomes its own command) ---
+
+  /** Places a voxel if the cell is free and the voxel cap allows it. */
+  public placeVoxel(x: number, y: number, z: number, color: number, material: VoxelMaterial): SimulationVoxel | undefined {
+    if (this.voxels.length >= CONFIG.MAX_VOXELS || this.index.has(x, y, z)) return undefined;
+    const v = this.createVoxel({ id: this.newVoxelId(), x, y, z, color, material });
+    this.edit('PLUGIN', () => this.insertVoxel(v));
+    return v;
+  }
+
+  public eraseVoxel(v: SimulationVoxel) {
+    this.edit('PLUGIN', () => this.deleteVoxel(v));
+  }
+
+  public recolorVoxel(v: SimulationVoxel, color: number, material: VoxelMaterial = v.material) {
+    this.edit('PLUGIN', () => this.paintVoxel(v, color, material));
+  }
+
+  public moveVoxelTo(v: SimulationVoxel, x: number, y: number, z: number) {
+    this.edit('PLUGIN', () => this.moveVoxel(v, x, y, z));
+  }
+
+  public select(ids: Iterable<number>) {
+    this.edit('SELECTION', () => this.setSelection(new Set(ids)));
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+  }
+
+  /**
+   * Starts a drag selection (box, lasso, marquee or paint). Everything picked
+   * until `endSelectionDrag` is combined with the starting selection by `op`.
+   */
+  public beginSelectionDrag(op: SelectionOp) {
+    // The whole drag is recorded as one selection command, committed in endSelectionDrag
+    this.history.begin('SELECTION', this.selectedVoxelIds);
+    this.selectionDrag = { op, base: new Set(this.selectedVoxelIds), picked: new Set() };
+    if (op === 'replace') this.setSelection(new Set());
+  }
+
+  /** Adds voxels to the drag selection in progress and shows the combined result. */
+  public extendSelectionDrag(ids: Iterable<number>) {
+    const drag = this.selectionDrag;
+    if (!drag) return;
+    for (const id of ids) drag.picked.add(id);
+    this.setSelection(this.combineSelection([...drag.picked], drag.op, drag.base));
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+  }
+
+  /** Finishes the drag selection, picking `ids` last, and records the change. Returns the selection size. */
+  public endSelectionDrag(ids: Iterable<number> = []): number {
+    if (!this.selectionDrag) return this.selectedVoxelIds.size;
+    this.extendSelectionDrag(ids);
+    this.selectionDrag = null;
+    // Only recorded if the selection actually changed
+    this.commitEdit();
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+    return this.selectedVoxelIds.size;
+  }
+
+  /** Adds the voxels under a brush stamp centered on `voxel` to the drag selection in progress (paint-select). */
+  public paintSelection(voxel: SimulationVoxel, normal?: GridPoint) {
+    const cells = this.withSymmetry(brushCells({ x: voxel.x, y: voxel.y, z: voxel.z }, this.brushRadius, this.brushShape, normal));
+    const ids: number[] = [];
+    cells.forEach(c => {
+      const hit = this.index.get(c.x, c.y, c.z);
+      if (hit) ids.push(hit.id);
+    });
+    this.extendSelectionDrag(ids);
+  }
+
+  /** Voxels whose centers lie inside the inclusive box. */
+  public voxelsInBox(min: GridPoint, max: GridPoint): SimulationVoxel[] {
+    return this.voxels.filter(v => v.x >= min.x && v.x <= max.x && v.y >= min.y && v.y <= max.y && v.z >= min.z && v.z <= max.z);
+  }
+
+  /**
+   * The voxels no other voxel hides from `eye`: each line of sight to a voxel
+   * center is marched in half-cell steps until it leaves the scene bounds.
+   */
+  public visibleFrom(voxels: SimulationVoxel[], eye: GridPoint): SimulationVoxel[] {
+    if (this.voxels.length === 0) return [];
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    this.voxels.forEach(v => {
+      min.x = Math.min(min.x, v.x); min.y = Math.min(min.y, v.y); min.z = Math.min(min.z, v.z);
+      max.x = Math.max(max.x, v.x); max.y = Math.max(max.y, v.y); max.z = Math.max(max.z, v.z);
+    });
+
+    return voxels.filter(v => {
+      const dx = eye.x - v.x, dy = eye.y - v.y, dz = eye.z - v.z;
+      const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      for (let t = 0.5; t < length; t += 0.5) {
+        const x = Math.round(v.x + dx * t / length), y = Math.round(v.y + dy * t / length), z = Math.round(v.z + dz * t / length);
+        if (x < min.x || x > max.x || y < min.y || y > max.y || z < min.z || z > max.z) return true;
+        const blocker = this.index.get(x, y, z);
+        if (blocker && blocker !== v) return false;
+      }
+      return true;
+    });
+  }
+
+  // --- Selection Modes ---
+
+  /**
+   * Click of the select tool in wand, color or material mode. Clicking empty
+   * space with a plain click clears the selection.
+   */
+  public pickSelection(voxel: SimulationVoxel | undefined, op: SelectionOp): boolean {
+    if (!voxel) {
+      if (op !== 'replace' || this.selectedVoxelIds.size === 0) return false;
+      this.clearSelection();
+      return true;
+    }
+    const color = voxel.color.getHex();
+    switch (this.selectionMode) {
+      case 'wand':
+        return this.updateSelection(this.floodRegion(voxel, v => v.color.getHex() === color && v.material === voxel.material).map(v => v.id), op);
+      case 'color':
+        return this.selectByColor(color, op);
+      case 'material':
+        return this.selectByMaterial(voxel.material, op);
+      case 'floating': {
+        // The clicked group if it floats, otherwise every floating voxel
+        const groups = this.floatingGroups();
+        const group = groups.find(g => g.includes(voxel)) ?? groups.flat();
+        return this.updateSelection(group.map(v => v.id), op);
+      }
+      default:
+        return false;
+    }
+  }
+
+  public selectByColor(color: number, op: SelectionOp = 'replace'): boolean {
+    return this.updateSelection(this.voxels.filter(v => v.color.getHex() === color).map(v => v.id), op);
+  }
+
+  public selectByMaterial(material: VoxelMaterial, op: SelectionOp = 'replace'): boolean {
+    return this.updateSelection(this.voxels.filter(v => v.material === material).map(v => v.id), op);
+  }
+
+  /** Adds every voxel sharing a face with the selection. */
+  public growSelection(): boolean {
+    const grown = this.voxels.filter(v => !this.selectedVoxelIds.has(v.id) && this.faceNeighbors(v).some(n => this.selectedVoxelIds.has(n.id)));
+    return this.updateSelection(grown.map(v => v.id), 'add');
+  }
+
+  /** Drops selected voxels with a face that does not touch another selected voxel. */
+  public shrinkSelection(): boolean {
+    const border = this.voxels.filter(v => this.selectedVoxelIds.has(v.id) &&
+      (this.faceNeighbors(v).length < 6 || this.faceNeighbors(v).some(n => !this.selectedVoxelIds.has(n.id))));
+    return this.updateSelection(border.map(v => v.id), 'subtract');
+  }
+
+  public invertSelection(): boolean {
+    return this.updateSelection(this.voxels.filter(v => !this.selectedVoxelIds.has(v.id)).map(v => v.id), 'replace');
+  }
+
+  private faceNeighbors(v: GridPoint): SimulationVoxel[] {
+    return FACE_OFFSETS
+      .map(([dx, dy, dz]) => this.index.get(v.x + dx, v.y + dy, v.z + dz))
+      .filter((n): n is SimulationVoxel => !!n);
+  }
+
+  private combineSelection(ids: number[], op: SelectionOp, current: Set<number> = this.selectedVoxelIds): Set<number> {
+    switch (op) {
+      case 'add': return new Set([...current, ...ids]);
+      case 'subtract': {
+        const next = new Set(current);
+        ids.forEach(id => next.delete(id));
+        return next;
+      }
+      case 'intersect': return new Set(ids.filter(id => current.has(id)));
+      default: return new Set(ids);
+    }
+  }
+
+  /** Combines `ids` with the selection as one undoable SELECTION command. Returns true if it changed. */
+  private updateSelection(ids: number[], op: SelectionOp): boolean {
+    const next = this.combineSelection(ids, op);
+    const changed = next.size !== this.selectedVoxelIds.size || [...next].some(id => !this.selectedVoxelIds.has(id));
+    if (!changed) return false;
+    this.select(next);
+    return true;
+  }
+
+  // --- Brush Strokes ---
+
+  /**
+   * Cells the active brush tool would affect at a target, symmetry included: free
+   * cells around the placement cell for the pencil, voxels around the hit voxel
+   * for the eraser and spray.
+   */
+  public brushFootprint(target: ToolTarget): GridPoint[] {
+    const placing = this.buildTool === 'pencil';
+    const center = placing ? target.cell : target.voxel;
+    if (!center) return [];
+    const cells = this.withSymmetry(brushCells({ x: center.x, y: center.y, z: center.z }, this.brushRadius, this.brushShape, target.normal));
+    return cells.filter(c => this.index.has(c.x, c.y, c.z) !== placing);
+  }
+
+  /**
+   * Starts a drag stroke of the pencil, eraser or spray. Every stamp until
+   * `endStroke` joins one undoable command.
+   */
+  public beginStroke(): boolean {
+    const type = STROKE_COMMANDS[this.buildTool];
+    if (!type || this._mode !== AppMode.BUILD || this._state !== AppState.STABLE || this.history.isRecording) return false;
+    this.history.begin(type, this.selectedVoxelIds);
+    return true;
+  }
+
+  /** Commits the current stroke. Returns true if it changed anything. */
+  public endStroke(): boolean {
+    if (!this.history.isRecording) return false;
+    return this.commitEdit();
+  }
+
+  private eraseCells(cells: GridPoint[], type: CommandType = 'ERASE'): boolean {
+    if (cells.length === 0) return false;
+    this.edit(type, () => cells.forEach(c => {
+      const v = this.index.get(c.x, c.y, c.z);
+      if (v) this.deleteVoxel(v);
+    }));
+    this.events.emit('countChanged', this.voxels.length);
+    return true;
+  }
+
+  /** Recolors a random share of the voxels in the footprint, so repeated passes build up coverage. */
+  private sprayCells(cells: GridPoint[]): boolean {
+    const hits = cells
+      .map(c => this.index.get(c.x, c.y, c.z))
+      .filter((v): v is SimulationVoxel => !!v && (v.color.getHex() !== this.selectedColor || v.material !== this.selectedMaterial))
+      .filter(() => this.brushRadius === 0 || Math.random() < CONFIG.SPRAY_DENSITY);
+    if (hits.length === 0) return false;
+    this.edit('PAINT', () => hits.forEach(v => this.paintVoxel(v, this.selectedColor, this.selectedMaterial)));
+    return true;
+  }
+
+  // --- Push/Pull ---
+
+  /**
+   * The face under the pointer grown over the coplanar, connected voxels of the
+   * same color and material whose face towards `normal` is exposed.
+   */
+  public faceRegion(voxel: SimulationVoxel, normal: GridPoint): GridPoint[] {
+    const color = voxel.color.getHex();
+    const material = voxel.material;
+    const axes = (['x', 'y', 'z'] as const).filter(axis => normal[axis] === 0);
+    const exposed = (v: SimulationVoxel) => !this.index.has(v.x + normal.x, v.y + normal.y, v.z + normal.z);
+    if (!exposed(voxel)) return [];
+    return this.floodRegion(voxel, v => v.color.getHex() === color && v.material === material && exposed(v), axes)
+      .map(v => ({ x: v.x, y: v.y, z: v.z }));
+  }
+
+  /**
+   * Cells affected by pushing/pulling a face region `distance` steps along its normal,
+   * symmetry included: new cells in front of it for a pull, voxels removed for a push.
+   */
+  public pushPullCells(region: GridPoint[], normal: GridPoint, distance: number): GridPoint[] {
+    const cells: GridPoint[] = [];
+    const steps = Math.abs(distance);
+    // Pulling adds layers 1..d in front of the face, pushing removes layers 0..d-1 behind it
+    const offset = distance > 0 ? 1 : -steps + 1;
+    for (let k = 0; k < steps; k++) {
+      const along = offset + k;
+      region.forEach(c => cells.push({ x: c.x + normal.x * along, y: c.y + normal.y * along, z: c.z + normal.z * along }));
+    }
+    return this.withSymmetry(cells).filter(c => this.index.has(c.x, c.y, c.z) === distance < 0);
+  }
+
+  /** Extrudes (positive distance) or retracts a face region as one command. */
+  public pushPull(region: GridPoint[], normal: GridPoint, distance: number): boolean {
+    if (this._mode !== AppMode.BUILD || this._state !== AppState.STABLE || region.length === 0 || distance === 0) return false;
+    const cells = this.pushPullCells(region, normal, distance);
+    if (distance < 0) {
+      return this.eraseCells(cells, 'EXTRUDE');
+    }
+    const source = this.index.get(region[0].x, region[0].y, region[0].z);
+    if (!source) return false;
+    return this.fillCells(cells, 'EXTRUDE', source.color.getHex(), source.material);
+  }
+
+  /** Cells a shape would fill if `cell` were the next click, symmetry included. Used for the ghost preview. */
+  public previewShape(cell: GridPoint): GridPoint[] {
+    return this.withSymmetry(rasterizeShape(this.shapeKind, [...this.shapeAnchors, cell], this.shapeHollow));
+  }
+
+  /** Records one shape click. The final click places the whole shape as one command. */
+  private addShapeAnchor(cell: GridPoint): boolean {
+    this.shapeAnchors.push({ ...cell });
+    const anchors = this.shapeAnchors;
+    // Base corners on different levels already span a volume, so the height click is skipped
+    const complete = anchors.length >= shapeClicks(this.shapeKind) ||
+      (this.shapeKind !== 'line' && anchors.length === 2 && anchors[0].y !== anchors[1].y);
+    if (!complete) return true;
+
+    this.shapeAnchors = [];
+    return this.fillCells(this.withSymmetry(rasterizeShape(this.shapeKind, anchors, this.shapeHollow)), 'SHAPE');
+  }
+
+  private get hasSymmetry() {
+    const { axes, radial } = this.symmetry;
+    return axes.x || axes.y || axes.z || radial > 1;
+  }
+
+  /** Every symmetric image of a cell under the current symmetry settings, the cell itself first. */
+  public symmetryImages(cell: GridPoint): GridPoint[] {
+    const { axes, origin, radial } = this.symmetry;
+    let images: GridPoint[] = [{ x: cell.x, y: cell.y, z: cell.z }];
+    if (radial > 1) {
+      const dx = cell.x - origin.x, dz = cell.z - origin.z;
+      for (let k = 1; k < radial; k++) {
+        const angle = (2 * Math.PI * k) / radial;
+        const cos = Math.cos(angle), sin = Math.sin(angle);
+        images.push({ x: Math.round(origin.x + dx * cos - dz * sin), y: cell.y, z: Math.round(origin.z + dx * sin + dz * cos) });
+      }
+    }
+    (['x', 'y', 'z'] as const).forEach(axis => {
+      if (axes[axis]) images = images.concat(images.map(p => ({ ...p, [axis]: 2 * origin[axis] - p[axis] })));
+    });
+    return images;
+  }
+
+  /** Adds the symmetric images of every cell (mirror planes and radial copies), without duplicates. */
+  private withSymmetry(cells: GridPoint[]): GridPoint[] {
+    if (!this.hasSymmetry) return cells;
+    const seen = new Set<string>();
+    const result: GridPoint[] = [];
+    cells.forEach(c => this.symmetryImages(c).forEach(p => {
+      const key = voxelKey(p.x, p.y, p.z);
+      if (seen.has(key)) return;
+      seen.add(key);
+      result.push(p);
+    }));
+    return result;
+  }
+
+  /**
+   * Places voxels (of the current color by default) in every free cell as one command.
+   * Refuses the whole batch if it would exceed the voxel cap.
+   */
+  private fillCells(cells: GridPoint[], type: CommandType, color: number = this.selectedColor, material: VoxelMaterial = this.selectedMaterial): boolean {
+    const seen = new Set<string>();
+    const free = cells.filter(c => {
+      const key = voxelKey(c.x, c.y, c.z);
+      if (seen.has(key) || this.index.has(c.x, c.y, c.z)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (free.length === 0 || this.voxels.length + free.length > CONFIG.MAX_VOXELS) return false;
+
+    this.edit(type, () => free.forEach(c => {
+      this.insertVoxel(this.createVoxel({ id: this.newVoxelId(), ...c, color, material }));
+    }));
+    this.events.emit('countChanged', this.voxels.length);
+    return true;
+  }
+
+  /**
+   * Voxels connected to `start` across faces for which `accept` holds (BFS).
+   * `axes` limits the search to neighbours along those axes, e.g. to stay in a plane.
+   */
+  private floodRegion(start: SimulationVoxel, accept: (v: SimulationVoxel) => boolean, axes: ('x' | 'y' | 'z')[] = ['x', 'y', 'z']): SimulationVoxel[] {
+    const region: SimulationVoxel[] = [start];
+    const visited = new Set<number>([start.id]);
+
+    // Index-based cursor instead of shift() keeps large fills linear
+    for (let head = 0; head < region.length; head++) {
+      const c = region[head];
+      for (const axis of axes) {
+        for (const dir of [1, -1]) {
+          const n = { x: c.x, y: c.y, z: c.z };
+          n[axis] += dir;
+          const neighbor = this.index.get(n.x, n.y, n.z);
+          if (neighbor && !visited.has(neighbor.id) && accept(neighbor)) {
+            visited.add(neighbor.id);
+            region.push(neighbor);
+          }
+        }
+      }
+    }
+    return region;
+  }
+
+  private performFloodFill(sx: number, sy: number, sz: number, fillHex: number, fillMat: VoxelMaterial): number {
+    const startVoxel = this.index.get(sx, sy, sz);
+    if (!startVoxel) return 0;
+
+    const targetHex = startVoxel.color.getHex();
+    const targetMat = startVoxel.material;
+
+    if (targetHex === fillHex && targetMat === fillMat) return 0;
+
+    const region = this.floodRegion(startVoxel, v => v.color.getHex() === targetHex && v.material === targetMat);
+    region.forEach(v => this.paintVoxel(v, fillHex, fillMat));
+    return region.length;
+  }
+
+  private paintFill(startX: number, startY: number, startZ: number, fillHex: number, fillMat: VoxelMaterial): boolean {
+    return this.edit('FILL', () => {
+      // Images inside an already painted region find nothing left to fill
+      this.withSymmetry([{ x: startX, y: startY, z: startZ }]).forEach(p => this.performFloodFill(p.x, p.y, p.z, fillHex, fillMat));
+    });
+  }
+
+  // --- Group Manipulation Methods ---
+
+  public deleteSelected(): boolean {
+    if (this.selectedVoxelIds.size === 0) return false;
+    this.edit('DELETE', () => {
+      this.removeWhere(v => this.selectedVoxelIds.has(v.id));
+      this.setSelection(new Set());
+    });
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', 0);
+    return true;
+  }
+
+  public moveSelected(axis: 'x' | 'y' | 'z', dir: number): boolean {
+    if (this.selectedVoxelIds.size === 0) return false;
+    const selected = this.voxels.filter(v => this.selectedVoxelIds.has(v.id));
+    this.edit('MOVE', () => {
+      selected.forEach(v => {
+        const pos = { x: v.x, y: v.y, z: v.z };
+        pos[axis] += dir;
+        this.moveVoxel(v, pos.x, pos.y, pos.z);
+      });
+    });
+    return true;
+  }
+
+  public setCollisionPolicy(policy: CollisionPolicy) {
+    this.collisionPolicy = policy;
+  }
+
+  /** Fixes the pivot of rotations, mirrors and scaling; null goes back to the selection center. */
+  public setTransformPivot(pivot: GridPoint | null) {
+    this.transformPivot = pivot && { x: pivot.x, y: pivot.y, z: pivot.z };
+    this.events.emit('pivotChanged', this.transformPivot);
+  }
+
+  /** Rotates the selection by quarter turns about `axis` (positive turns are counterclockwise looking down the axis). */
+  public rotateSelection(axis: Axis, turns: number): boolean {
+    // Each axis rotates the plane of the other two: (u, v) -> (-v, u) per counterclockwise quarter turn
+    const [u, v] = ({ x: ['y', 'z'], y: ['z', 'x'], z: ['x', 'y'] } as const)[axis];
+    const quarter = ((turns % 4) + 4) % 4;
+    if (quarter === 0) return false;
+    const pivot = this.selectionPivot();
+    return this.transformSelection(p => {
+      const cell = { x: p.x - pivot.x, y: p.y - pivot.y, z: p.z - pivot.z };
+      for (let i = 0; i < quarter; i++) [cell[u], cell[v]] = [-cell[v], cell[u]];
+      // Rounding is uniform across the selection, so a half-cell center still maps one-to-one
+      return [{ x: Math.round(cell.x + pivot.x), y: Math.round(cell.y + pivot.y), z: Math.round(cell.z + pivot.z) }];
+    });
+  }
+
+  /** Mirrors the selection across the plane through its pivot perpendicular to `axis`. */
+  public mirrorSelection(axis: Axis): boolean {
+    const pivot = this.selectionPivot();
+    return this.transformSelection(p => {
+      const cell = { x: p.x, y: p.y, z: p.z };
+      cell[axis] = 2 * pivot[axis] - p[axis];
+      return [cell];
+    });
+  }
+
+  /**
+   * Scales the selection by an integer factor with nearest-neighbour
+   * resampling: with k ≥ 2 every voxel becomes a k³ block, with 1/k every k³
+   * block keeps one voxel in its most common color and material. Without a
+   * fixed pivot it scales about the center of its bottom layer.
+   */
+  public scaleSelection(factor: number): boolean {
+    if (factor > 0 && factor < 1) return this.downscaleSelection(Math.round(1 / factor));
+    const k = Math.floor(factor);
+    const bounds = this.selectionBounds();
+    if (k < 2 || !bounds) return false;
+    const origin = this.scaledOrigin(bounds, k);
+    const block: GridPoint[] = [];
+    for (let x = 0; x < k; x++) for (let y = 0; y < k; y++) for (let z = 0; z < k; z++) block.push({ x, y, z });
+    return this.transformSelection(p => {
+      return block.map(d => ({
+        x: origin.x + (p.x - bounds.min.x) * k + d.x,
+        y: origin.y + (p.y - bounds.min.y) * k + d.y,
+        z: origin.z + (p.z - bounds.min.z) * k + d.z
+      }));
+    });
+  }
+
+  private downscaleSelection(k: number): boolean {
+    const bounds = this.selectionBounds();
+    if (k < 2 || !bounds) return false;
+    const origin = this.scaledOrigin(bounds, 1 / k);
+    const blockOf = (p: GridPoint) => ({
+      x: Math.floor((p.x - bounds.min.x) / k),
+      y: Math.floor((p.y - bounds.min.y) / k),
+      z: Math.floor((p.z - bounds.min.z) / k)
+    });
+
+    // Voxels of each block grouped by color and material; the first of the largest group stays
+    const blocks = new Map<string, Map<string, SimulationVoxel[]>>();
+    this.voxels.forEach(v => {
+      if (!this.selectedVoxelIds.has(v.id)) return;
+      const b = blockOf(v);
+      const blockKey = voxelKey(b.x, b.y, b.z);
+      let groups = blocks.get(blockKey);
+      if (!groups) {
+        groups = new Map();
+        blocks.set(blockKey, groups);
+      }
+      const look = `${v.color.getHex()}:${v.material}`;
+      const group = groups.get(look);
+      if (group) group.push(v);
+      else groups.set(look, [v]);
+    });
+    const kept = new Set<SimulationVoxel>();
+    blocks.forEach(groups => {
+      let largest: SimulationVoxel[] = [];
+      groups.forEach(group => { if (group.length > largest.length) largest = group; });
+      kept.add(largest[0]);
+    });
+
+    return this.transformSelection(p => {
+      if (!kept.has(p)) return [];
+      const b = blockOf(p);
+      return [{ x: origin.x + b.x, y: origin.y + b.y, z: origin.z + b.z }];
+    });
+  }
+
+  /** Where the minimum corner of `bounds` lands when scaled by `factor` about the pivot. */
+  private scaledOrigin(bounds: { min: GridPoint; max: GridPoint }, factor: number): GridPoint {
+    const pivot = this.transformPivot ?? { ...this.selectionPivot(), y: bounds.min.y };
+    return {
+      x: Math.round(pivot.x - (pivot.x - bounds.min.x) * factor),
+      y: Math.round(pivot.y - (pivot.y - bounds.min.y) * factor),
+      z: Math.round(pivot.z - (pivot.z - bounds.min.z) * factor)
+    };
+  }
+
+  private selectionBounds(): { min: GridPoint; max: GridPoint } | null {
+    if (this.selectedVoxelIds.size === 0) return null;
+    const min = { x: Infinity, y: Infinity, z: Infinity };
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+    this.selectedVoxelIds.forEach(id => {
+      const v = this.index.getById(id);
+      if (!v) return;
+      min.x = Math.min(min.x, v.x); min.y = Math.min(min.y, v.y); min.z = Math.min(min.z, v.z);
+      max.x = Math.max(max.x, v.x); max.y = Math.max(max.y, v.y); max.z = Math.max(max.z, v.z);
+    });
+    return { min, max };
+  }
+
+  /** The fixed pivot, or the center of the selection bounds (which may fall between cells). */
+  private selectionPivot(): GridPoint {
+    if (this.transformPivot) return this.transformPivot;
+    const { min, max } = this.selectionBounds() ?? { min: { x: 0, y: 0, z: 0 }, max: { x: 0, y: 0, z: 0 } };
+    return { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 };
+  }
+
+  /**
+   * Moves every selected voxel to the cells `map` returns for it, as one
+   * TRANSFORM command. A voxel mapped to several cells is cloned into the
+   * extra ones and one mapped to none is removed. With symmetry on, the
+   * unselected counterparts of the selection follow it (see
+   * `withSymmetricCounterparts`). Unselected voxels in the way are handled by
+   * the collision policy; `cancel` aborts the whole transform.
+   */
+  private transformSelection(map: (v: SimulationVoxel) => GridPoint[]): boolean {
+    const selected = this.voxels.filter(v => this.selectedVoxelIds.has(v.id));
+    if (selected.length === 0) return false;
+
+    const { placements: planned, moving } = this.withSymmetricCounterparts(selected, map);
+    const resolved = this.resolveCollisions(planned, new Set([...moving].map(v => v.id)));
+    if (!resolved) return false;
+    const { placements, blockers } = resolved;
+    const overwritten = this.collisionPolicy === 'overwrite' ? blockers.size : 0;
+    if (this.voxels.length - moving.size - overwritten + placements.length > CONFIG.MAX_VOXELS) return false;
+
+    const placed = new Set<SimulationVoxel>();
+    const ids = new Set<number>();
+    this.edit('TRANSFORM', () => {
+      if (overwritten > 0) blockers.forEach(v => this.deleteVoxel(v));
+      placements.forEach(({ from, cell }) => {
+        const isSelected = this.selectedVoxelIds.has(from.id);
+        if (!placed.has(from)) {
+          placed.add(from);
+          this.moveVoxel(from, cell.x, cell.y, cell.z);
+          if (isSelected) ids.add(from.id);
+          return;
+        }
+        const copy = this.createVoxel({ id: this.newVoxelId(), ...cell, color: from.color.getHex(), material: from.material });
+        this.insertVoxel(copy);
+        if (isSelected) ids.add(copy.id);
+      });
+      moving.forEach(v => { if (!placed.has(v)) this.deleteVoxel(v); });
+      this.setSelection(ids);
+    });
+
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+    return true;
+  }
+
+  /**
+   * Plans a selection transform under the current symmetry: the unselected
+   * voxel at each symmetric image of a selected voxel moves to the same image
+   * of that voxel's new cells, so both halves of a symmetric model change
+   * together. Returns the placements (the first into a cell wins) and every
+   * voxel that leaves its cell.
+   */
+  private withSymmetricCounterparts(selected: SimulationVoxel[], map: (v: SimulationVoxel) => GridPoint[]) {
+    const moving = new Set(selected);
+    const placements: { from: SimulationVoxel; cell: GridPoint }[] = [];
+    const taken = new Set<string>();
+    const place = (from: SimulationVoxel, cell: GridPoint) => {
+      const key = voxelKey(cell.x, cell.y, cell.z);
+      if (taken.has(key)) return;
+      taken.add(key);
+      placements.push({ from, cell });
+    };
+
+    const targets = selected.map(from => ({ from, cells: map(from) }));
+    targets.forEach(({ from, cells }) => cells.forEach(cell => place(from, cell)));
+    if (!this.hasSymmetry) return { placements, moving };
+
+    targets.forEach(({ from, cells }) => {
+      const cellImages = cells.map(cell => this.symmetryImages(cell));
+      // Image i of a cell is always produced by the same reflection or rotation
+      this.symmetryImages(from).forEach((image, i) => {
+        const counterpart = this.index.get(image.x, image.y, image.z);
+        if (i === 0 || !counterpart || moving.has(counterpart)) return;
+        moving.add(counterpart);
+        cellImages.forEach(images => place(counterpart, images[i]));
+      });
+    });
+    return { placements, moving };
+  }
+
+  /** Repeats each placement at the symmetric images of its cell. The first placement into a cell wins. */
+  private withSymmetricPlacements<T extends { cell: GridPoint }>(placements: T[]): T[] {
+    if (!this.hasSymmetry) return placements;
+    const seen = new Set<string>();
+    const result: T[] = [];
+    placements.forEach(p => this.symmetryImages(p.cell).forEach(cell => {
+      const key = voxelKey(cell.x, cell.y, cell.z);
+      if (seen.has(key)) return;
+      seen.add(key);
+      result.push({ ...p, cell });
+    }));
+    return result;
+  }
+
+  /**
+   * Applies the collision policy to placements into occupied cells. Voxels in
+   * `movable` are moving out of the way and never collide. Returns the
+   * placements to carry out and the voxels in the way, or null to cancel.
+   */
+  private resolveCollisions<T extends { cell: GridPoint }>(placements: T[], movable: Set<number>): { placements: T[]; blockers: Set<SimulationVoxel> } | null {
+    const blockers = new Set<SimulationVoxel>();
+    const kept = placements.filter(({ cell }) => {
+      const occupant = this.index.get(cell.x, cell.y, cell.z);
+      if (!occupant || movable.has(occupant.id)) return true;
+      blockers.add(occupant);
+      return this.collisionPolicy === 'overwrite';
+    });
+    if (blockers.size > 0 && this.collisionPolicy === 'cancel') return null;
+    return { placements: kept, blockers };
+  }
+
+  // --- Volume (selection, or the whole model when nothing is selected) ---
+
+  private volumeScope(): SimulationVoxel[] {
+    return this.selectedVoxelIds.size > 0 ? this.voxels.filter(v => this.selectedVoxelIds.has(v.id)) : [...this.voxels];
+  }
+
+  /** Removes everything deeper than `thickness` below the outside surface as one HOLLOW command. */
+  public hollow(thickness: number): boolean {
+    const scope = this.volumeScope();
+    const inner = new Set(hollowCells(scope, Math.max(1, Math.floor(thickness))).map(c => voxelKey(c.x, c.y, c.z)));
+    return this.removeVolume(scope, inner, 'HOLLOW');
+  }
+
+  /** Fills cavities the solid fully encloses with the current color, e.g. to make a shell solid again. */
+  public fillInterior(): boolean {
+    return this.fillCells(enclosedCells(this.volumeScope()), 'FILL_INTERIOR');
+  }
+
+  /** Grows the walls one layer into the enclosed cavity, copying the wall they grow from. */
+  public thickenWalls(): boolean {
+    const grown = thickenCells(this.volumeScope());
+    if (grown.length === 0 || this.voxels.length + grown.length > CONFIG.MAX_VOXELS) return false;
+    this.edit('THICKEN', () => {
+      const added = grown.map(({ cell, from }) => {
+        const wall = this.index.get(from.x, from.y, from.z)!;
+        const v = this.createVoxel({ id: this.newVoxelId(), ...cell, color: wall.color.getHex(), material: wall.material });
+        this.insertVoxel(v);
+        return v.id;
+      });
+      // New wall layers join a selection they grew out of
+      if (this.selectedVoxelIds.size > 0) this.setSelection(new Set([...this.selectedVoxelIds, ...added]));
+    });
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+    return true;
+  }
+
+  /** Peels one layer off the inside of walls around an enclosed cavity without opening the shell. */
+  public thinWalls(): boolean {
+    const scope = this.volumeScope();
+    const inner = new Set(thinCells(scope).map(c => voxelKey(c.x, c.y, c.z)));
+    return this.removeVolume(scope, inner, 'THIN');
+  }
+
+  private removeVolume(scope: SimulationVoxel[], keys: Set<string>, type: CommandType): boolean {
+    const removed = scope.filter(v => keys.has(voxelKey(v.x, v.y, v.z)));
+    if (removed.length === 0) return false;
+    this.edit(type, () => {
+      removed.forEach(v => this.deleteVoxel(v));
+      if (this.selectedVoxelIds.size > 0) {
+        const kept = new Set(this.selectedVoxelIds);
+        removed.forEach(v => kept.delete(v.id));
+        this.setSelection(kept);
+      }
+    });
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+    return true;
+  }
+
+  // --- Connectivity ---
+
+  /**
+   * Face-connected groups touching neither the floor nor the main body (the
+   * largest group), such as strays left by AI generation.
+   */
+  public floatingGroups(): SimulationVoxel[][] {
+    const groups = this.connectedGroups();
+    const main = groups.reduce((a, b) => (b.length > a.length ? b : a), []);
+    return groups.filter(g => g !== main && !g.some(v => v.y <= GROUND_LAYER));
+  }
+
+  /**
+   * Face-connected groups next to the `removed` cells that reached the floor
+   * only through them: the ones an edit left without support. Groups that
+   * were floating already are left alone.
+   */
+  private strandedGroups(removed: readonly GridPoint[]): SimulationVoxel[][] {
+    const removedKeys = new Set(removed.map(c => voxelKey(c.x, c.y, c.z)));
+    const seen = new Set<number>();
+    const groups: SimulationVoxel[][] = [];
+    removed.forEach(cell => this.faceNeighbors(cell).forEach(n => {
+      if (seen.has(n.id)) return;
+      const group = this.floodRegion(n, () => true);
+      group.forEach(v => seen.add(v.id));
+      if (!group.some(v => v.y <= GROUND_LAYER) && this.reachesGround(group, removedKeys)) groups.push(group);
+    }));
+    return groups;
+  }
+
+  /** Whether `group` has a face-connected path to the floor while the `filled` cells count as solid. */
+  private reachesGround(group: SimulationVoxel[], filled: Set<string>): boolean {
+    const queue: GridPoint[] = group.map(v => ({ x: v.x, y: v.y, z: v.z }));
+    const visited = new Set(queue.map(c => voxelKey(c.x, c.y, c.z)));
+    for (let head = 0; head < queue.length; head++) {
+      const c = queue[head];
+      if (c.y <= GROUND_LAYER) return true;
+      for (const [dx, dy, dz] of FACE_OFFSETS) {
+        const n = { x: c.x + dx, y: c.y + dy, z: c.z + dz };
+        const key = voxelKey(n.x, n.y, n.z);
+        if (visited.has(key) || (!filled.has(key) && !this.index.get(n.x, n.y, n.z))) continue;
+        visited.add(key);
+        queue.push(n);
+      }
+    }
+    return false;
+  }
+
+  private connectedGroups(): SimulationVoxel[][] {
+    const seen = new Set<number>();
+    const groups: SimulationVoxel[][] = [];
+    this.voxels.forEach(v => {
+      if (seen.has(v.id)) return;
+      const group = this.floodRegion(v, () => true);
+      group.forEach(g => seen.add(g.id));
+      groups.push(group);
+    });
+    return groups;
+  }
+
+  /** Layers a group can drop straight down before resting on a solid cell or the floor. */
+  private dropDistance(group: SimulationVoxel[], isSolid: (x: number, y: number, z: number) => boolean): number {
+    return Math.min(...group.map(v => {
+      let y = v.y - 1;
+      while (y >= GROUND_LAYER && !isSolid(v.x, y, v.z)) y--;
+      return v.y - y - 1;
+    }));
+  }
+
+  public selectFloating(op: SelectionOp = 'replace'): boolean {
+    return this.updateSelection(this.floatingGroups().flat().map(v => v.id), op);
+  }
+
+  public deleteFloating(): boolean {
+    const floating = new Set(this.floatingGroups().flat());
+    if (floating.size === 0) return false;
+    this.edit('DELETE', () => {
+      this.removeWhere(v => floating.has(v));
+      const kept = new Set(this.selectedVoxelIds);
+      floating.forEach(v => kept.delete(v.id));
+      this.setSelection(kept);
+    });
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+    return true;
+  }
+
+  /**
+   * Drops every floating group straight down until it rests on the model or the
+   * floor, as one MOVE command. Lower groups land first so higher ones can stack on them.
+   */
+  public reattachFloating(): boolean {
+    const lowest = (g: SimulationVoxel[]) => Math.min(...g.map(v => v.y));
+    const groups = this.floatingGroups().sort((a, b) => lowest(a) - lowest(b));
+    if (groups.length === 0) return false;
+    this.edit('MOVE', () => groups.forEach(group => {
+      const members = new Set(group);
+      const drop = this.dropDistance(group, (x, y, z) => {
+        const below = this.index.get(x, y, z);
+        return !!below && !members.has(below);
+      });
+      // Bottom-up, so no voxel moves into a cell another member still holds
+      [...group].sort((a, b) => a.y - b.y).forEach(v => this.moveVoxel(v, v.x, v.y - drop, v.z));
+    }));
+    return true;
+  }
+
+  // --- Boolean Operations ---
+
+  /**
+   * What a boolean would do: operand voxels to add in empty cells, scene voxels
+   * to remove, and shared voxels to recolor under the `operand` color rule.
+   */
+  public booleanDiff({ operand, op, offset, colorRule }: BooleanSettings) {
+    const cells = new Map<string, VoxelData>();
+    operand.data.forEach(v => {
+      const x = Math.round(v.x) + offset.x, y = Math.round(v.y) + offset.y, z = Math.round(v.z) + offset.z;
+      cells.set(voxelKey(x, y, z), { ...v, x, y, z });
+    });
+
+    const added: VoxelData[] = [];
+    const removed: SimulationVoxel[] = [];
+    const recolored: { voxel: SimulationVoxel; data: VoxelData }[] = [];
+    cells.forEach(data => {
+      const voxel = this.index.get(data.x, data.y, data.z);
+      if (!voxel) {
+        if (op === 'union' || op === 'xor') added.push(data);
+      } else if (op === 'subtract' || op === 'xor') {
+        removed.push(voxel);
+      } else if (colorRule === 'operand') {
+        recolored.push({ voxel, data });
+      }
+    });
+    if (op === 'intersect') {
+      removed.push(...this.voxels.filter(v => !cells.has(voxelKey(v.x, v.y, v.z))));
+    }
+    return { added, removed, recolored };
+  }
+
+  /** Combines an operand with the scene as one BOOLEAN command. */
+  public applyBoolean(settings: BooleanSettings): boolean {
+    const { added, removed, recolored } = this.booleanDiff(settings);
+    if (added.length + removed.length + recolored.length === 0) return false;
+    if (this.voxels.length - removed.length + added.length > CONFIG.MAX_VOXELS) return false;
+
+    this.edit('BOOLEAN', () => {
+      removed.forEach(v => this.deleteVoxel(v));
+      recolored.forEach(({ voxel, data }) => this.paintVoxel(voxel, data.color, data.material ?? VoxelMaterial.MATTE));
+      added.forEach(data => this.insertVoxel(this.createVoxel({
+        id: this.newVoxelId(), x: data.x, y: data.y, z: data.z, color: data.color, material: data.material ?? VoxelMaterial.MATTE
+      })));
+      this.setSelection(new Set());
+    });
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', 0);
+    return true;
+  }
+
+  // --- Clipboard ---
+
+  /** The selected voxels as plain data, e.g. to save them as a prefab. */
+  public getSelectionData(): VoxelData[] {
+    return this.voxels
+      .filter(v => this.selectedVoxelIds.has(v.id))
+      .map(v => ({ x: v.x, y: v.y, z: v.z, color: v.color.getHex(), material: v.material }));
+  }
+
+  /** Copies the selection to the clipboard. Returns the copied voxels. */
+  public copySelection(): VoxelData[] | null {
+    if (this.selectedVoxelIds.size === 0) return null;
+    this.setClipboard(this.getSelectionData());
+    return this.clipboard;
+  }
+
+  /** Copies the selection to the clipboard and deletes it as one CUT command. */
+  public cutSelection(): VoxelData[] | null {
+    const copied = this.copySelection();
+    if (!copied) return null;
+    this.edit('CUT', () => {
+      this.removeWhere(v => this.selectedVoxelIds.has(v.id));
+      this.setSelection(new Set());
+    });
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', 0);
+    return copied;
+  }
+
+  /**
+   * Replaces the clipboard, e.g. with voxels read from the system clipboard.
+   * Positions are stored relative to the center of the bottom layer, which is
+   * where a paste is anchored. The clipboard outlives loading another model.
+   */
+  public setClipboard(voxels: VoxelData[]) {
+    this.clipboard = anchorAtBase(voxels);
+  }
+
+  /** Cells the clipboard (or other base-anchored voxels) would fill when pasted at `anchor`. */
+  public pasteCells(anchor: GridPoint, voxels: readonly VoxelData[] = this.clipboard): GridPoint[] {
+    return voxels.map(v => ({ x: anchor.x + v.x, y: anchor.y + v.y, z: anchor.z + v.z }));
+  }
+
+  /** Pastes the clipboard at `anchor` as one PASTE command and selects the pasted voxels. */
+  public paste(anchor: GridPoint): boolean {
+    return this.placeVoxels(anchor, this.clipboard, 'PASTE');
+  }
+
+  /** Stamps base-anchored prefab voxels at `anchor` as one STAMP command, leaving the clipboard alone. */
+  public stamp(anchor: GridPoint, voxels: VoxelData[]): boolean {
+    return this.placeVoxels(anchor, voxels, 'STAMP');
+  }
+
+  private placeVoxels(anchor: GridPoint, voxels: readonly VoxelData[], type: CommandType): boolean {
+    if (voxels.length === 0) return false;
+    const resolved = this.resolveCollisions(this.withSymmetricPlacements(voxels.map(data => ({
+      data, cell: { x: anchor.x + data.x, y: anchor.y + data.y, z: anchor.z + data.z }
+    }))), new Set());
+    if (!resolved) return false;
+    const { placements, blockers } = resolved;
+    const overwritten = this.collisionPolicy === 'overwrite' ? blockers.size : 0;
+    if (placements.length === 0 || this.voxels.length - overwritten + placements.length > CONFIG.MAX_VOXELS) return false;
+
+    this.edit(type, () => {
+      if (overwritten > 0) blockers.forEach(v => this.deleteVoxel(v));
+      const pasted = placements.map(({ data, cell }) =>
+        this.createVoxel({ id: this.newVoxelId(), ...cell, color: data.color, material: data.material ?? VoxelMaterial.MATTE }));
+      pasted.forEach(v => this.insertVoxel(v));
+      this.setSelection(new Set(pasted.map(v => v.id)));
+    });
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+    return true;
+  }
+
+  public setSelectionMaterial(material: VoxelMaterial): boolean {
+    if (this.selectedVoxelIds.size === 0) return false;
+    this.edit('MATERIAL', () => {
+      this.voxels.forEach(v => {
+        if (this.selectedVoxelIds.has(v.id)) this.paintVoxel(v, v.color.getHex(), material);
+      });
+    });
+    return true;
+  }
+
+  public clearSelection() {
+    // Clicking away is undoable like any other selection change
+    if (this.selectedVoxelIds.size > 0) {
+      this.edit('SELECTION', () => this.setSelection(new Set()));
+    }
+    this.events.emit('selectionChanged', 0);
+  }
+
+  // --- History ---
+
+  /** Runs `fn` as one undoable command. Nested calls join the enclosing command. */
+  public edit(type: CommandType, fn: () => void): boolean {
+    if (this.history.isRecording) { fn(); return true; }
+    this.history.begin(type, this.selectedVoxelIds);
+    try {
+      fn();
+    } catch (e) {
+      // Keep what already ran undoable rather than leaving the command open for every later edit
+      this.commitEdit();
+      throw e;
+    }
+    return this.commitEdit();
+  }
+
+  private commitEdit(): boolean {
+    // A removal that strands voxels keeps the command open until they have landed
+    const removed = this.history.pendingRemovals;
+    if (removed.length > 0 && this.beginCollapse(removed)) return true;
+    const recorded = this.history.commit(this.selectedVoxelIds, id => this.index.getById(id));
+    this.notifyHistory();
+    return recorded;
+  }
+
+  /** History can only be navigated while voxels rest on the grid. */
+  private notifyHistory() {
+    const stable = this._state === AppState.STABLE;
+    this.events.emit('historyChanged', { canUndo: stable && this.history.canUndo, canRedo: stable && this.history.canRedo });
+  }
+
+  private get canNavigateHistory() {
+    return this._state === AppState.STABLE && !this.history.isRecording;
+  }
+
+  public undo(): boolean {
+    if (!this.canNavigateHistory) return false;
+    const command = this.history.undo();
+    if (!command) return false;
+    this.applyCommand(command, true);
+    this.afterHistoryMove();
+    return true;
+  }
+
+  public redo(): boolean {
+    if (!this.canNavigateHistory) return false;
+    const command = this.history.redo();
+    if (!command) return false;
+    this.applyCommand(command, false);
+    this.afterHistoryMove();
+    return true;
+  }
+
+  /** Restores the state of any node in the history tree, including abandoned branches. */
+  public jumpToHistory(id: number): boolean {
+    if (!this.canNavigateHistory) return false;
+    const steps = this.history.jumpTo(id);
+    if (steps.length === 0) return false;
+    steps.forEach(step => this.applyCommand(step.command, step.reverse));
+    this.afterHistoryMove();
+    return true;
+  }
+
+  public renameHistoryNode(id: number, name: string) {
+    this.history.rename(id, name);
+    this.notifyHistory();
+  }
+
+  public setHistoryThumbnail(id: number, thumbnail: string) {
+    this.history.setThumbnail(id, thumbnail);
+    this.notifyHistory();
+  }
+
+  /** History node matching the current scene state. */
+  public get currentHistoryNode() { return this.history.current; }
+
+  public getHistoryTimeline(): HistoryTimelineEntry[] { return this.history.timeline(); }
+
+  /** Replays a command's diff forwards (redo) or backwards (undo). */
+  private applyCommand(command: EditCommand, reverse: boolean) {
+    const toRemove = reverse ? command.added : command.removed;
+    const toRestore = reverse ? command.removed : command.added;
+
+    // Free cells first so restored and moved voxels land in an empty grid
+    toRemove.forEach(r => {
+      const v = this.index.getById(r.id);
+      if (v) this.deleteVoxel(v);
+    });
+    command.changed.forEach(({ before, after }) => {
+      const v = this.index.getById(before.id);
+      if (v) this.applyRecord(v, reverse ? before : after);
+    });
+    if (command.selection) {
+      this.setSelection(new Set(reverse ? command.selection.prev : command.selection.next));
+    }
+    toRestore.forEach(r => this.insertVoxel(this.createVoxel(r)));
+  }
+
+  private afterHistoryMove() {
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+    this.notifyHistory();
+  }
+
+  private setState(state: AppState) {
+    this._state = state;
+    this.events.emit('stateChanged', state);
+    this.notifyHistory();
+  }
+
+  // --- Mutation Primitives (keep the index, subscribers and pending command in sync) ---
+
+  /** Strictly increasing, so voxels created within the same millisecond never share an id. */
+  private newVoxelId(): number {
+    this.lastVoxelId = Math.max(Date.now(), this.lastVoxelId + 1);
+    return this.lastVoxelId;
+  }
+
+  private createVoxel(r: VoxelRecord): SimulationVoxel {
+    return {
+      id: r.id, x: r.x, y: r.y, z: r.z, color: new THREE.Color(r.color), material: r.material,
+      vx: 0, vy: 0, vz: 0, rx: 0, ry: 0, rz: 0, rvx: 0, rvy: 0, rvz: 0
+    };
+  }
+
+  private insertVoxel(v: SimulationVoxel) {
+    this.index.add(v);
+    this.events.emit('voxelAdded', v);
+    this.history.recordAdd(v);
+  }
+
+  private deleteVoxel(v: SimulationVoxel) {
+    this.history.recordRemove(v);
+    this.index.remove(v);
+    this.events.emit('voxelRemoved', v);
+  }
+
+  private moveVoxel(v: SimulationVoxel, x: number, y: number, z: number) {
+    this.history.recordTouch(v);
+    this.index.move(v, x, y, z);
+    this.events.emit('voxelUpdated', v);
+  }
+
+  private paintVoxel(v: SimulationVoxel, color: number, material: VoxelMaterial) {
+    this.history.recordTouch(v);
+    v.color.setHex(color);
+    v.material = material;
+    this.events.emit('voxelUpdated', v);
+  }
+
+  private applyRecord(v: SimulationVoxel, r: VoxelRecord) {
+    this.moveVoxel(v, r.x, r.y, r.z);
+    this.paintVoxel(v, r.color, r.material);
+  }
+
+  /** Replaces the selection, notifying only the voxels whose state flipped. */
+  private setSelection(ids: Set<number>) {
+    const prev = this.selectedVoxelIds;
+    this.selectedVoxelIds = ids;
+    const refresh = (id: number) => {
+      const v = this.index.getById(id);
+      if (v) this.events.emit('voxelUpdated', v);
+    };
+    prev.forEach(id => { if (!ids.has(id)) refresh(id); });
+    ids.forEach(id => { if (!prev.has(id)) refresh(id); });
+  }
+
+  /** Removes every voxel matching the predicate. */
+  private removeWhere(predicate: (v: SimulationVoxel) => boolean) {
+    this.voxels.filter(predicate).forEach(v => this.deleteVoxel(v));
+  }
+
+  // --- Loading & Sessions ---
+
+  public loadInitialModel(data: VoxelData[]) {
+    this.history.clear();
+    this.resetScene(data.map((v, i) => ({ id: i, x: v.x, y: v.y, z: v.z, color: v.color, material: v.material ?? 0 })), []);
+  }
+
+  /** Snapshot of the working session for the auto-save draft. */
+  public getSession(): SceneSession {
+    return {
+      version: CONFIG.DRAFT_VERSION,
+      voxels: this.voxels.map(toRecord),
+      history: this.history.serialize(CONFIG.MAX_DRAFT_HISTORY_BYTES),
+      selection: Array.from(this.selectedVoxelIds),
+      tool: this.buildTool,
+      color: this.selectedColor,
+      material: this.selectedMaterial
+    };
+  }
+
+  /** Restores a session saved by `getSession`, including its undo history. */
+  public restoreSession(session: SceneSession) {
+    this.buildTool = session.tool;
+    this.setBuildProps(session.color, session.material);
+    if (session.history) this.history.restore(session.history);
+    else this.history.clear();
+    this.resetScene(session.voxels, session.selection);
+  }
+
+  private resetScene(records: VoxelRecord[], selection: number[]) {
+    this.restPositions = null;
+    this.ball = null;
+    this.matching = null;
+    records.forEach(r => { if (r.id > this.lastVoxelId) this.lastVoxelId = r.id; });
+    this.index.rebuild(records.map(r => this.createVoxel(r)));
+    this.selectedVoxelIds = new Set(selection.filter(id => this.index.getById(id)));
+    this.events.emit('voxelsReset', this.index.all);
+    this.events.emit('countChanged', this.voxels.length);
+    this.events.emit('selectionChanged', this.selectedVoxelIds.size);
+    this.setState(AppState.STABLE);
+    this.events.emit('modelLoaded', { count: this.voxels.length });
+  }
+
+  public getVoxelData(): VoxelData[] { return this.voxels.map(v => ({ x: +v.x.toFixed(2), y: +v.y.toFixed(2), z: +v.z.toFixed(2), color: v.color.getHex(), material: v.material })); }
+  public getJsonData(): string { return voxelsToJson(this.getVoxelData()); }
+
+  // --- Simulation ---
+
+  public dismantle(): boolean {
+    if (this._state !== AppState.STABLE || this._mode === AppMode.BUILD || this.history.isRecording) return false;
+    this.restPositions = new Map(this.voxels.map(v => [v.id, toRecord(v)]));
+    this.setState(AppState.DISMANTLING);
+    this.voxels.forEach(v => { v.vx = (Math.random() - 0.5) * 0.9; v.vy = Math.random() * 0.7; v.vz = (Math.random() - 0.5) * 0.9; v.rvx = (Math.random() - 0.5) * 0.3; v.rvy = (Math.random() - 0.5) * 0.3; v.rvz = (Math.random() - 0.5) * 0.3; });
+    this.physics.reset(this.voxels, true);
+    return true;
+  }
+
+  /**
+   * Starts the dismantle simulation with every voxel at rest, for effects that
+   * only knock loose what they hit. Effects during a dismantle just add to it.
+   */
+  private beginDemolition(): boolean {
+    if (this._mode === AppMode.BUILD) return false;
+    if (this._state === AppState.DISMANTLING) return true;
+    if (this._state !== AppState.STABLE || this.history.isRecording) return false;
+    this.restPositions = new Map(this.voxels.map(v => [v.id, toRecord(v)]));
+    this.voxels.forEach(v => { v.vx = v.vy = v.vz = 0; v.rvx = v.rvy = v.rvz = 0; });
+    this.physics.reset(this.voxels, false);
+    this.setState(AppState.DISMANTLING);
+    return true;
+  }
+
+  /** Blasts voxels within `radius` of `center` outward, strongest at the center. */
+  public explode(center: GridPoint, radius: number = CONFIG.EXPLOSION_RADIUS, strength: number = CONFIG.EXPLOSION_STRENGTH): boolean {
+    if (!this.beginDemolition()) return false;
+    this.voxels.forEach((v, i) => {
+      const dx = v.x - center.x, dy = v.y - center.y, dz = v.z - center.z;
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (dist > radius) return;
+      this.physics.wake(i, v);
+      const push = strength * (1 - dist / radius) / Math.max(dist, 0.5);
+      // A slight upward bias throws debris up instead of into the floor
+      v.vx += dx * push; v.vy += dy * push + strength * 0.2 * (1 - dist / radius); v.vz += dz * push;
+      v.rvx += (Math.random() - 0.5) * 0.4; v.rvy += (Math.random() - 0.5) * 0.4; v.rvz += (Math.random() - 0.5) * 0.4;
+    });
+    return true;
+  }
+
+  /** Throws the wrecking ball from `origin` on an arc through `target`, replacing one still in flight. */
+  public launchWreckingBall(origin: GridPoint, target: GridPoint, speed: number = CONFIG.WRECKING_BALL_SPEED): boolean {
+    const dx = target.x - origin.x, dy = target.y - origin.y, dz = target.z - origin.z;
+    const frames = Math.max(1, Math.sqrt(dx * dx + dy * dy + dz * dz) / speed);
+    if (!this.beginDemolition()) return false;
+    // Aimed high enough that gravity brings it down onto the target
+    const vy = dy / frames + CONFIG.GRAVITY * (frames + 1) / 2;
+    this.ball = { x: origin.x, y: origin.y, z: origin.z, vx: dx / frames, vy, vz: dz / frames, frames: CONFIG.WRECKING_BALL_FRAMES };
+    return true;
+  }
+
+  /** Center and radius of the wrecking ball while it flies. */
+  public get wreckingBall(): { x: number; y: number; z: number; radius: number } | null {
+    return this.ball && { x: this.ball.x, y: this.ball.y, z: this.ball.z, radius: CONFIG.WRECKING_BALL_RADIUS };
+  }
+
+  /** Moves the wrecking ball one frame and shoves the voxels it overlaps out of its way. */
+  private stepWreckingBall() {
+    const ball = this.ball;
+    if (!ball) return;
+    if (--ball.frames <= 0) { this.ball = null; return; }
+    const radius = CONFIG.WRECKING_BALL_RADIUS;
+    ball.vy -= CONFIG.GRAVITY;
+    ball.x += ball.vx; ball.y += ball.vy; ball.z += ball.vz;
+    if (ball.y < CONFIG.FLOOR_Y + radius) { ball.y = CONFIG.FLOOR_Y + radius; ball.vy *= -0.4; ball.vx *= CONFIG.DAMPING; ball.vz *= CONFIG.DAMPING; }
+
+    // Voxels carry on at least the ball's speed along the contact normal
+    const reach = radius + CONFIG.VOXEL_SIZE / 2;
+    this.voxels.forEach((v, i) => {
+      const dx = v.x - ball.x, dy = v.y - ball.y, dz = v.z - ball.z;
+      const distSq = dx * dx + dy * dy + dz * dz;
+      if (distSq >= reach * reach) return;
+      this.physics.wake(i, v);
+      const dist = Math.sqrt(distSq) || 1e-6;
+      const nx = dx / dist, ny = dy / dist, nz = dz / dist;
+      v.x = ball.x + nx * reach; v.y = ball.y + ny * reach; v.z = ball.z + nz * reach;
+      const closing = (ball.vx - v.vx) * nx + (ball.vy - v.vy) * ny + (ball.vz - v.vz) * nz;
+      if (closing > 0) {
+        v.vx += nx * closing * 1.3; v.vy += ny * closing * 1.3; v.vz += nz * closing * 1.3;
+        v.rvx += (Math.random() - 0.5) * 0.3; v.rvz += (Math.random() - 0.5) * 0.3;
+        // The ball is heavy, but each hit still costs it a little momentum
+        ball.vx *= 0.995; ball.vy *= 0.995; ball.vz *= 0.995;
+      }
+    });
+  }
+
+  /**
+   * Morphs the current voxels into `targetModel`. `now` is the simulation clock
+   * in ms. Pairing sources with targets may take several frames near the voxel
+   * cap; the flight starts once it is done.
+   */
+  public rebuild(targetModel: VoxelData[], now: number = Date.now()): boolean {
+    // A collapse or any other command still recording would be overwritten by the morph
+    if (this._state === AppState.REBUILDING || this._state === AppState.COLLAPSING || this._mode === AppMode.BUILD || this.history.isRecording) return false;
+    // The whole morph is one command, committed once the voxels settle
+    this.history.begin('REBUILD', this.selectedVoxelIds);
+    this.voxels.forEach(v => this.history.recordTouch(v, this.restPositions?.get(v.id)));
+    this.restPositions = null;
+    this.ball = null;
+    const sourceVoxels = [...this.voxels];
+    const originalCount = sourceVoxels.length;
+    const targetVoxels = [...targetModel];
+    if (sourceVoxels.length === 0) sourceVoxels.push(this.createVoxel({ id: -1, x: 0, y: CONFIG.FLOOR_Y + 5, z: 0, color: 0xffffff, material: VoxelMaterial.MATTE }));
+    while (sourceVoxels.length < targetVoxels.length) { const idx = Math.floor(Math.random() * sourceVoxels.length); sourceVoxels.push({ ...sourceVoxels[idx], id: this.newVoxelId(), color: sourceVoxels[idx].color.clone() }); }
+    sourceVoxels.slice(originalCount).forEach(v => this.history.recordAdd(v));
+    this.index.rebuild(sourceVoxels);
+    this.events.emit('voxelsReset', this.index.all);
+    const sources = this.voxels.map(v => ({ x: v.x, y: v.y, z: v.z, color: v.color.getHex(), material: v.material }));
+    const targets = targetVoxels.map(t => ({ x: t.x, y: t.y, z: t.z, color: t.color, material: t.material ?? VoxelMaterial.MATTE }));
+    this.matching = { targets: targetVoxels, run: matchVoxels(sources, targets, this.matchMode) };
+    this.rebuildTargets = [];
+    this.setState(AppState.REBUILDING);
+    this.advanceMatching(now);
+    return true;
+  }
+
+  /** Continues pairing for up to `CONFIG.MATCH_BUDGET_MS`, then launches the flight if pairing is done. */
+  private advanceMatching(now: number) {
+    const deadline = performance.now() + CONFIG.MATCH_BUDGET_MS;
+    let result = this.matching!.run.next();
+    while (!result.done && performance.now() < deadline) result = this.matching!.run.next();
+    if (!result.done) return;
+
+    const targetVoxels = this.matching!.targets;
+    const sourceFor = result.value;
+    this.matching = null;
+    const { plan, delays } = planChoreography(targetVoxels, this.choreography);
+    const mappings: RebuildTarget[] = new Array(this.voxels.length).fill(null);
+    const poseOf = (v: SimulationVoxel) => ({ x: v.x, y: v.y, z: v.z, rx: v.rx, ry: v.ry, rz: v.rz });
+    targetVoxels.forEach((target, t) => {
+        const s = sourceFor[t];
+        if (s !== -1) mappings[s] = { x: target.x, y: target.y, z: target.z, material: target.material ?? VoxelMaterial.MATTE, delay: delays[t], from: poseOf(this.voxels[s]) };
+    });
+    for (let i = 0; i < this.voxels.length; i++) if (!mappings[i]) mappings[i] = { x: this.voxels[i].x, y: this.voxels[i].y, z: this.voxels[i].z, material: this.voxels[i].material, isRubble: true, delay: 0, from: poseOf(this.voxels[i]) };
+    this.rebuildTargets = mappings; this.rebuildPlan = plan; this.rebuildStartTime = now;
+  }
+
+  /**
+   * Starts dropping the groups that lost their support when the `removed`
+   * cells were emptied, lowest first so upper groups can land on lower ones.
+   * Only runs in BUILD mode with structural gravity.
+   */
+  private beginCollapse(removed: readonly GridPoint[]): boolean {
+    if (!this.structuralGravity || this._mode !== AppMode.BUILD || this._state !== AppState.STABLE) return false;
+    const lowest = (g: SimulationVoxel[]) => Math.min(...g.map(v => v.y));
+    const groups = this.strandedGroups(removed).sort((a, b) => lowest(a) - lowest(b));
+    if (groups.length === 0) return false;
+
+    const falling = new Set(groups.flat());
+    const landed = new Set<string>();
+    this.fallingGroups = groups.map(voxels => {
+      const drop = this.dropDistance(voxels, (x, y, z) => {
+        const occupant = this.index.get(x, y, z);
+        return landed.has(voxelKey(x, y, z)) || (!!occupant && !falling.has(occupant));
+      });
+      voxels.forEach(v => {
+        this.history.recordTouch(v);
+        landed.add(voxelKey(v.x, v.y - drop, v.z));
+      });
+      return { voxels, startY: voxels.map(v => v.y), drop, offset: 0, vy: 0, settled: false };
+    });
+    this.setState(AppState.COLLAPSING);
+    return true;
+  }
+
+  /** Snaps every falling group to its landing spot and records the collapse with the edit that caused it. */
+  private settleCollapse() {
+    this.fallingGroups.forEach(g => g.voxels.forEach((v, i) => { v.y = g.startY[i] - g.drop; }));
+    this.fallingGroups = [];
+    this.index.rebuild(this.index.all);
+    this.commitEdit();
+    this.setState(AppState.STABLE);
+  }
+
+  /** Advances the dismantle/rebuild simulation by one frame. */
+  public step(now: number = Date.now()) {
+    if (this._state === AppState.DISMANTLING) {
+        this.stepWreckingBall();
+        this.physics.step(this.voxels);
+    } else if (this._state === AppState.COLLAPSING) {
+        let allSettled = true;
+        this.fallingGroups.forEach(g => {
+            if (g.settled) return;
+            g.vy -= CONFIG.GRAVITY; g.offset += g.vy;
+            if (g.offset <= -g.drop) {
+                g.offset = -g.drop; g.vy *= -0.55;
+                // Too slow to lift off again: rest on the landing layer
+                if (g.vy < CONFIG.GRAVITY * 4) { g.vy = 0; g.settled = true; }
+            }
+            g.voxels.forEach((v, i) => { v.y = g.startY[i] + g.offset; });
+            if (!g.settled) allSettled = false;
+        });
+        if (allSettled) this.settleCollapse();
+    } else if (this._state === AppState.REBUILDING) {
+        if (this.matching) { this.advanceMatching(now); return; }
+        const elapsed = now - this.rebuildStartTime; let allDone = true;
+        const plan = this.rebuildPlan!;
+        this.voxels.forEach((v, i) => {
+            const t = this.rebuildTargets[i]; if (!t) return;
+            if (t.isRubble) { v.vy -= CONFIG.GRAVITY; v.y += v.vy; if (v.y < CONFIG.FLOOR_Y + 0.5) { v.y = CONFIG.FLOOR_Y + 0.5; v.vy = 0; } return; }
+            const progress = plan.travel > 0 ? Math.min(1, Math.max(0, (elapsed - t.delay) / plan.travel)) : 1;
+            if (progress < 1) {
+                allDone = false;
+                if (progress === 0) return;
+                const eased = ease(plan.easing, progress);
+                v.scale = flightPoint(plan, t.from, t, eased, i, v);
+                // Tumbling voxels straighten out as they arrive
+                const unwind = Math.max(0, 1 - eased);
+                v.rx = t.from.rx * unwind; v.ry = t.from.ry * unwind; v.rz = t.from.rz * unwind;
+            } else if (v.x !== t.x || v.y !== t.y || v.z !== t.z || v.scale !== undefined) {
+                v.x = t.x; v.y = t.y; v.z = t.z; v.rx = v.ry = v.rz = 0; delete v.scale;
+            }
+        });
+        if (allDone) { this.rebuildPlan = null; this.index.rebuild(this.index.all); this.commitEdit(); this.setState(AppState.STABLE); this.events.emit('countChanged', this.voxels.length); }
+    }
+  }
+}
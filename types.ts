@@ -13,7 +13,9 @@ export enum AppState {
   /** Voxels are falling and bouncing under physics simulation. */
   DISMANTLING = 'DISMANTLING',
   /** Voxels are lerping towards a new target model structure. */
-  REBUILDING = 'REBUILDING'
+  REBUILDING = 'REBUILDING',
+  /** Build mode with structural gravity: unsupported groups are falling while the rest stays put. */
+  COLLAPSING = 'COLLAPSING'
 }
 
 /** Determines if the user is currently manipulating the scene or just observing. */
@@ -24,8 +26,73 @@ export enum AppMode {
   BUILD = 'BUILD'
 }
 
+/** Ids of click tools contributed by plugins. */
+export type PluginToolId = `plugin:${string}`;
+
 /** Available building interaction types. */
-export type BuildTool = 'pencil' | 'eraser' | 'picker' | 'select' | 'paintBucket';
+export type BuildTool = 'pencil' | 'eraser' | 'picker' | 'select' | 'paintBucket' | 'shape' | 'spray' | 'extrude' | PluginToolId;
+
+/**
+ * How the select tool picks voxels: by dragging (a 3D box, a screen-space lasso
+ * or marquee, or a painted brush) or by clicking (a connected same-color region,
+ * all voxels sharing a color or material, or floating groups).
+ */
+export type SelectionMode = 'box' | 'lasso' | 'marquee' | 'paint' | 'wand' | 'color' | 'material' | 'floating';
+
+/** How a new pick combines with the current selection (plain, Shift, Alt, Shift+Alt). */
+export type SelectionOp = 'replace' | 'add' | 'subtract' | 'intersect';
+
+/** A grid axis, e.g. of a rotation or mirror. */
+export type Axis = 'x' | 'y' | 'z';
+
+/**
+ * Symmetry honored by every editing tool: mirror planes through `origin`
+ * perpendicular to each enabled axis, and `radial` copies (1 = off) rotated
+ * around the vertical line through `origin`.
+ */
+export interface SymmetrySettings {
+  axes: Record<Axis, boolean>;
+  origin: GridPoint;
+  radial: number;
+}
+
+/**
+ * Cross-section view: voxels past `level` along `axis` are clipped from the
+ * render and from picking, keeping the layers at or `below` (or `above`) it.
+ */
+export interface SliceSettings {
+  axis: Axis;
+  level: number;
+  keep: 'below' | 'above';
+}
+
+/** Click effect while the model is viewed: a blast at the clicked voxel, or a ball thrown from the camera. */
+export type DemolishTool = 'explode' | 'wreck';
+
+/** Order and path voxels take to a rebuild target. */
+export type RebuildStyle = 'bottomUp' | 'topDown' | 'spiral' | 'radial' | 'swarm' | 'printer' | 'teleport';
+
+/** Speed curve of each voxel's flight during a rebuild. */
+export type RebuildEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'back';
+
+/** How rebuild sources are paired with targets: nearest first, or minimal total travel. */
+export type RebuildMatching = 'nearest' | 'optimal';
+
+/** How a rebuild plays out; `duration` is the whole transition in ms. */
+export interface RebuildChoreography {
+  style: RebuildStyle;
+  easing: RebuildEasing;
+  duration: number;
+}
+
+/** What a selection transform does with unselected voxels in its way: replace them, keep them instead, or abort. */
+export type CollisionPolicy = 'overwrite' | 'skip' | 'cancel';
+
+/** Footprint of the pencil, eraser and spray brushes. A disc lies flat against the clicked face. */
+export type BrushShape = 'cube' | 'sphere' | 'disc';
+
+/** Primitive drawn by the shape tool. Lines take two clicks, the others a base rectangle and a height. */
+export type ShapeKind = 'line' | 'box' | 'ellipsoid' | 'cylinder';
 
 /** Surface properties for voxel rendering groups. */
 export enum VoxelMaterial {
@@ -72,6 +139,124 @@ export interface SimulationVoxel {
   rvx: number;
   rvy: number;
   rvz: number;
+  // Render scale, only changed mid-rebuild (teleport); absent means 1
+  scale?: number;
+}
+
+/** Integer grid coordinate. */
+export interface GridPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** What the pointer is over, as resolved by the input layer for a build tool. */
+export interface ToolTarget {
+  /** Voxel under the pointer, if any. */
+  voxel?: SimulationVoxel;
+  /** Empty cell against the hit face, where new voxels are placed. */
+  cell: GridPoint;
+  /** Axis-aligned normal of the hit face. */
+  normal?: GridPoint;
+}
+
+/** Plain, serializable copy of a voxel's persistent state, keyed by its simulation id. */
+export interface VoxelRecord {
+  id: number;
+  x: number;
+  y: number;
+  z: number;
+  color: number;
+  material: VoxelMaterial;
+}
+
+/** Kinds of edits recorded in the undo history. */
+export type CommandType = 'ADD' | 'ERASE' | 'FILL' | 'MOVE' | 'COPY' | 'DELETE' | 'MATERIAL' | 'SELECTION' | 'REBUILD' | 'PLUGIN' | 'SHAPE' | 'PAINT' | 'EXTRUDE' | 'TRANSFORM' | 'CUT' | 'PASTE' | 'STAMP' | 'HOLLOW' | 'FILL_INTERIOR' | 'THICKEN' | 'THIN' | 'BOOLEAN';
+
+/** A reversible diff describing one edit. Undo and redo replay it in either direction. */
+export interface EditCommand {
+  type: CommandType;
+  /** Voxels created by the edit, in their final state. */
+  added: VoxelRecord[];
+  /** Voxels destroyed by the edit, in their last state. */
+  removed: VoxelRecord[];
+  /** Voxels that survived the edit but changed position, color or material. */
+  changed: { before: VoxelRecord; after: VoxelRecord }[];
+  /** Selection before and after, only present when the edit changed it. */
+  selection?: { prev: number[]; next: number[] };
+  /** Estimated memory footprint used for the history budget. */
+  bytes: number;
+}
+
+/** One state in the branching edit history. */
+export interface HistoryNode {
+  id: number;
+  parentId: number | null;
+  /** Edit leading from the parent state to this one (absent on the root). */
+  command?: EditCommand;
+  timestamp: number;
+  /** User-given checkpoint name. */
+  name?: string;
+  thumbnail?: string;
+}
+
+/** Flattened history node as listed by the timeline panel. */
+export interface HistoryTimelineEntry {
+  id: number;
+  type?: CommandType;
+  name?: string;
+  timestamp: number;
+  thumbnail?: string;
+  /** Branch nesting level; alternative futures are indented below their fork. */
+  depth: number;
+  isCurrent: boolean;
+  /** True when the node lies on the path from the root to the current state. */
+  isActivePath: boolean;
+}
+
+/** History tree in storable form. Commands reference voxels by id. */
+export interface SerializedHistory {
+  nodes: HistoryNode[];
+  rootId: number;
+  currentId: number;
+  nextId: number;
+  /** [node, child] pairs recording which branch redo follows. */
+  redoTargets: [number, number][];
+}
+
+/** Complete working session kept in the auto-save draft. */
+export interface SessionDraft {
+  version: number;
+  voxels: VoxelRecord[];
+  history?: SerializedHistory;
+  selection: number[];
+  camera: { position: [number, number, number]; target: [number, number, number] };
+  tool: BuildTool;
+  color: number;
+  material: VoxelMaterial;
+}
+
+/** Events emitted by VoxelScene (and re-used by VoxelEngine), keyed by name with their payload. */
+export interface VoxelEvents {
+  voxelAdded: SimulationVoxel;
+  voxelRemoved: SimulationVoxel;
+  /** The voxel moved, was repainted or changed selection state. */
+  voxelUpdated: SimulationVoxel;
+  /** The whole voxel list was replaced (load, morph start). */
+  voxelsReset: SimulationVoxel[];
+  /** A model or session finished loading. */
+  modelLoaded: { count: number };
+  stateChanged: AppState;
+  modeChanged: AppMode;
+  toolChanged: BuildTool;
+  countChanged: number;
+  selectionChanged: number;
+  historyChanged: { canUndo: boolean; canRedo: boolean };
+  colorPicked: { color: number; material: VoxelMaterial };
+  /** The pivot of selection transforms was set, or cleared back to the selection center. */
+  pivotChanged: GridPoint | null;
+  /** Tools, generators, exporters or panels were (un)registered. */
+  pluginsChanged: void;
 }
 
 /** Interpolation target data for morphing transitions. */
@@ -82,6 +267,8 @@ export interface RebuildTarget {
   material: VoxelMaterial;
   delay: number;
   isRubble?: boolean;
+  // Pose the voxel flies from, captured when the rebuild starts
+  from: { x: number; y: number; z: number; rx: number; ry: number; rz: number };
 }
 
 /** Persistent data structure for a named build. */
@@ -91,6 +278,60 @@ export interface SavedModel {
   baseModel?: string;
   timestamp?: number;
   thumbnail?: string; // Base64 image data
+  /** Generator and parameters that produced the build, so it can be regenerated exactly. */
+  generator?: GeneratorSettings;
+}
+
+/** A reusable part saved from a selection, stored relative to the center of its bottom layer. */
+export interface Prefab {
+  name: string;
+  data: VoxelData[];
+  timestamp: number;
+  thumbnail?: string;
+}
+
+/** How the active prefab is stamped: quarter turns about Y, mirrored along X, and color swaps. */
+export interface StampSettings {
+  prefab: Prefab;
+  turns: number;
+  mirror: boolean;
+  swaps: Record<number, number>;
+}
+
+/** How a boolean combines an operand with the scene, cell by cell. */
+export type BooleanOp = 'union' | 'subtract' | 'intersect' | 'xor';
+
+/**
+ * A pending boolean with a saved build or prefab, moved by `offset`. Where
+ * both occupy a cell, `colorRule` decides whose color and material remain.
+ */
+export interface BooleanSettings {
+  operand: { name: string; data: VoxelData[] };
+  op: BooleanOp;
+  offset: GridPoint;
+  colorRule: 'scene' | 'operand';
+}
+
+/** One editable input of a procedural generator. */
+export type GeneratorParamSpec =
+  | { key: string; label: string; type: 'number'; min: number; max: number; step: number; default: number }
+  | { key: string; label: string; type: 'color'; default: number }
+  | { key: string; label: string; type: 'select'; options: { value: string; label: string }[]; default: string };
+
+/** Parameter values keyed by `GeneratorParamSpec.key`. Colors are hex numbers. */
+export type GeneratorParams = Record<string, number | string>;
+
+/** A procedural model source. The same params (including the seed) always yield the same voxels. */
+export interface GeneratorDefinition {
+  id: string;
+  label: string;
+  params: GeneratorParamSpec[];
+  generate: (params: GeneratorParams) => VoxelData[];
+}
+
+export interface GeneratorSettings {
+  id: string;
+  params: GeneratorParams;
 }
 
 /** Source metadata from search grounding. */
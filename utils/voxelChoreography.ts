@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RebuildChoreography, RebuildEasing, RebuildStyle } from '../types';
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Timing and frame of reference shared by every voxel of one rebuild. */
+export interface ChoreographyPlan extends RebuildChoreography {
+  // Flight time of a single voxel, in ms
+  travel: number;
+  center: Point;
+  top: number;
+}
+
+export const DEFAULT_CHOREOGRAPHY: RebuildChoreography = { style: 'bottomUp', easing: 'easeOut', duration: 2000 };
+
+export const REBUILD_STYLES: { value: RebuildStyle; label: string; title: string }[] = [
+  { value: 'bottomUp', label: 'Rise', title: 'Bottom-up: the base lands first' },
+  { value: 'topDown', label: 'Drop', title: 'Top-down: the top forms first' },
+  { value: 'spiral', label: 'Spiral', title: 'Spiral: voxels swirl in around the center as it climbs' },
+  { value: 'radial', label: 'Burst', title: 'Radial burst: voxels shoot out from the center' },
+  { value: 'swarm', label: 'Swarm', title: 'Random swarm: voxels arc in at random' },
+  { value: 'printer', label: 'Print', title: '3D printer: deposited layer by layer from above' },
+  { value: 'teleport', label: 'Warp', title: 'Teleport: voxels shrink away and grow in place' }
+];
+
+export const REBUILD_EASINGS: { value: RebuildEasing; label: string; title: string }[] = [
+  { value: 'linear', label: 'Linear', title: 'Constant speed' },
+  { value: 'easeIn', label: 'In', title: 'Start slow, arrive fast' },
+  { value: 'easeOut', label: 'Out', title: 'Start fast, settle gently' },
+  { value: 'easeInOut', label: 'In-Out', title: 'Slow at both ends' },
+  { value: 'back', label: 'Back', title: 'Overshoot the target and spring back' }
+];
+
+// Share of the duration one voxel spends flying; the rest staggers the departures
+const FLIGHT_SHARE: Record<RebuildStyle, number> = {
+  bottomUp: 0.35, topDown: 0.35, spiral: 0.3, radial: 0.4, swarm: 0.6, printer: 0.08, teleport: 0.25
+};
+
+/** Stable pseudo-random value in [0, 1) for voxel `i`, so previews replay identically. */
+const jitter = (i: number) => {
+  const s = Math.sin(i * 12.9898 + 78.233) * 43758.5453;
+  return s - Math.floor(s);
+};
+
+/** Maps linear progress in [0, 1] onto `easing`. `back` briefly exceeds 1. */
+export function ease(easing: RebuildEasing, t: number): number {
+  switch (easing) {
+    case 'easeIn': return t * t * t;
+    case 'easeOut': return 1 - Math.pow(1 - t, 3);
+    case 'easeInOut': return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(2 - 2 * t, 3) / 2;
+    case 'back': {
+      const c = 1.70158;
+      return 1 + (c + 1) * Math.pow(t - 1, 3) + c * Math.pow(t - 1, 2);
+    }
+    default: return t;
+  }
+}
+
+/**
+ * Departure time (ms after the rebuild starts) of each target under
+ * `choreography`, plus the plan the flights are evaluated against.
+ */
+export function planChoreography(targets: Point[], choreography: RebuildChoreography): { plan: ChoreographyPlan; delays: number[] } {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  targets.forEach(p => {
+    min.x = Math.min(min.x, p.x); min.y = Math.min(min.y, p.y); min.z = Math.min(min.z, p.z);
+    max.x = Math.max(max.x, p.x); max.y = Math.max(max.y, p.y); max.z = Math.max(max.z, p.z);
+  });
+  if (targets.length === 0) { min.x = min.y = min.z = max.x = max.y = max.z = 0; }
+  const span = { x: max.x - min.x, y: max.y - min.y, z: max.z - min.z };
+  const center = { x: (min.x + max.x) / 2, y: (min.y + max.y) / 2, z: (min.z + max.z) / 2 };
+  const maxRadius = Math.max(1e-6, Math.hypot(span.x, span.y, span.z) / 2);
+  const layerCells = (span.x + 1) * (span.z + 1);
+
+  // Each style sorts voxels onto a 0..1 departure order
+  const order = (p: Point, i: number): number => {
+    const height = span.y > 0 ? (p.y - min.y) / span.y : 0;
+    switch (choreography.style) {
+      case 'topDown': return 1 - height;
+      case 'spiral': {
+        // One turn per layer, so the build front climbs as a helix
+        const turn = (Math.atan2(p.z - center.z, p.x - center.x) + Math.PI) / (Math.PI * 2);
+        return (p.y - min.y + turn) / (span.y + 1);
+      }
+      case 'radial': return Math.hypot(p.x - center.x, p.y - center.y, p.z - center.z) / maxRadius;
+      case 'printer': {
+        // Serpentine raster within a layer, layers strictly one after another
+        const row = Math.round(p.x - min.x);
+        const col = Math.round(p.z - min.z);
+        const cell = row * (span.z + 1) + (row % 2 === 0 ? col : span.z - col);
+        return (p.y - min.y + cell / layerCells) / (span.y + 1);
+      }
+      case 'swarm':
+      case 'teleport': return jitter(i);
+      default: return height;
+    }
+  };
+
+  const travel = choreography.duration * FLIGHT_SHARE[choreography.style];
+  const stagger = choreography.duration - travel;
+  return {
+    plan: { ...choreography, travel, center, top: max.y },
+    delays: targets.map((p, i) => Math.min(1, Math.max(0, order(p, i))) * stagger)
+  };
+}
+
+/**
+ * Writes the position of voxel `i` at eased `progress` along its flight from
+ * `from` to `to` into `out`, and returns its render scale.
+ */
+export function flightPoint(plan: ChoreographyPlan, from: Point, to: Point, progress: number, i: number, out: Point): number {
+  const p = progress, q = 1 - progress;
+  // Quadratic bezier through a control point
+  const via = (c: Point) => {
+    out.x = q * q * from.x + 2 * q * p * c.x + p * p * to.x;
+    out.y = q * q * from.y + 2 * q * p * c.y + p * p * to.y;
+    out.z = q * q * from.z + 2 * q * p * c.z + p * p * to.z;
+  };
+  out.x = from.x + (to.x - from.x) * p;
+  out.y = from.y + (to.y - from.y) * p;
+  out.z = from.z + (to.z - from.z) * p;
+
+  switch (plan.style) {
+    case 'spiral': {
+      // Trail the target around the center axis, unwinding half a turn on arrival
+      const angle = q * Math.PI;
+      const dx = out.x - plan.center.x, dz = out.z - plan.center.z;
+      out.x = plan.center.x + dx * Math.cos(angle) - dz * Math.sin(angle);
+      out.z = plan.center.z + dx * Math.sin(angle) + dz * Math.cos(angle);
+      return 1;
+    }
+    case 'radial':
+      via(plan.center);
+      return 1;
+    case 'printer':
+      via({ x: to.x, y: plan.top + 3, z: to.z });
+      return 1;
+    case 'swarm': {
+      const lift = Math.sin(Math.PI * Math.min(1, Math.max(0, p)));
+      const heading = jitter(i + 0.5) * Math.PI * 2;
+      const reach = 2 + jitter(i + 0.25) * 4;
+      out.x += Math.cos(heading) * reach * lift;
+      out.y += (4 + jitter(i + 0.75) * 6) * lift;
+      out.z += Math.sin(heading) * reach * lift;
+      return 1;
+    }
+    case 'teleport': {
+      // Shrink away at the source, then grow at the target
+      const arrived = p >= 0.5;
+      const at = arrived ? to : from;
+      out.x = at.x; out.y = at.y; out.z = at.z;
+      return Math.max(0, arrived ? 2 * p - 1 : 1 - 2 * p);
+    }
+    default:
+      return 1;
+  }
+}
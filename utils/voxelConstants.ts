@@ -25,11 +25,50 @@ export const CONFIG = {
   /** Background clear color for the WebGL context. */
   BG_COLOR: 0xf0f2f5,
   /** Maximum number of voxels allowed in the scene for performance stability. */
-  MAX_VOXELS: 1500,
+  MAX_VOXELS: 50000,
   /** Physics gravity constant. */
   GRAVITY: 0.025,
   /** Physics friction/damping constant. */
   DAMPING: 0.9,
-  /** Interpolation speed for rebuilding transitions. */
-  MORPH_SPEED: 0.12
+  /** Shortest and longest rebuild transition (ms) the duration control allows. */
+  MIN_REBUILD_DURATION: 500,
+  MAX_REBUILD_DURATION: 8000,
+  /** Largest brush radius for the pencil, eraser and spray tools. */
+  MAX_BRUSH_RADIUS: 6,
+  /** Chance that the spray tool recolors a voxel inside its footprint per stamp. */
+  SPRAY_DENSITY: 0.35,
+  /** Height above the floor covered by the box-selection Y range. */
+  MAX_SELECTION_HEIGHT: 64,
+  /** Highest fold count of radial symmetry around the Y axis. */
+  MAX_RADIAL_SYMMETRY: 8,
+  /** Edge length of the translucent symmetry planes drawn in build mode. */
+  SYMMETRY_GIZMO_SIZE: 40,
+  /** Edge length of the work plane grid that replaces the floor as the placement target. */
+  WORK_PLANE_SIZE: 60,
+  /** Thickest shell the hollow operation can leave. */
+  MAX_SHELL_THICKNESS: 6,
+  /** Reach of a demolition blast, in grid units. */
+  EXPLOSION_RADIUS: 6,
+  /** Speed a demolition blast gives the voxels at its center; it fades to zero at the edge. */
+  EXPLOSION_STRENGTH: 1.1,
+  /** Radius of the wrecking ball, in grid units. */
+  WRECKING_BALL_RADIUS: 2.5,
+  /** Launch speed of the wrecking ball per frame. */
+  WRECKING_BALL_SPEED: 1.2,
+  /** Frames the wrecking ball flies before it is removed. */
+  WRECKING_BALL_FRAMES: 240,
+  /** Time (ms) the voxel contact pass may take per frame; voxels beyond it are handled next frame. */
+  PHYSICS_BUDGET_MS: 8,
+  /** Time (ms) rebuild matching may take per frame; a large morph continues next frame. */
+  MATCH_BUDGET_MS: 8,
+  /** Largest color bucket optimal matching solves exactly; bigger ones are refined by swaps. */
+  OPTIMAL_MATCH_LIMIT: 256,
+  /** Memory budget for the undo history in bytes. Oldest edits are dropped beyond it. */
+  MAX_HISTORY_BYTES: 32 * 1024 * 1024,
+  /** Idle time (ms) after an edit before its history thumbnail is captured. */
+  THUMBNAIL_DELAY: 600,
+  /** Format version of the auto-save draft. Version 1 stored the bare voxel array. */
+  DRAFT_VERSION: 2,
+  /** Portion of the auto-save draft (serialized characters) reserved for undo history. */
+  MAX_DRAFT_HISTORY_BYTES: 1.5 * 1024 * 1024
 };
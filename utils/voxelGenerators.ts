@@ -3,8 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { VoxelData } from '../types';
+import { VoxelData, GeneratorDefinition, GeneratorParams, GeneratorParamSpec } from '../types';
 import { COLORS, CONFIG } from './voxelConstants';
+import { createRandom } from './seededRandom';
 
 // Helper to prevent overlapping voxels
 function setBlock(map: Map<string, VoxelData>, x: number, y: number, z: number, color: number) {
@@ -38,138 +39,247 @@ function generateSphere(map: Map<string, VoxelData>, cx: number, cy: number, cz:
     }
 }
 
-export const Generators = {
-    Eagle: (): VoxelData[] => {
-        const map = new Map<string, VoxelData>();
-        // Branch
-        for (let x = -8; x < 8; x++) {
-            const y = Math.sin(x * 0.2) * 1.5;
-            const z = Math.cos(x * 0.1) * 1.5;
-            generateSphere(map, x, y, z, 1.8, COLORS.WOOD);
-            if (Math.random() > 0.7) generateSphere(map, x, y + 2, z + (Math.random() - 0.5) * 3, 1.5, COLORS.GREEN);
-        }
-        // Body
-        const EX = 0, EY = 2, EZ = 2;
-        generateSphere(map, EX, EY + 6, EZ, 4.5, COLORS.DARK, 1.4);
-        // Chest
-        for (let x = EX - 2; x <= EX + 2; x++) for (let y = EY + 4; y <= EY + 9; y++) setBlock(map, x, y, EZ + 3, COLORS.LIGHT);
-        // Wings (Rough approximation)
-        for (let x of [-4, -3, 3, 4]) for (let y = EY + 4; y <= EY + 10; y++) for (let z = EZ - 2; z <= EZ + 3; z++) setBlock(map, x, y, z, COLORS.DARK);
-        // Tail
-        for (let x = EX - 2; x <= EX + 2; x++) for (let y = EY; y <= EY + 4; y++) for (let z = EZ - 5; z <= EZ - 3; z++) setBlock(map, x, y, z, COLORS.WHITE);
-        // Head
-        const HY = EY + 12, HZ = EZ + 1;
-        generateSphere(map, EX, HY, HZ, 2.8, COLORS.WHITE);
-        generateSphere(map, EX, HY - 2, HZ, 2.5, COLORS.WHITE);
-        // Talons
-        [[-2, 0], [-2, 1], [2, 0], [2, 1]].forEach(o => setBlock(map, EX + o[0], EY + o[1], EZ, COLORS.TALON));
-        // Beak
-        [[0, 1], [0, 2], [1, 1], [-1, 1]].forEach(o => setBlock(map, EX + o[0], HY, HZ + 2 + o[1], COLORS.GOLD));
-        setBlock(map, EX, HY - 1, HZ + 3, COLORS.GOLD);
-        // Eyes
-        [[-1.5, COLORS.BLACK], [1.5, COLORS.BLACK]].forEach(o => setBlock(map, EX + o[0], HY + 0.5, HZ + 1.5, o[1]));
-        [[-1.5, COLORS.WHITE], [1.5, COLORS.WHITE]].forEach(o => setBlock(map, EX + o[0], HY + 1.5, HZ + 1.5, o[1]));
-
-        return Array.from(map.values());
-    },
+/** Nearest-neighbour resample around the model's base, so a scaled model keeps its ground level. */
+function rescale(voxels: VoxelData[], scale: number): VoxelData[] {
+    if (scale === 1 || voxels.length === 0) return voxels;
+    const source = new Map<string, VoxelData>();
+    let minX = Infinity, minY = Infinity, minZ = Infinity, maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+    voxels.forEach(v => {
+        source.set(`${v.x},${v.y},${v.z}`, v);
+        minX = Math.min(minX, v.x); minY = Math.min(minY, v.y); minZ = Math.min(minZ, v.z);
+        maxX = Math.max(maxX, v.x); maxY = Math.max(maxY, v.y); maxZ = Math.max(maxZ, v.z);
+    });
 
-    Cat: (): VoxelData[] => {
-        const map = new Map<string, VoxelData>();
-        const CY = CONFIG.FLOOR_Y + 1; const CX = 0, CZ = 0;
-        // Paws
-        generateSphere(map, CX - 3, CY + 2, CZ, 2.2, COLORS.DARK, 1.2);
-        generateSphere(map, CX + 3, CY + 2, CZ, 2.2, COLORS.DARK, 1.2);
-        // Body
-        for (let y = 0; y < 7; y++) {
-            const r = 3.5 - (y * 0.2);
-            generateSphere(map, CX, CY + 2 + y, CZ, r, COLORS.DARK);
-            generateSphere(map, CX, CY + 2 + y, CZ + 2, r * 0.6, COLORS.WHITE);
-        }
-        // Legs
-        for (let y = 0; y < 5; y++) {
-            setBlock(map, CX - 1.5, CY + y, CZ + 3, COLORS.WHITE); setBlock(map, CX + 1.5, CY + y, CZ + 3, COLORS.WHITE);
-            setBlock(map, CX - 1.5, CY + y, CZ + 2, COLORS.WHITE); setBlock(map, CX + 1.5, CY + y, CZ + 2, COLORS.WHITE);
+    // X/Z scale about the origin, Y about the bottom face of the lowest layer
+    const base = minY - 0.5;
+    const result: VoxelData[] = [];
+    for (let x = Math.floor((minX - 0.5) * scale); x <= Math.ceil((maxX + 0.5) * scale); x++) {
+        for (let y = minY; y <= Math.ceil(base + (maxY + 0.5 - base) * scale); y++) {
+            for (let z = Math.floor((minZ - 0.5) * scale); z <= Math.ceil((maxZ + 0.5) * scale); z++) {
+                const v = source.get(`${Math.round(x / scale)},${Math.round(base + (y - base) / scale)},${Math.round(z / scale)}`);
+                if (v) result.push({ ...v, x, y, z });
+            }
         }
-        // Head
-        const CHY = CY + 9;
-        generateSphere(map, CX, CHY, CZ, 3.2, COLORS.LIGHT, 0.8);
-        // Ears
-        [[-2, 1], [2, 1]].forEach(side => {
-            setBlock(map, CX + side[0], CHY + 3, CZ, COLORS.DARK); setBlock(map, CX + side[0] * 0.8, CHY + 3, CZ + 1, COLORS.WHITE);
-            setBlock(map, CX + side[0], CHY + 4, CZ, COLORS.DARK);
-        });
-        // Tail
-        for (let i = 0; i < 12; i++) {
-            const a = i * 0.3, tx = Math.cos(a) * 4.5, tz = Math.sin(a) * 4.5;
-            if (tz > -2) { setBlock(map, CX + tx, CY, CZ + tz, COLORS.DARK); setBlock(map, CX + tx, CY + 1, CZ + tz, COLORS.DARK); }
+    }
+    return result;
+}
+
+const num = (params: GeneratorParams, key: string) => Number(params[key]);
+
+const seedParam: GeneratorParamSpec = { key: 'seed', label: 'Seed', type: 'number', min: 0, max: 99999, step: 1, default: 1 };
+const scaleParam: GeneratorParamSpec = { key: 'scale', label: 'Scale', type: 'number', min: 0.5, max: 3, step: 0.25, default: 1 };
+
+export type BuiltinGenerator = 'Eagle' | 'Cat' | 'Rabbit' | 'Twins';
+
+/** Built-in procedural models. Every random choice goes through the seeded generator. */
+export const GENERATORS: Record<BuiltinGenerator, GeneratorDefinition> = {
+    Eagle: {
+        id: 'Eagle',
+        label: 'Classic Eagle',
+        params: [
+            seedParam, scaleParam,
+            { key: 'foliage', label: 'Foliage', type: 'number', min: 0, max: 1, step: 0.05, default: 0.3 },
+            { key: 'plumage', label: 'Plumage', type: 'color', default: COLORS.DARK },
+            { key: 'head', label: 'Head', type: 'color', default: COLORS.WHITE },
+            { key: 'pose', label: 'Pose', type: 'select', default: 'perched', options: [{ value: 'perched', label: 'Perched' }, { value: 'spread', label: 'Wings Spread' }] }
+        ],
+        generate: (p) => {
+            const map = new Map<string, VoxelData>();
+            const rand = createRandom(num(p, 'seed'));
+            const plumage = num(p, 'plumage'), head = num(p, 'head');
+            // Branch
+            for (let x = -8; x < 8; x++) {
+                const y = Math.sin(x * 0.2) * 1.5;
+                const z = Math.cos(x * 0.1) * 1.5;
+                generateSphere(map, x, y, z, 1.8, COLORS.WOOD);
+                if (rand() < num(p, 'foliage')) generateSphere(map, x, y + 2, z + (rand() - 0.5) * 3, 1.5, COLORS.GREEN);
+            }
+            // Body
+            const EX = 0, EY = 2, EZ = 2;
+            generateSphere(map, EX, EY + 6, EZ, 4.5, plumage, 1.4);
+            // Chest
+            for (let x = EX - 2; x <= EX + 2; x++) for (let y = EY + 4; y <= EY + 9; y++) setBlock(map, x, y, EZ + 3, COLORS.LIGHT);
+            // Wings (Rough approximation)
+            for (let x of [-4, -3, 3, 4]) for (let y = EY + 4; y <= EY + 10; y++) for (let z = EZ - 2; z <= EZ + 3; z++) setBlock(map, x, y, z, plumage);
+            if (p.pose === 'spread') {
+                // Raised wings opening outwards, tapering towards the tips
+                for (let i = 0; i < 7; i++) for (let y = 0; y <= 4 - Math.floor(i / 2); y++) for (let z = EZ - 1; z <= EZ + 2; z++) {
+                    setBlock(map, EX - 5 - i, EY + 7 + i * 0.6 + y, z, plumage);
+                    setBlock(map, EX + 5 + i, EY + 7 + i * 0.6 + y, z, plumage);
+                }
+            }
+            // Tail
+            for (let x = EX - 2; x <= EX + 2; x++) for (let y = EY; y <= EY + 4; y++) for (let z = EZ - 5; z <= EZ - 3; z++) setBlock(map, x, y, z, head);
+            // Head
+            const HY = EY + 12, HZ = EZ + 1;
+            generateSphere(map, EX, HY, HZ, 2.8, head);
+            generateSphere(map, EX, HY - 2, HZ, 2.5, head);
+            // Talons
+            [[-2, 0], [-2, 1], [2, 0], [2, 1]].forEach(o => setBlock(map, EX + o[0], EY + o[1], EZ, COLORS.TALON));
+            // Beak
+            [[0, 1], [0, 2], [1, 1], [-1, 1]].forEach(o => setBlock(map, EX + o[0], HY, HZ + 2 + o[1], COLORS.GOLD));
+            setBlock(map, EX, HY - 1, HZ + 3, COLORS.GOLD);
+            // Eyes
+            [[-1.5, COLORS.BLACK], [1.5, COLORS.BLACK]].forEach(o => setBlock(map, EX + o[0], HY + 0.5, HZ + 1.5, o[1]));
+            [[-1.5, COLORS.WHITE], [1.5, COLORS.WHITE]].forEach(o => setBlock(map, EX + o[0], HY + 1.5, HZ + 1.5, o[1]));
+
+            return rescale(Array.from(map.values()), num(p, 'scale'));
         }
-        // Face
-        setBlock(map, CX - 1, CHY + 0.5, CZ + 2.5, COLORS.GOLD); setBlock(map, CX + 1, CHY + 0.5, CZ + 2.5, COLORS.GOLD);
-        setBlock(map, CX - 1, CHY + 0.5, CZ + 3, COLORS.BLACK); setBlock(map, CX + 1, CHY + 0.5, CZ + 3, COLORS.BLACK);
-        setBlock(map, CX, CHY, CZ + 3, COLORS.TALON);
-        return Array.from(map.values());
     },
 
-    Rabbit: (): VoxelData[] => {
-        const map = new Map<string, VoxelData>();
-        const LOG_Y = CONFIG.FLOOR_Y + 2.5;
-        const RX = 0, RZ = 0;
-        // Log
-        for (let x = -6; x <= 6; x++) {
-            const radius = 2.8 + Math.sin(x * 0.5) * 0.2;
-            generateSphere(map, x, LOG_Y, 0, radius, COLORS.DARK);
-            if (x === -6 || x === 6) generateSphere(map, x, LOG_Y, 0, radius - 0.5, COLORS.WOOD);
-            if (Math.random() > 0.8) setBlock(map, x, LOG_Y + radius, (Math.random() - 0.5) * 2, COLORS.GREEN);
+    Cat: {
+        id: 'Cat',
+        label: 'Cat',
+        params: [
+            scaleParam,
+            { key: 'fur', label: 'Fur', type: 'color', default: COLORS.DARK },
+            { key: 'face', label: 'Face', type: 'color', default: COLORS.LIGHT },
+            { key: 'chest', label: 'Chest & Paws', type: 'color', default: COLORS.WHITE },
+            { key: 'eyes', label: 'Eyes', type: 'color', default: COLORS.GOLD },
+            { key: 'pose', label: 'Pose', type: 'select', default: 'curled', options: [{ value: 'curled', label: 'Tail Curled' }, { value: 'tailUp', label: 'Tail Up' }] }
+        ],
+        generate: (p) => {
+            const map = new Map<string, VoxelData>();
+            const fur = num(p, 'fur'), chest = num(p, 'chest');
+            const CY = CONFIG.FLOOR_Y + 1; const CX = 0, CZ = 0;
+            // Paws
+            generateSphere(map, CX - 3, CY + 2, CZ, 2.2, fur, 1.2);
+            generateSphere(map, CX + 3, CY + 2, CZ, 2.2, fur, 1.2);
+            // Body
+            for (let y = 0; y < 7; y++) {
+                const r = 3.5 - (y * 0.2);
+                generateSphere(map, CX, CY + 2 + y, CZ, r, fur);
+                generateSphere(map, CX, CY + 2 + y, CZ + 2, r * 0.6, chest);
+            }
+            // Legs
+            for (let y = 0; y < 5; y++) {
+                setBlock(map, CX - 1.5, CY + y, CZ + 3, chest); setBlock(map, CX + 1.5, CY + y, CZ + 3, chest);
+                setBlock(map, CX - 1.5, CY + y, CZ + 2, chest); setBlock(map, CX + 1.5, CY + y, CZ + 2, chest);
+            }
+            // Head
+            const CHY = CY + 9;
+            generateSphere(map, CX, CHY, CZ, 3.2, num(p, 'face'), 0.8);
+            // Ears
+            [[-2, 1], [2, 1]].forEach(side => {
+                setBlock(map, CX + side[0], CHY + 3, CZ, fur); setBlock(map, CX + side[0] * 0.8, CHY + 3, CZ + 1, chest);
+                setBlock(map, CX + side[0], CHY + 4, CZ, fur);
+            });
+            // Tail
+            if (p.pose === 'tailUp') {
+                for (let i = 0; i < 10; i++) setBlock(map, CX + Math.sin(i * 0.35) * 1.5, CY + 1 + i, CZ - 4, fur);
+            } else {
+                for (let i = 0; i < 12; i++) {
+                    const a = i * 0.3, tx = Math.cos(a) * 4.5, tz = Math.sin(a) * 4.5;
+                    if (tz > -2) { setBlock(map, CX + tx, CY, CZ + tz, fur); setBlock(map, CX + tx, CY + 1, CZ + tz, fur); }
+                }
+            }
+            // Face
+            setBlock(map, CX - 1, CHY + 0.5, CZ + 2.5, num(p, 'eyes')); setBlock(map, CX + 1, CHY + 0.5, CZ + 2.5, num(p, 'eyes'));
+            setBlock(map, CX - 1, CHY + 0.5, CZ + 3, COLORS.BLACK); setBlock(map, CX + 1, CHY + 0.5, CZ + 3, COLORS.BLACK);
+            setBlock(map, CX, CHY, CZ + 3, COLORS.TALON);
+            return rescale(Array.from(map.values()), num(p, 'scale'));
         }
-        // Body
-        const BY = LOG_Y + 2.5;
-        generateSphere(map, RX - 1.5, BY + 1.5, RZ - 1.5, 1.8, COLORS.WHITE);
-        generateSphere(map, RX + 1.5, BY + 1.5, RZ - 1.5, 1.8, COLORS.WHITE);
-        generateSphere(map, RX, BY + 2, RZ, 2.2, COLORS.WHITE, 0.8);
-        generateSphere(map, RX, BY + 2.5, RZ + 1.5, 1.5, COLORS.WHITE);
-        setBlock(map, RX - 1.2, BY, RZ + 2.2, COLORS.LIGHT); setBlock(map, RX + 1.2, BY, RZ + 2.2, COLORS.LIGHT);
-        setBlock(map, RX - 2.2, BY, RZ - 0.5, COLORS.WHITE); setBlock(map, RX + 2.2, BY, RZ - 0.5, COLORS.WHITE);
-        generateSphere(map, RX, BY + 1.5, RZ - 2.5, 1.0, COLORS.WHITE);
-        // Head
-        const HY = BY + 4.5; const HZ = RZ + 1;
-        generateSphere(map, RX, HY, HZ, 1.7, COLORS.WHITE);
-        generateSphere(map, RX - 1.1, HY - 0.5, HZ + 0.5, 1.0, COLORS.WHITE);
-        generateSphere(map, RX + 1.1, HY - 0.5, HZ + 0.5, 1.0, COLORS.WHITE);
-        // Ears
-        for (let y = 0; y < 5; y++) {
-            const curve = y * 0.2;
-            setBlock(map, RX - 0.8, HY + 1.5 + y, HZ - curve, COLORS.WHITE); setBlock(map, RX - 1.2, HY + 1.5 + y, HZ - curve, COLORS.WHITE);
-            setBlock(map, RX - 1.0, HY + 1.5 + y, HZ - curve + 0.5, COLORS.LIGHT);
-            setBlock(map, RX + 0.8, HY + 1.5 + y, HZ - curve, COLORS.WHITE); setBlock(map, RX + 1.2, HY + 1.5 + y, HZ - curve, COLORS.WHITE);
-            setBlock(map, RX + 1.0, HY + 1.5 + y, HZ - curve + 0.5, COLORS.LIGHT);
+    },
+
+    Rabbit: {
+        id: 'Rabbit',
+        label: 'Rabbit',
+        params: [
+            seedParam, scaleParam,
+            { key: 'moss', label: 'Moss', type: 'number', min: 0, max: 1, step: 0.05, default: 0.2 },
+            { key: 'fur', label: 'Fur', type: 'color', default: COLORS.WHITE },
+            { key: 'log', label: 'Log Bark', type: 'color', default: COLORS.DARK },
+            { key: 'pose', label: 'Ears', type: 'select', default: 'relaxed', options: [{ value: 'relaxed', label: 'Relaxed' }, { value: 'alert', label: 'Alert' }, { value: 'floppy', label: 'Floppy' }] }
+        ],
+        generate: (p) => {
+            const map = new Map<string, VoxelData>();
+            const rand = createRandom(num(p, 'seed'));
+            const fur = num(p, 'fur');
+            const LOG_Y = CONFIG.FLOOR_Y + 2.5;
+            const RX = 0, RZ = 0;
+            // Log
+            for (let x = -6; x <= 6; x++) {
+                const radius = 2.8 + Math.sin(x * 0.5) * 0.2;
+                generateSphere(map, x, LOG_Y, 0, radius, num(p, 'log'));
+                if (x === -6 || x === 6) generateSphere(map, x, LOG_Y, 0, radius - 0.5, COLORS.WOOD);
+                if (rand() < num(p, 'moss')) setBlock(map, x, LOG_Y + radius, (rand() - 0.5) * 2, COLORS.GREEN);
+            }
+            // Body
+            const BY = LOG_Y + 2.5;
+            generateSphere(map, RX - 1.5, BY + 1.5, RZ - 1.5, 1.8, fur);
+            generateSphere(map, RX + 1.5, BY + 1.5, RZ - 1.5, 1.8, fur);
+            generateSphere(map, RX, BY + 2, RZ, 2.2, fur, 0.8);
+            generateSphere(map, RX, BY + 2.5, RZ + 1.5, 1.5, fur);
+            setBlock(map, RX - 1.2, BY, RZ + 2.2, COLORS.LIGHT); setBlock(map, RX + 1.2, BY, RZ + 2.2, COLORS.LIGHT);
+            setBlock(map, RX - 2.2, BY, RZ - 0.5, fur); setBlock(map, RX + 2.2, BY, RZ - 0.5, fur);
+            generateSphere(map, RX, BY + 1.5, RZ - 2.5, 1.0, fur);
+            // Head
+            const HY = BY + 4.5; const HZ = RZ + 1;
+            generateSphere(map, RX, HY, HZ, 1.7, fur);
+            generateSphere(map, RX - 1.1, HY - 0.5, HZ + 0.5, 1.0, fur);
+            generateSphere(map, RX + 1.1, HY - 0.5, HZ + 0.5, 1.0, fur);
+            // Ears
+            for (let y = 0; y < 5; y++) {
+                const curve = p.pose === 'alert' ? 0 : p.pose === 'floppy' ? y * y * 0.3 : y * 0.2;
+                const ey = p.pose === 'floppy' ? HY + 1.5 + y * 0.6 : HY + 1.5 + y;
+                setBlock(map, RX - 0.8, ey, HZ - curve, fur); setBlock(map, RX - 1.2, ey, HZ - curve, fur);
+                setBlock(map, RX - 1.0, ey, HZ - curve + 0.5, COLORS.LIGHT);
+                setBlock(map, RX + 0.8, ey, HZ - curve, fur); setBlock(map, RX + 1.2, ey, HZ - curve, fur);
+                setBlock(map, RX + 1.0, ey, HZ - curve + 0.5, COLORS.LIGHT);
+            }
+            setBlock(map, RX - 0.8, HY + 0.2, HZ + 1.5, COLORS.BLACK); setBlock(map, RX + 0.8, HY + 0.2, HZ + 1.5, COLORS.BLACK);
+            setBlock(map, RX, HY - 0.5, HZ + 1.8, COLORS.TALON);
+            return rescale(Array.from(map.values()), num(p, 'scale'));
         }
-        setBlock(map, RX - 0.8, HY + 0.2, HZ + 1.5, COLORS.BLACK); setBlock(map, RX + 0.8, HY + 0.2, HZ + 1.5, COLORS.BLACK);
-        setBlock(map, RX, HY - 0.5, HZ + 1.8, COLORS.TALON);
-        return Array.from(map.values());
     },
 
-    Twins: (): VoxelData[] => {
-        const map = new Map<string, VoxelData>();
-        function buildMiniEagle(offsetX: number, offsetZ: number, mirror: boolean) {
-            // Branch
-            for (let x = -5; x < 5; x++) {
-                const y = Math.sin(x * 0.4) * 0.5;
-                generateSphere(map, offsetX + x, y, offsetZ, 1.2, COLORS.WOOD);
-                if (Math.random() > 0.8) generateSphere(map, offsetX + x, y + 1, offsetZ, 1, COLORS.GREEN);
+    Twins: {
+        id: 'Twins',
+        label: 'Twin Eagles',
+        params: [
+            seedParam, scaleParam,
+            { key: 'foliage', label: 'Foliage', type: 'number', min: 0, max: 1, step: 0.05, default: 0.2 },
+            { key: 'spacing', label: 'Spacing', type: 'number', min: 6, max: 16, step: 1, default: 10 },
+            { key: 'plumage', label: 'Plumage', type: 'color', default: COLORS.DARK }
+        ],
+        generate: (p) => {
+            const map = new Map<string, VoxelData>();
+            const rand = createRandom(num(p, 'seed'));
+            const plumage = num(p, 'plumage');
+            function buildMiniEagle(offsetX: number, offsetZ: number) {
+                // Branch
+                for (let x = -5; x < 5; x++) {
+                    const y = Math.sin(x * 0.4) * 0.5;
+                    generateSphere(map, offsetX + x, y, offsetZ, 1.2, COLORS.WOOD);
+                    if (rand() < num(p, 'foliage')) generateSphere(map, offsetX + x, y + 1, offsetZ, 1, COLORS.GREEN);
+                }
+                const EX = offsetX, EY = 1.5, EZ = offsetZ;
+                generateSphere(map, EX, EY + 4, EZ, 3.0, plumage, 1.4);
+                for (let x = EX - 1; x <= EX + 1; x++) for (let y = EY + 2; y <= EY + 6; y++) setBlock(map, x, y, EZ + 2, COLORS.LIGHT);
+                for (let x = EX - 1; x <= EX + 1; x++) for (let y = EY + 2; y <= EY + 3; y++) setBlock(map, x, y, EZ - 3, COLORS.WHITE);
+                for (let y = EY + 2; y <= EY + 6; y++) for (let z = EZ - 1; z <= EZ + 2; z++) { setBlock(map, EX - 3, y, z, plumage); setBlock(map, EX + 3, y, z, plumage); }
+                const HY = EY + 8, HZ = EZ + 1;
+                generateSphere(map, EX, HY, HZ, 2.0, COLORS.WHITE);
+                setBlock(map, EX, HY, HZ + 2, COLORS.GOLD); setBlock(map, EX, HY - 0.5, HZ + 2, COLORS.GOLD);
+                setBlock(map, EX - 1, HY + 0.5, HZ + 1, COLORS.BLACK); setBlock(map, EX + 1, HY + 0.5, HZ + 1, COLORS.BLACK);
+                setBlock(map, EX - 1, EY, EZ, COLORS.TALON); setBlock(map, EX + 1, EY, EZ, COLORS.TALON);
             }
-            const EX = offsetX, EY = 1.5, EZ = offsetZ;
-            generateSphere(map, EX, EY + 4, EZ, 3.0, COLORS.DARK, 1.4);
-            for (let x = EX - 1; x <= EX + 1; x++) for (let y = EY + 2; y <= EY + 6; y++) setBlock(map, x, y, EZ + 2, COLORS.LIGHT);
-            for (let x = EX - 1; x <= EX + 1; x++) for (let y = EY + 2; y <= EY + 3; y++) setBlock(map, x, y, EZ - 3, COLORS.WHITE);
-            for (let y = EY + 2; y <= EY + 6; y++) for (let z = EZ - 1; z <= EZ + 2; z++) { setBlock(map, EX - 3, y, z, COLORS.DARK); setBlock(map, EX + 3, y, z, COLORS.DARK); }
-            const HY = EY + 8, HZ = EZ + 1;
-            generateSphere(map, EX, HY, HZ, 2.0, COLORS.WHITE);
-            setBlock(map, EX, HY, HZ + 2, COLORS.GOLD); setBlock(map, EX, HY - 0.5, HZ + 2, COLORS.GOLD);
-            setBlock(map, EX - 1, HY + 0.5, HZ + 1, COLORS.BLACK); setBlock(map, EX + 1, HY + 0.5, HZ + 1, COLORS.BLACK);
-            setBlock(map, EX - 1, EY, EZ, COLORS.TALON); setBlock(map, EX + 1, EY, EZ, COLORS.TALON);
+            const spacing = num(p, 'spacing');
+            buildMiniEagle(-spacing, 2);
+            buildMiniEagle(spacing, -2);
+            return rescale(Array.from(map.values()), num(p, 'scale'));
         }
-        buildMiniEagle(-10, 2, false);
-        buildMiniEagle(10, -2, true);
-        return Array.from(map.values());
     }
 };
+
+/** The schema defaults of a generator. */
+export function defaultParams(generator: { params?: GeneratorParamSpec[] }): GeneratorParams {
+    const params: GeneratorParams = {};
+    (generator.params ?? []).forEach(spec => { params[spec.key] = spec.default; });
+    return params;
+}
+
+/** Runs a generator, filling in defaults for any parameter not given. */
+export function runGenerator(generator: { params?: GeneratorParamSpec[]; generate: GeneratorDefinition['generate'] }, params: GeneratorParams = {}): VoxelData[] {
+    return generator.generate({ ...defaultParams(generator), ...params });
+}
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SimulationVoxel } from '../types';
+
+/** Canonical map key for a grid coordinate. */
+export const voxelKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+/**
+ * Persistent spatial hash over the scene voxels.
+ * Owns the voxel list together with a coordinate-keyed lookup, so adds,
+ * removals and queries are O(1) instead of a scan over all voxels.
+ * Instance order for rendering lives in VoxelRenderLayer.
+ */
+export class VoxelIndex {
+  private list: SimulationVoxel[] = [];
+  private cells = new Map<string, SimulationVoxel>();
+  /** Voxel id -> position in `list`. */
+  private order = new Map<number, number>();
+
+  /** All indexed voxels. Order is stable until the next removal. */
+  public get all(): SimulationVoxel[] { return this.list; }
+
+  public get size() { return this.list.length; }
+
+  public clear() {
+    this.list = [];
+    this.cells.clear();
+    this.order.clear();
+  }
+
+  /** Re-indexes a complete voxel list (load, snapshot restore, end of physics). */
+  public rebuild(voxels: SimulationVoxel[]) {
+    this.clear();
+    voxels.forEach(v => this.add(v));
+  }
+
+  public get(x: number, y: number, z: number): SimulationVoxel | undefined {
+    return this.cells.get(voxelKey(x, y, z));
+  }
+
+  public has(x: number, y: number, z: number): boolean {
+    return this.cells.has(voxelKey(x, y, z));
+  }
+
+  public add(v: SimulationVoxel) {
+    this.order.set(v.id, this.list.length);
+    this.list.push(v);
+    this.cells.set(voxelKey(v.x, v.y, v.z), v);
+  }
+
+  public remove(v: SimulationVoxel) {
+    const key = voxelKey(v.x, v.y, v.z);
+    // Only clear the cell if this voxel owns it (overlapping copies may share a cell)
+    if (this.cells.get(key) === v) this.cells.delete(key);
+
+    const pos = this.order.get(v.id);
+    if (pos === undefined) return;
+    const last = this.list.pop()!;
+    if (last !== v) {
+      this.list[pos] = last;
+      this.order.set(last.id, pos);
+    }
+    this.order.delete(v.id);
+  }
+
+  public getById(id: number): SimulationVoxel | undefined {
+    const pos = this.order.get(id);
+    return pos === undefined ? undefined : this.list[pos];
+  }
+
+  /** Moves a voxel to a new cell, keeping the coordinate lookup in sync. */
+  public move(v: SimulationVoxel, x: number, y: number, z: number) {
+    const key = voxelKey(v.x, v.y, v.z);
+    if (this.cells.get(key) === v) this.cells.delete(key);
+    v.x = x; v.y = y; v.z = z;
+    this.cells.set(voxelKey(x, y, z), v);
+  }
+}
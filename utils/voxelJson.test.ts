@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect } from 'vitest';
+import { AppMode, SessionDraft, VoxelMaterial } from '../types';
+import { VoxelScene } from '../services/VoxelScene';
+import { voxelsToJson, parseVoxelJson, prefabsToJson, parsePrefabFile, parseSessionDraft } from './voxelJson';
+
+describe('voxelJson', () => {
+  it('round-trips voxels through the exchange format', () => {
+    const voxels = [{ x: 1, y: 2, z: 3, color: 0x3b82f6, material: VoxelMaterial.GLOW }];
+    expect(parseVoxelJson(voxelsToJson(voxels))).toEqual(voxels);
+  });
+
+  it('defaults a missing material to matte', () => {
+    expect(parseVoxelJson('[{ "x": 0, "y": 0, "z": 0, "color": 255 }]')[0].material).toBe(VoxelMaterial.MATTE);
+  });
+
+  it('rejects anything that is not a list of well-formed voxels', () => {
+    expect(() => parseVoxelJson('{ "x": 0 }')).toThrow();
+    expect(() => parseVoxelJson('[null]')).toThrow('Invalid voxel');
+    expect(() => parseVoxelJson('[{ "x": "a", "y": 0, "z": 0, "color": 255 }]')).toThrow('Invalid voxel');
+    expect(() => parseVoxelJson('[{ "x": 0, "y": 0, "z": 0, "color": "#zzzzzz" }]')).toThrow('Invalid voxel');
+    expect(() => parseVoxelJson('[{ "x": 0, "y": 0, "z": 0, "color": 255, "material": 7 }]')).toThrow('Invalid voxel');
+  });
+
+  it('reads prefab libraries from files and from the bare list in local storage', () => {
+    const prefabs = [{ name: 'Tree', data: [{ x: 0, y: 0, z: 0, color: 0x10b981, material: VoxelMaterial.MATTE }], timestamp: 1 }];
+    expect(parsePrefabFile(prefabsToJson(prefabs))).toEqual(prefabs.map(p => ({ ...p, thumbnail: undefined })));
+    expect(parsePrefabFile(JSON.stringify(prefabs))[0].name).toBe('Tree');
+  });
+
+  it('rejects prefabs of the wrong shape', () => {
+    expect(() => parsePrefabFile('{ "builds": [] }')).toThrow('Not a prefab library');
+    expect(() => parsePrefabFile('[{ "name": "Tree" }]')).toThrow('Invalid prefab');
+    expect(() => parsePrefabFile('[{ "name": 3, "data": [] }]')).toThrow('Invalid prefab');
+    expect(() => parsePrefabFile('[{ "name": "Tree", "data": [{ "x": 0 }] }]')).toThrow('Invalid voxel');
+  });
+
+  describe('session drafts', () => {
+    const draft = (): SessionDraft => {
+      const scene = new VoxelScene();
+      scene.loadInitialModel([{ x: 0, y: 0, z: 0, color: 0xff0000 }]);
+      scene.setMode(AppMode.BUILD);
+      scene.setTool('pencil');
+      scene.applyTool({ cell: { x: 1, y: 0, z: 0 } });
+      scene.select([0]);
+      return JSON.parse(JSON.stringify({ ...scene.getSession(), camera: { position: [40, 40, 80], target: [0, 0, 0] } }));
+    };
+
+    it('reads back a saved session with its history', () => {
+      const session = draft();
+      expect(parseSessionDraft(JSON.stringify(session))).toEqual(session);
+    });
+
+    it('falls back to the voxels when the rest of the session is damaged', () => {
+      const broken = [
+        { ...draft(), camera: { position: [0, 0] } },
+        { ...draft(), selection: 'all' },
+        { ...draft(), tool: 'laser' },
+        { ...draft(), history: { ...draft().history, currentId: 999 } },
+        { ...draft(), history: { ...draft().history, nodes: [{ id: 0 }] } }
+      ];
+      broken.forEach(session => {
+        expect(parseSessionDraft(JSON.stringify(session))).toEqual([
+          { x: 0, y: 0, z: 0, color: 0xff0000, material: VoxelMaterial.MATTE },
+          { x: 1, y: 0, z: 0, color: expect.any(Number), material: expect.any(Number) }
+        ]);
+      });
+    });
+
+    it('reads version 1 drafts and rejects drafts without readable voxels', () => {
+      expect(parseSessionDraft('[{ "x": 0, "y": 0, "z": 0, "color": 255 }]')).toHaveLength(1);
+      expect(() => parseSessionDraft(JSON.stringify({ ...draft(), voxels: [{ x: 0 }] }))).toThrow('Invalid voxel');
+      expect(() => parseSessionDraft(JSON.stringify({ ...draft(), version: 99 }))).toThrow('Unsupported draft version');
+      expect(() => parseSessionDraft('{"version": 2, "vox')).toThrow();
+    });
+  });
+});
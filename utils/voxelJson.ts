@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VoxelData, VoxelMaterial, VoxelRecord, Prefab, SessionDraft, SerializedHistory, HistoryNode, EditCommand, CommandType, BuildTool, PluginToolId } from '../types';
+import { CONFIG } from './voxelConstants';
+
+/** Serializes voxels in the exchange format of the JSON view: rounded coordinates and `#rrggbb` colors. */
+export const voxelsToJson = (voxels: VoxelData[]): string =>
+  JSON.stringify(voxels.map(v => ({
+    x: +v.x.toFixed(2), y: +v.y.toFixed(2), z: +v.z.toFixed(2),
+    color: '#' + v.color.toString(16).padStart(6, '0'), material: v.material
+  })), null, 2);
+
+const isMaterial = (m: unknown): m is VoxelMaterial => typeof m === 'number' && VoxelMaterial[m] !== undefined;
+
+/** Reads one voxel whose color is a number or a `#rrggbb` string. */
+const parseVoxel = (v: unknown): VoxelData => {
+  if (typeof v !== 'object' || v === null || !('x' in v) || !('y' in v) || !('z' in v) || !('color' in v)) throw new Error('Invalid voxel');
+  const { x, y, z } = v;
+  const color = typeof v.color === 'number' ? v.color : typeof v.color === 'string' ? parseInt(v.color.replace('#', ''), 16) : NaN;
+  const material = 'material' in v && v.material != null ? v.material : VoxelMaterial.MATTE;
+  if (typeof x !== 'number' || typeof y !== 'number' || typeof z !== 'number' || !isMaterial(material)) throw new Error('Invalid voxel');
+  if ([x, y, z, color].some(n => !Number.isFinite(n))) throw new Error('Invalid voxel');
+  return { x, y, z, color, material };
+};
+
+/** Parses the JSON exchange format. Throws if the text is not a list of voxels. */
+export const parseVoxelJson = (text: string): VoxelData[] => {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) throw new Error('Expected a list of voxels');
+  return parsed.map(parseVoxel);
+};
+
+/** Serializes a prefab library for download. */
+export const prefabsToJson = (prefabs: Prefab[]): string => JSON.stringify({ prefabs }, null, 2);
+
+const parsePrefab = (p: unknown): Prefab => {
+  if (typeof p !== 'object' || p === null || !('name' in p) || !('data' in p)) throw new Error('Invalid prefab');
+  const { name, data } = p;
+  if (typeof name !== 'string' || !Array.isArray(data)) throw new Error('Invalid prefab');
+  return {
+    name,
+    data: data.map(parseVoxel),
+    timestamp: 'timestamp' in p && typeof p.timestamp === 'number' ? p.timestamp : Date.now(),
+    thumbnail: 'thumbnail' in p && typeof p.thumbnail === 'string' ? p.thumbnail : undefined
+  };
+};
+
+/** Parses a downloaded prefab library, or the bare prefab list kept in local storage. Throws if it holds no valid prefabs. */
+export const parsePrefabFile = (text: string): Prefab[] => {
+  const parsed: unknown = JSON.parse(text);
+  const prefabs = Array.isArray(parsed) ? parsed
+    : typeof parsed === 'object' && parsed !== null && 'prefabs' in parsed ? parsed.prefabs : null;
+  if (!Array.isArray(prefabs)) throw new Error('Not a prefab library');
+  return prefabs.map(parsePrefab);
+};
+
+const isNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+const isNumberList = (list: unknown): list is number[] => Array.isArray(list) && list.every(isNumber);
+const isPoint = (p: unknown): p is [number, number, number] => isNumberList(p) && p.length === 3;
+
+const BUILTIN_TOOLS: Record<Exclude<BuildTool, PluginToolId>, true> = {
+  pencil: true, eraser: true, picker: true, select: true, paintBucket: true, shape: true, spray: true, extrude: true
+};
+const isBuildTool = (t: unknown): t is BuildTool => typeof t === 'string' && (t in BUILTIN_TOOLS || t.startsWith('plugin:'));
+
+const COMMAND_TYPES: Record<CommandType, true> = {
+  ADD: true, ERASE: true, FILL: true, MOVE: true, COPY: true, DELETE: true, MATERIAL: true, SELECTION: true,
+  REBUILD: true, PLUGIN: true, SHAPE: true, PAINT: true, EXTRUDE: true, TRANSFORM: true, CUT: true, PASTE: true,
+  STAMP: true, HOLLOW: true, FILL_INTERIOR: true, THICKEN: true, THIN: true, BOOLEAN: true
+};
+const isCommandType = (t: unknown): t is CommandType => typeof t === 'string' && t in COMMAND_TYPES;
+
+/** Reads a voxel as stored in drafts and history, with its id. */
+const parseVoxelRecord = (r: unknown): VoxelRecord => {
+  const voxel = parseVoxel(r);
+  if (typeof r !== 'object' || r === null || !('id' in r) || !isNumber(r.id)) throw new Error('Invalid voxel');
+  return { id: r.id, ...voxel, material: voxel.material ?? VoxelMaterial.MATTE };
+};
+
+const parseCommand = (c: unknown): EditCommand => {
+  if (typeof c !== 'object' || c === null || !('type' in c) || !('added' in c) || !('removed' in c) || !('changed' in c) || !('bytes' in c)) throw new Error('Invalid command');
+  const { type, added, removed, changed, bytes } = c;
+  if (!isCommandType(type) || !Array.isArray(added) || !Array.isArray(removed) || !Array.isArray(changed) || !isNumber(bytes)) throw new Error('Invalid command');
+  const command: EditCommand = {
+    type,
+    added: added.map(parseVoxelRecord),
+    removed: removed.map(parseVoxelRecord),
+    changed: changed.map((change: unknown) => {
+      if (typeof change !== 'object' || change === null || !('before' in change) || !('after' in change)) throw new Error('Invalid command');
+      return { before: parseVoxelRecord(change.before), after: parseVoxelRecord(change.after) };
+    }),
+    bytes
+  };
+  if ('selection' in c && c.selection != null) {
+    const { selection } = c;
+    if (typeof selection !== 'object' || !('prev' in selection) || !('next' in selection) || !isNumberList(selection.prev) || !isNumberList(selection.next)) throw new Error('Invalid command');
+    command.selection = { prev: selection.prev, next: selection.next };
+  }
+  return command;
+};
+
+const parseHistoryNode = (n: unknown): HistoryNode => {
+  if (typeof n !== 'object' || n === null || !('id' in n) || !('parentId' in n) || !('timestamp' in n)) throw new Error('Invalid history');
+  const { id, timestamp } = n;
+  const parentId = n.parentId === null ? null : isNumber(n.parentId) ? n.parentId : undefined;
+  if (!isNumber(id) || parentId === undefined || !isNumber(timestamp)) throw new Error('Invalid history');
+  const node: HistoryNode = { id, parentId, timestamp };
+  if ('command' in n && n.command != null) node.command = parseCommand(n.command);
+  if ('name' in n && typeof n.name === 'string') node.name = n.name;
+  if ('thumbnail' in n && typeof n.thumbnail === 'string') node.thumbnail = n.thumbnail;
+  return node;
+};
+
+/** Reads a saved history tree, checking that every node hangs off the root and the current node exists. */
+const parseHistory = (h: unknown): SerializedHistory => {
+  if (typeof h !== 'object' || h === null || !('nodes' in h) || !('rootId' in h) || !('currentId' in h) || !('nextId' in h) || !('redoTargets' in h)) throw new Error('Invalid history');
+  const { rootId, currentId, nextId, redoTargets } = h;
+  if (!Array.isArray(h.nodes) || !isNumber(rootId) || !isNumber(currentId) || !isNumber(nextId) || !Array.isArray(redoTargets)) throw new Error('Invalid history');
+  const nodes = h.nodes.map(parseHistoryNode);
+  const ids = new Set(nodes.map(n => n.id));
+  const linked = nodes.every(n => n.id < nextId && (n.id === rootId ? n.parentId === null : n.parentId !== null && ids.has(n.parentId)));
+  if (ids.size !== nodes.length || !linked || !ids.has(rootId) || !ids.has(currentId)) throw new Error('Invalid history');
+  return {
+    nodes, rootId, currentId, nextId,
+    redoTargets: redoTargets.map((pair: unknown): [number, number] => {
+      if (!isNumberList(pair) || pair.length !== 2) throw new Error('Invalid history');
+      return [pair[0], pair[1]];
+    })
+  };
+};
+
+const parseSession = (d: object, voxels: VoxelRecord[]): SessionDraft => {
+  if (!('selection' in d) || !('camera' in d) || !('tool' in d) || !('color' in d) || !('material' in d)) throw new Error('Invalid session');
+  const { selection, camera, tool, color, material } = d;
+  if (!isNumberList(selection) || !isBuildTool(tool) || !isNumber(color) || !isMaterial(material)) throw new Error('Invalid session');
+  if (typeof camera !== 'object' || camera === null || !('position' in camera) || !('target' in camera) || !isPoint(camera.position) || !isPoint(camera.target)) throw new Error('Invalid session');
+  if (new Set(voxels.map(v => v.id)).size !== voxels.length) throw new Error('Invalid session');
+  return {
+    version: CONFIG.DRAFT_VERSION,
+    voxels,
+    history: 'history' in d && d.history != null ? parseHistory(d.history) : undefined,
+    selection,
+    camera: { position: camera.position, target: camera.target },
+    tool, color, material
+  };
+};
+
+/**
+ * Parses an auto-save draft. Returns the full session, or just the voxels for
+ * version 1 drafts and for sessions whose history, selection, camera or tool
+ * settings do not check out. Throws if the draft holds no readable voxels.
+ */
+export const parseSessionDraft = (text: string): SessionDraft | VoxelData[] => {
+  const parsed: unknown = JSON.parse(text);
+  // Version 1 drafts only stored the voxels
+  if (Array.isArray(parsed)) return parsed.map(parseVoxel);
+  if (typeof parsed !== 'object' || parsed === null || !('version' in parsed) || parsed.version !== CONFIG.DRAFT_VERSION) throw new Error('Unsupported draft version');
+  if (!('voxels' in parsed) || !Array.isArray(parsed.voxels)) throw new Error('Draft has no voxels');
+  const voxels = parsed.voxels.map(parseVoxelRecord);
+  try {
+    return parseSession(parsed, voxels);
+  } catch {
+    // A damaged session still holds a usable model
+    return voxels.map(({ x, y, z, color, material }) => ({ x, y, z, color, material }));
+  }
+};
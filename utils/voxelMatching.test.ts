@@ -0,0 +1,67 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect } from 'vitest';
+import { VoxelMaterial } from '../types';
+import { matchVoxels, MatchPoint } from './voxelMatching';
+
+const RED = 0xff0000, BLUE = 0x0000ff;
+
+const run = (sources: MatchPoint[], targets: MatchPoint[], mode: 'nearest' | 'optimal') => {
+  const matching = matchVoxels(sources, targets, mode);
+  let result = matching.next();
+  while (!result.done) result = matching.next();
+  return result.value;
+};
+
+const point = (x: number, y: number, z: number, color = RED, material = VoxelMaterial.MATTE): MatchPoint => ({ x, y, z, color, material });
+
+// Deterministic scatter, so failures reproduce
+const scatter = (count: number, colors: number[], seed: number): MatchPoint[] =>
+  Array.from({ length: count }, (_, i) => {
+    const h = (k: number) => { const s = Math.sin((i + seed) * 12.9898 + k * 78.233) * 43758.5453; return s - Math.floor(s); };
+    return point(Math.floor(h(1) * 20), Math.floor(h(2) * 20), Math.floor(h(3) * 20), colors[i % colors.length]);
+  });
+
+const travel = (sources: MatchPoint[], targets: MatchPoint[], sourceFor: Int32Array) =>
+  Array.from(sourceFor).reduce((sum, s, t) =>
+    sum + (sources[s].x - targets[t].x) ** 2 + (sources[s].y - targets[t].y) ** 2 + (sources[s].z - targets[t].z) ** 2, 0);
+
+describe('matchVoxels', () => {
+  it('gives every target a distinct source of its own color when there are enough', () => {
+    const sources = scatter(400, [RED, BLUE], 1);
+    const targets = scatter(400, [BLUE, RED], 2);
+    for (const mode of ['nearest', 'optimal'] as const) {
+      const sourceFor = run(sources, targets, mode);
+      expect(new Set(sourceFor).size).toBe(targets.length);
+      expect(Array.from(sourceFor).every((s, t) => sources[s].color === targets[t].color)).toBe(true);
+    }
+  });
+
+  it('borrows the closest remaining color once a color runs out', () => {
+    const sources = [point(0, 0, 0, RED), point(1, 0, 0, 0x0000f0)];
+    const targets = [point(0, 0, 0, 0xee1100), point(1, 0, 0, RED)];
+    const sourceFor = run(sources, targets, 'nearest');
+    expect(new Set(sourceFor).size).toBe(2);
+  });
+
+  it('keeps the shape: the bottom of one model becomes the bottom of the next', () => {
+    const sources = [point(0, 0, 0), point(0, 1, 0), point(0, 2, 0)];
+    const targets = [point(9, 4, 9), point(9, 0, 9), point(9, 2, 9)];
+    expect(Array.from(run(sources, targets, 'nearest'))).toEqual([2, 0, 1]);
+  });
+
+  it('never travels further in optimal mode than nearest first', () => {
+    const sources = scatter(200, [RED], 3);
+    const targets = scatter(200, [RED], 4).map(p => ({ ...p, x: p.x + 30 }));
+    expect(travel(sources, targets, run(sources, targets, 'optimal')))
+      .toBeLessThanOrEqual(travel(sources, targets, run(sources, targets, 'nearest')));
+  });
+
+  it('returns -1 for targets left over when sources run out', () => {
+    const sourceFor = run([point(0, 0, 0)], [point(0, 0, 0), point(1, 0, 0)], 'nearest');
+    expect(Array.from(sourceFor).sort()).toEqual([-1, 0]);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RebuildMatching, VoxelMaterial } from '../types';
+import { CONFIG } from './voxelConstants';
+
+/** One side of a morph: a position, an sRGB hex color and a material. */
+export interface MatchPoint {
+  x: number;
+  y: number;
+  z: number;
+  color: number;
+  material: VoxelMaterial;
+}
+
+// Work between yields, so the caller can check its frame budget: loop
+// iterations, or cells and points visited by nearest-point searches
+const SLICE = 256;
+const SEARCH_SLICE = 50000;
+// Color bucket resolution: 4 levels per channel
+const LEVEL_BITS = 6;
+// Counted like a color distance of 0.4 (out of ~1.7) when only a different material is left
+const MATERIAL_PENALTY = 0.4;
+// Refinement stops once a pass improves fewer than this share of pairs
+const SWAP_CONVERGED = 0.002;
+const MAX_SWAP_PASSES = 8;
+
+const bucketOf = (color: number, material: VoxelMaterial) =>
+  (((color >> 16 & 0xff) >> LEVEL_BITS) << 4 | ((color >> 8 & 0xff) >> LEVEL_BITS) << 2 | (color & 0xff) >> LEVEL_BITS) * 3 + material;
+
+/** Positions scaled so each cloud's bounding box becomes the unit cube. */
+function normalize(points: MatchPoint[]): Float32Array {
+  const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+  points.forEach(p => {
+    min[0] = Math.min(min[0], p.x); min[1] = Math.min(min[1], p.y); min[2] = Math.min(min[2], p.z);
+    max[0] = Math.max(max[0], p.x); max[1] = Math.max(max[1], p.y); max[2] = Math.max(max[2], p.z);
+  });
+  const scale = [0, 1, 2].map(axis => max[axis] > min[axis] ? 1 / (max[axis] - min[axis]) : 0);
+  const out = new Float32Array(points.length * 3);
+  points.forEach((p, i) => {
+    out[i * 3] = scale[0] ? (p.x - min[0]) * scale[0] : 0.5;
+    out[i * 3 + 1] = scale[1] ? (p.y - min[1]) * scale[1] : 0.5;
+    out[i * 3 + 2] = scale[2] ? (p.z - min[2]) * scale[2] : 0.5;
+  });
+  return out;
+}
+
+const distanceSq = (a: Float32Array, i: number, b: Float32Array, j: number) => {
+  const dx = a[i * 3] - b[j * 3], dy = a[i * 3 + 1] - b[j * 3 + 1], dz = a[i * 3 + 2] - b[j * 3 + 2];
+  return dx * dx + dy * dy + dz * dz;
+};
+
+/** Points of one color bucket in a uniform grid over the unit cube, handed out nearest first. */
+class PointPool {
+  size = 0;
+  // Cells and points visited so far, so callers can size their slices by it
+  scanned = 0;
+  private resolution = 1;
+  private cells: number[][] = [];
+
+  constructor(private positions: Float32Array, items: number[], public color: number, public material: VoxelMaterial) {
+    this.fill(items);
+  }
+
+  private cellOf(value: number) {
+    return Math.min(this.resolution - 1, Math.floor(value * this.resolution));
+  }
+
+  private fill(items: number[]) {
+    // About four points per cell
+    this.resolution = Math.max(1, Math.round(Math.cbrt(items.length / 4)));
+    const r = this.resolution;
+    this.cells = Array.from({ length: r * r * r }, () => []);
+    this.size = 0;
+    this.restore(items);
+  }
+
+  /** Puts taken points back. */
+  restore(items: number[]) {
+    const r = this.resolution, p = this.positions;
+    items.forEach(i => this.cells[this.cellOf(p[i * 3]) + r * (this.cellOf(p[i * 3 + 1]) + r * this.cellOf(p[i * 3 + 2]))].push(i));
+    this.size += items.length;
+  }
+
+  /** Removes and returns the point closest to point `j` of `query`, or -1 when empty. */
+  take(query: Float32Array, j: number): number {
+    if (this.size === 0) return -1;
+    const r = this.resolution;
+    // Most cells are empty once the pool has drained: shrink the grid
+    if (r > 1 && this.size < (r * r * r) / 8) this.fill(this.cells.flat());
+
+    const grid = this.resolution;
+    const cx = this.cellOf(query[j * 3]), cy = this.cellOf(query[j * 3 + 1]), cz = this.cellOf(query[j * 3 + 2]);
+    let best = -1, bestCell: number[] | null = null, bestSlot = 0, bestDist = Infinity;
+    const scan = (x: number, y: number, z: number) => {
+      if (x < 0 || y < 0 || z < 0 || x >= grid || y >= grid || z >= grid) return;
+      const cell = this.cells[x + grid * (y + grid * z)];
+      this.scanned += 1 + cell.length;
+      for (let s = 0; s < cell.length; s++) {
+        const d = distanceSq(this.positions, cell[s], query, j);
+        if (d < bestDist) { bestDist = d; best = cell[s]; bestCell = cell; bestSlot = s; }
+      }
+    };
+    // Grow a shell of cells until nothing beyond it can be closer
+    for (let ring = 0; ring < grid; ring++) {
+      for (let dx = -ring; dx <= ring; dx++) {
+        for (let dy = -ring; dy <= ring; dy++) {
+          if (Math.abs(dx) === ring || Math.abs(dy) === ring) {
+            for (let dz = -ring; dz <= ring; dz++) scan(cx + dx, cy + dy, cz + dz);
+          } else {
+            scan(cx + dx, cy + dy, cz - ring);
+            if (ring > 0) scan(cx + dx, cy + dy, cz + ring);
+          }
+        }
+      }
+      const reach = ring / grid;
+      if (best !== -1 && bestDist <= reach * reach) break;
+    }
+    bestCell![bestSlot] = bestCell![bestCell!.length - 1];
+    bestCell!.pop();
+    this.size--;
+    return best;
+  }
+}
+
+/**
+ * Exact minimum-cost assignment of `rows` to `cols` (equal counts) by
+ * shortest augmenting paths. Yields after each row; returns the column per row.
+ */
+function* solveAssignment(cost: (row: number, col: number) => number, n: number): Generator<void, Int32Array> {
+  const u = new Float64Array(n + 1), v = new Float64Array(n + 1);
+  const owner = new Int32Array(n + 1), way = new Int32Array(n + 1);
+  const minv = new Float64Array(n + 1);
+  const used = new Uint8Array(n + 1);
+  for (let row = 1; row <= n; row++) {
+    owner[0] = row;
+    let col0 = 0;
+    minv.fill(Infinity); used.fill(0);
+    do {
+      used[col0] = 1;
+      const row0 = owner[col0];
+      let delta = Infinity, col1 = 0;
+      for (let col = 1; col <= n; col++) {
+        if (used[col]) continue;
+        const reduced = cost(row0 - 1, col - 1) - u[row0] - v[col];
+        if (reduced < minv[col]) { minv[col] = reduced; way[col] = col0; }
+        if (minv[col] < delta) { delta = minv[col]; col1 = col; }
+      }
+      for (let col = 0; col <= n; col++) {
+        if (used[col]) { u[owner[col]] += delta; v[col] -= delta; } else minv[col] -= delta;
+      }
+      col0 = col1;
+    } while (owner[col0] !== 0);
+    do { const col1 = way[col0]; owner[col0] = owner[col1]; col0 = col1; } while (col0);
+    yield;
+  }
+  const result = new Int32Array(n);
+  for (let col = 1; col <= n; col++) result[owner[col] - 1] = col - 1;
+  return result;
+}
+
+/**
+ * Pairs every target with a distinct source for a morph. Sources are bucketed
+ * by color and material and handed out nearest first in normalized space, so
+ * the bottom of one model becomes the bottom of the next and paths rarely
+ * cross. `optimal` then minimizes the total squared travel within each bucket:
+ * exactly for buckets up to `CONFIG.OPTIMAL_MATCH_LIMIT`, by pairwise swaps
+ * beyond it. Yields whenever the caller may check its frame budget, and
+ * returns the source index per target (-1 once sources run out).
+ */
+export function* matchVoxels(sources: MatchPoint[], targets: MatchPoint[], mode: RebuildMatching): Generator<void, Int32Array> {
+  const from = normalize(sources);
+  yield;
+  const to = normalize(targets);
+  const sourceFor = new Int32Array(targets.length).fill(-1);
+  yield;
+
+  const members = new Map<number, number[]>();
+  sources.forEach((s, i) => {
+    const key = bucketOf(s.color, s.material);
+    (members.get(key) ?? members.set(key, []).get(key)!).push(i);
+  });
+  yield;
+  const pools = new Map<number, PointPool>();
+  for (const [key, items] of members) {
+    pools.set(key, new PointPool(from, items, sources[items[0]].color, sources[items[0]].material));
+    yield;
+  }
+
+  let searched = 0;
+  const take = (pool: PointPool, query: Float32Array, j: number) => {
+    const before = pool.scanned;
+    const taken = pool.take(query, j);
+    searched += pool.scanned - before;
+    return taken;
+  };
+
+  // Shuffled, so the far leftovers of a drained pool are spread over the model
+  const order = Array.from(targets.keys());
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  // Own color first; a target only borrows once its bucket has run dry
+  const deferred: number[] = [];
+  for (let k = 0; k < order.length; k++) {
+    const t = order[k];
+    const pool = pools.get(bucketOf(targets[t].color, targets[t].material));
+    if (pool && pool.size > 0) sourceFor[t] = take(pool, to, t);
+    else deferred.push(t);
+    if (searched > SEARCH_SLICE) { searched = 0; yield; }
+  }
+  for (let k = 0; k < deferred.length; k++) {
+    const t = deferred[k], c = targets[t].color;
+    let closest: PointPool | null = null, closestScore = Infinity;
+    for (const pool of pools.values()) {
+      if (pool.size === 0) continue;
+      const dr = ((pool.color >> 16 & 0xff) - (c >> 16 & 0xff)) / 255;
+      const dg = ((pool.color >> 8 & 0xff) - (c >> 8 & 0xff)) / 255;
+      const db = ((pool.color & 0xff) - (c & 0xff)) / 255;
+      const score = Math.sqrt(dr * dr + dg * dg + db * db) + (pool.material === targets[t].material ? 0 : MATERIAL_PENALTY);
+      if (score < closestScore) { closestScore = score; closest = pool; }
+    }
+    if (!closest) break;
+    sourceFor[t] = take(closest, to, t);
+    if (searched > SEARCH_SLICE || k % SLICE === SLICE - 1) { searched = 0; yield; }
+  }
+  if (mode !== 'optimal') return sourceFor;
+
+  // Swapping sources within a bucket never changes which colors land where
+  const groups = new Map<number, number[]>();
+  sourceFor.forEach((s, t) => {
+    if (s === -1) return;
+    const key = bucketOf(sources[s].color, sources[s].material);
+    (groups.get(key) ?? groups.set(key, []).get(key)!).push(t);
+  });
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const pooled = group.map(t => sourceFor[t]);
+    if (group.length <= CONFIG.OPTIMAL_MATCH_LIMIT) {
+      const columns = yield* solveAssignment((row, col) => distanceSq(to, group[row], from, pooled[col]), group.length);
+      group.forEach((t, row) => { sourceFor[t] = pooled[columns[row]]; });
+      continue;
+    }
+    // Too large to solve exactly: uncross pairs whose sources sit near each other's targets
+    const nearby = new PointPool(to, group, 0, VoxelMaterial.MATTE);
+    const neighbors = group.map(() => [] as number[]);
+    for (let k = 0; k < group.length; k++) {
+      // The few targets closest to this pair's source are the likeliest swap partners
+      const picked: number[] = [];
+      for (let n = 0; n < 8 && nearby.size > 0; n++) picked.push(take(nearby, from, sourceFor[group[k]]));
+      neighbors[k] = picked;
+      nearby.restore(picked);
+      if (searched > SEARCH_SLICE) { searched = 0; yield; }
+    }
+    for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+      let swaps = 0;
+      for (let k = 0; k < group.length; k++) {
+        const a = group[k];
+        neighbors[k].forEach(b => {
+          if (a === b) return;
+          const sa = sourceFor[a], sb = sourceFor[b];
+          const current = distanceSq(to, a, from, sa) + distanceSq(to, b, from, sb);
+          if (distanceSq(to, a, from, sb) + distanceSq(to, b, from, sa) < current - 1e-9) {
+            sourceFor[a] = sb; sourceFor[b] = sa; swaps++;
+          }
+        });
+        if (k % SLICE === SLICE - 1) yield;
+      }
+      if (swaps < group.length * SWAP_CONVERGED) break;
+    }
+  }
+  return sourceFor;
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { SimulationVoxel, VoxelMaterial } from '../types';
+import { CONFIG } from './voxelConstants';
+import { VoxelPhysics } from './voxelPhysics';
+
+const REST_Y = CONFIG.FLOOR_Y + 0.5;
+
+const voxel = (id: number, x: number, y: number, z: number): SimulationVoxel => ({
+  id, x, y, z, color: new THREE.Color(0xffffff), material: VoxelMaterial.MATTE,
+  vx: 0, vy: 0, vz: 0, rx: 0, ry: 0, rz: 0, rvx: 0, rvy: 0, rvz: 0
+});
+
+const simulate = (voxels: SimulationVoxel[], frames: number, physics = new VoxelPhysics()) => {
+  for (let i = 0; i < frames; i++) physics.step(voxels);
+  return physics;
+};
+
+describe('VoxelPhysics', () => {
+  it('drops a voxel onto the floor and lets it come to rest', () => {
+    const v = voxel(0, 0, REST_Y + 10, 0);
+    simulate([v], 400);
+    expect(v.y).toBeCloseTo(REST_Y, 1);
+    expect(Math.abs(v.vy)).toBeLessThan(0.01);
+  });
+
+  it('stacks a falling voxel on one resting below instead of passing through', () => {
+    const base = voxel(0, 0, REST_Y, 0);
+    const top = voxel(1, 0, REST_Y + 8, 0);
+    simulate([base, top], 400);
+    expect(base.y).toBeCloseTo(REST_Y, 1);
+    expect(top.y - base.y).toBeGreaterThan(0.9);
+  });
+
+  it('leaves sleeping voxels alone until they are woken', () => {
+    const voxels = [voxel(0, 0, REST_Y + 3, 0)];
+    const physics = new VoxelPhysics();
+    physics.reset(voxels, false);
+    simulate(voxels, 30, physics);
+    expect(voxels[0].y).toBe(REST_Y + 3);
+
+    physics.wake(0, voxels[0]);
+    simulate(voxels, 200, physics);
+    expect(voxels[0].y).toBeCloseTo(REST_Y, 1);
+  });
+
+  it('pushes apart voxels that start inside each other', () => {
+    const a = voxel(0, 0, REST_Y, 0);
+    const b = voxel(1, 0.3, REST_Y, 0);
+    simulate([a, b], 200);
+    expect(Math.abs(a.x - b.x)).toBeGreaterThan(0.9);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SimulationVoxel } from '../types';
+import { CONFIG } from './voxelConstants';
+
+/** Edge of the collision box. Voxels collide as whole grid cells, so an intact model rests exactly as built. */
+const CONTACT_SIZE = 1;
+/** Share of the approaching speed kept after two voxels hit. */
+const RESTITUTION = 0.2;
+/** Sliding and spin kept per contact, so rubble piles come to rest. */
+const CONTACT_FRICTION = 0.92;
+/** Height above the floor rest position at which a voxel counts as lying on it. */
+const GROUNDED_EPSILON = 0.01;
+/** Speed below which a voxel counts as still. */
+const SLEEP_SPEED = 0.04;
+/** Frames a voxel has to stay still before it falls asleep. */
+const SLEEP_FRAMES = 30;
+/** Approach speed at which a moving voxel wakes the sleeping voxel it hits. */
+const WAKE_SPEED = 0.15;
+/**
+ * Distance a woken voxel travels before its old neighbours are woken to check
+ * their support. Over half a cell, so a model's base settling onto the floor
+ * does not wake everything above it.
+ */
+const SPREAD_DISTANCE = 0.6;
+
+// Spatial hash primes per axis
+const HASH_X = 73856093, HASH_Y = 19349663, HASH_Z = 83492791;
+
+/**
+ * Dismantle physics: gravity and floor bounces per voxel, plus voxel-to-voxel
+ * contacts so rubble stacks instead of passing through itself. A spatial hash
+ * over unit cells is the broad phase; touching boxes are pushed apart along the
+ * axis of least overlap and exchange velocity along it.
+ *
+ * Voxels that stay still fall asleep: they are no longer moved and act as fixed
+ * supports, which keeps stacks from sinking and settled piles cheap. A step
+ * also stops at CONFIG.PHYSICS_BUDGET_MS, so a jammed pile at the voxel cap
+ * slows down instead of the frame rate. Buffers are reused between frames, so a
+ * step allocates nothing at a steady voxel count.
+ */
+export class VoxelPhysics {
+  private count = 0;
+  // Voxel the next step starts from, advanced when a frame runs out of time
+  private cursor = 0;
+  // Frame counter, and the frame each voxel was last stepped in
+  private frame = 0;
+  private stepped = new Uint32Array(0);
+  private heads = new Int32Array(0);
+  private next = new Int32Array(0);
+  private mask = 0;
+  // Positions copied into flat arrays for the broad phase, kept in step with each push
+  private posX = new Float64Array(0);
+  private posY = new Float64Array(0);
+  private posZ = new Float64Array(0);
+
+  private awake = new Uint8Array(0);
+  private quiet = new Uint16Array(0);
+  // Resting on the floor or on a supported voxel this frame; supported voxels are not pushed down
+  private supported = new Uint8Array(0);
+  // Where each voxel woke up, and whether it has since moved away and woken its neighbours
+  private originX = new Float32Array(0);
+  private originY = new Float32Array(0);
+  private originZ = new Float32Array(0);
+  private spread = new Uint8Array(0);
+
+  /** Starts simulating `voxels`, either all moving or all asleep until something hits them. */
+  public reset(voxels: readonly SimulationVoxel[], awake: boolean) {
+    const n = voxels.length;
+    this.count = n;
+    this.cursor = 0;
+    if (this.awake.length < n) {
+      const capacity = Math.max(n, this.awake.length * 2);
+      this.next = new Int32Array(capacity);
+      this.stepped = new Uint32Array(capacity);
+      this.posX = new Float64Array(capacity); this.posY = new Float64Array(capacity); this.posZ = new Float64Array(capacity);
+      this.awake = new Uint8Array(capacity); this.quiet = new Uint16Array(capacity); this.supported = new Uint8Array(capacity);
+      this.originX = new Float32Array(capacity); this.originY = new Float32Array(capacity); this.originZ = new Float32Array(capacity);
+      this.spread = new Uint8Array(capacity);
+    }
+    let size = 1024;
+    while (size < n * 2) size *= 2;
+    if (this.heads.length !== size) {
+      this.heads = new Int32Array(size);
+      this.mask = size - 1;
+    }
+    this.awake.fill(0, 0, n);
+    if (awake) voxels.forEach((v, i) => this.wake(i, v));
+  }
+
+  /** Lets the voxel at index `i` move again. */
+  public wake(i: number, v: SimulationVoxel) {
+    if (!this.awake[i]) {
+      this.awake[i] = 1;
+      this.originX[i] = v.x; this.originY[i] = v.y; this.originZ[i] = v.z;
+      this.spread[i] = 0;
+    }
+    this.quiet[i] = 0;
+  }
+
+  /**
+   * Advances the awake voxels by one frame. Past the frame budget the remaining
+   * voxels hold still until the next frame, which starts where this one stopped.
+   */
+  public step(voxels: readonly SimulationVoxel[]) {
+    const n = voxels.length;
+    if (n !== this.count) this.reset(voxels, true);
+    this.frame++;
+
+    this.heads.fill(-1);
+    for (let i = 0; i < n; i++) {
+      const v = voxels[i];
+      this.posX[i] = v.x; this.posY[i] = v.y; this.posZ[i] = v.z;
+      const bucket = this.bucket(Math.floor(v.x), Math.floor(v.y), Math.floor(v.z));
+      this.next[i] = this.heads[bucket];
+      this.heads[bucket] = i;
+    }
+
+    const deadline = performance.now() + CONFIG.PHYSICS_BUDGET_MS;
+    const start = this.cursor;
+    for (let k = 0; k < n; k++) {
+      const i = (start + k) % n;
+      if ((k & 255) === 255 && performance.now() > deadline) { this.cursor = i; return; }
+      if (!this.awake[i]) continue;
+      this.integrate(voxels[i], i);
+      this.resolveContacts(voxels, i);
+      this.settle(voxels, i);
+      this.stepped[i] = this.frame;
+    }
+  }
+
+  private integrate(v: SimulationVoxel, i: number) {
+    const floorY = CONFIG.FLOOR_Y + 0.5;
+    v.vy -= CONFIG.GRAVITY; v.x += v.vx; v.y += v.vy; v.z += v.vz; v.rx += v.rvx; v.ry += v.rvy; v.rz += v.rvz;
+    if (v.y < floorY) { v.y = floorY; v.vy *= -0.55; v.vx *= CONFIG.DAMPING; v.vz *= CONFIG.DAMPING; }
+    this.supported[i] = v.y <= floorY + GROUNDED_EPSILON ? 1 : 0;
+    this.posX[i] = v.x; this.posY[i] = v.y; this.posZ[i] = v.z;
+  }
+
+  /** Pushes voxel `i` out of everything it overlaps. Awake voxels already stepped this frame handled their pair with it. */
+  private resolveContacts(voxels: readonly SimulationVoxel[], i: number) {
+    const { heads, next, awake, stepped, posX, posY, posZ, frame } = this;
+    const cx = Math.floor(posX[i]), cy = Math.floor(posY[i]), cz = Math.floor(posZ[i]);
+    // Cells below first, so the voxel knows whether it is supported before anything lands on it
+    for (let dy = -1; dy <= 1; dy++) {
+      const hy = Math.imul(cy + dy, HASH_Y);
+      for (let dx = -1; dx <= 1; dx++) {
+        const hxy = hy ^ Math.imul(cx + dx, HASH_X);
+        for (let dz = -1; dz <= 1; dz++) {
+          for (let j = heads[(hxy ^ Math.imul(cz + dz, HASH_Z)) & this.mask]; j !== -1; j = next[j]) {
+            if (j === i || (awake[j] && stepped[j] === frame)) continue;
+            if (Math.abs(posX[j] - posX[i]) < CONTACT_SIZE && Math.abs(posY[j] - posY[i]) < CONTACT_SIZE && Math.abs(posZ[j] - posZ[i]) < CONTACT_SIZE) this.collide(voxels, i, j);
+          }
+        }
+      }
+    }
+  }
+
+  /** Wakes the old neighbours of a voxel that moved away, and puts it to sleep once it stays still. */
+  private settle(voxels: readonly SimulationVoxel[], i: number) {
+    const v = voxels[i];
+    if (!this.spread[i]) {
+      const dx = v.x - this.originX[i], dy = v.y - this.originY[i], dz = v.z - this.originZ[i];
+      if (dx * dx + dy * dy + dz * dz > SPREAD_DISTANCE * SPREAD_DISTANCE) {
+        // It left its place: whatever rested on or against it may have lost support
+        this.spread[i] = 1;
+        this.wakeAround(voxels, Math.floor(this.originX[i]), Math.floor(this.originY[i]), Math.floor(this.originZ[i]));
+      }
+    }
+    if (v.vx * v.vx + v.vy * v.vy + v.vz * v.vz > SLEEP_SPEED * SLEEP_SPEED) this.quiet[i] = 0;
+    else if (++this.quiet[i] >= SLEEP_FRAMES) {
+      this.awake[i] = 0;
+      v.vx = v.vy = v.vz = 0; v.rvx = v.rvy = v.rvz = 0;
+    }
+  }
+
+  private wakeAround(voxels: readonly SimulationVoxel[], cx: number, cy: number, cz: number) {
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (let j = this.heads[this.bucket(cx + dx, cy + dy, cz + dz)]; j !== -1; j = this.next[j]) this.wake(j, voxels[j]);
+        }
+      }
+    }
+  }
+
+  /** Separates voxel `i` (awake) from voxel `j` if their boxes overlap. */
+  private collide(voxels: readonly SimulationVoxel[], i: number, j: number) {
+    const a = voxels[i], b = voxels[j];
+    const dx = b.x - a.x, dy = b.y - a.y, dz = b.z - a.z;
+    const ox = CONTACT_SIZE - Math.abs(dx), oy = CONTACT_SIZE - Math.abs(dy), oz = CONTACT_SIZE - Math.abs(dz);
+    if (ox <= 0 || oy <= 0 || oz <= 0) return;
+
+    // A hard enough hit wakes a sleeper; otherwise it holds still like the floor
+    if (!this.awake[j]) {
+      const approach = oy <= ox && oy <= oz ? (a.vy - b.vy) * Math.sign(dy) : ox <= oz ? (a.vx - b.vx) * Math.sign(dx) : (a.vz - b.vz) * Math.sign(dz);
+      if (approach > WAKE_SPEED) this.wake(j, b);
+    }
+    let wa = 1, wb = this.awake[j] ? 1 : 0;
+
+    // Least penetration decides the contact normal, pointing from a to b
+    if (oy <= ox && oy <= oz) {
+      const s = dy < 0 ? -1 : 1;
+      // Stacks hold up from below: a supported voxel takes no push downward
+      if (s > 0 && this.supported[i]) wa = 0;
+      if (s < 0 && this.awake[j] && this.supported[j]) wb = 0;
+      const total = wa + wb;
+      if (total === 0) return;
+      if (s > 0 && wb && !wa) this.supported[j] = 1;
+      if (s < 0 && wa && !wb) this.supported[i] = 1;
+      a.y -= s * oy * wa / total; b.y += s * oy * wb / total;
+      // A held voxel acts like the floor: it gives no bounce of its own
+      const rel = ((wb ? b.vy : 0) - (wa ? a.vy : 0)) * s;
+      if (rel < 0) { const imp = (1 + RESTITUTION) * rel / total; a.vy += imp * wa * s; b.vy -= imp * wb * s; }
+      if (wa) { a.vx *= CONTACT_FRICTION; a.vz *= CONTACT_FRICTION; }
+      if (wb) { b.vx *= CONTACT_FRICTION; b.vz *= CONTACT_FRICTION; }
+    } else if (ox <= oz) {
+      const s = dx < 0 ? -1 : 1;
+      const total = wa + wb;
+      a.x -= s * ox * wa / total; b.x += s * ox * wb / total;
+      const rel = (b.vx - a.vx) * s;
+      if (rel < 0) { const imp = (1 + RESTITUTION) * rel / total; a.vx += imp * wa * s; b.vx -= imp * wb * s; }
+    } else {
+      const s = dz < 0 ? -1 : 1;
+      const total = wa + wb;
+      a.z -= s * oz * wa / total; b.z += s * oz * wb / total;
+      const rel = (b.vz - a.vz) * s;
+      if (rel < 0) { const imp = (1 + RESTITUTION) * rel / total; a.vz += imp * wa * s; b.vz -= imp * wb * s; }
+    }
+    this.posX[i] = a.x; this.posY[i] = a.y; this.posZ[i] = a.z;
+    this.posX[j] = b.x; this.posY[j] = b.y; this.posZ[j] = b.z;
+    if (wa) { a.rvx *= CONTACT_FRICTION; a.rvy *= CONTACT_FRICTION; a.rvz *= CONTACT_FRICTION; }
+    if (wb) { b.rvx *= CONTACT_FRICTION; b.rvy *= CONTACT_FRICTION; b.rvz *= CONTACT_FRICTION; }
+  }
+
+  private bucket(x: number, y: number, z: number): number {
+    return (Math.imul(x, HASH_X) ^ Math.imul(y, HASH_Y) ^ Math.imul(z, HASH_Z)) & this.mask;
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GridPoint, ShapeKind, BrushShape } from '../types';
+
+/** Inclusive integer bounds spanned by a set of corner cells. */
+function boundsOf(points: GridPoint[]) {
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  points.forEach(p => {
+    min.x = Math.min(min.x, p.x); min.y = Math.min(min.y, p.y); min.z = Math.min(min.z, p.z);
+    max.x = Math.max(max.x, p.x); max.y = Math.max(max.y, p.y); max.z = Math.max(max.z, p.z);
+  });
+  return { min, max };
+}
+
+/** Cells on the straight segment between two cells (3D DDA), both ends included. */
+export function rasterizeLine(a: GridPoint, b: GridPoint): GridPoint[] {
+  const dx = b.x - a.x, dy = b.y - a.y, dz = b.z - a.z;
+  const steps = Math.max(Math.abs(dx), Math.abs(dy), Math.abs(dz));
+  if (steps === 0) return [{ ...a }];
+  const cells: GridPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    cells.push({ x: Math.round(a.x + dx * t), y: Math.round(a.y + dy * t), z: Math.round(a.z + dz * t) });
+  }
+  return cells;
+}
+
+/**
+ * Cells of a box, ellipsoid or Y-axis cylinder filling the bounds of `corners`.
+ * A hollow shape keeps only the cells with a face on the outside.
+ */
+export function rasterizeSolid(kind: Exclude<ShapeKind, 'line'>, corners: GridPoint[], hollow: boolean): GridPoint[] {
+  const { min, max } = boundsOf(corners);
+  const cx = (min.x + max.x) / 2, cy = (min.y + max.y) / 2, cz = (min.z + max.z) / 2;
+  // Half extents reach the outer faces of the corner cells
+  const rx = (max.x - min.x) / 2 + 0.5, ry = (max.y - min.y) / 2 + 0.5, rz = (max.z - min.z) / 2 + 0.5;
+
+  const inside = (x: number, y: number, z: number): boolean => {
+    if (x < min.x || x > max.x || y < min.y || y > max.y || z < min.z || z > max.z) return false;
+    const nx = (x - cx) / rx, ny = (y - cy) / ry, nz = (z - cz) / rz;
+    if (kind === 'ellipsoid') return nx * nx + ny * ny + nz * nz <= 1;
+    if (kind === 'cylinder') return nx * nx + nz * nz <= 1;
+    return true;
+  };
+
+  const cells: GridPoint[] = [];
+  for (let x = min.x; x <= max.x; x++) {
+    for (let y = min.y; y <= max.y; y++) {
+      for (let z = min.z; z <= max.z; z++) {
+        if (!inside(x, y, z)) continue;
+        if (hollow && inside(x + 1, y, z) && inside(x - 1, y, z) && inside(x, y + 1, z) &&
+            inside(x, y - 1, z) && inside(x, y, z + 1) && inside(x, y, z - 1)) continue;
+        cells.push({ x, y, z });
+      }
+    }
+  }
+  return cells;
+}
+
+/** Number of anchor clicks a shape needs before it is placed. */
+export const shapeClicks = (kind: ShapeKind) => (kind === 'line' ? 2 : 3);
+
+/** Cells of a shape defined by its anchor clicks (a line's ends, or two base corners and a height). */
+export function rasterizeShape(kind: ShapeKind, anchors: GridPoint[], hollow: boolean): GridPoint[] {
+  if (anchors.length === 0) return [];
+  if (kind === 'line') return rasterizeLine(anchors[0], anchors[anchors.length - 1]);
+  return rasterizeSolid(kind, anchors, hollow);
+}
+
+/**
+ * Cells covered by a brush of the given radius around `center`. A disc is a
+ * sphere flattened onto the plane perpendicular to `normal`.
+ */
+export function brushCells(center: GridPoint, radius: number, shape: BrushShape, normal: GridPoint = { x: 0, y: 1, z: 0 }): GridPoint[] {
+  const cells: GridPoint[] = [];
+  const r2 = (radius + 0.5) * (radius + 0.5);
+  for (let dx = -radius; dx <= radius; dx++) {
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        if (shape !== 'cube' && dx * dx + dy * dy + dz * dz > r2) continue;
+        if (shape === 'disc' && dx * normal.x + dy * normal.y + dz * normal.z !== 0) continue;
+        cells.push({ x: center.x + dx, y: center.y + dy, z: center.z + dz });
+      }
+    }
+  }
+  return cells;
+}
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { VoxelData, VoxelMaterial, Axis, StampSettings } from '../types';
+import { voxelKey } from './voxelIndex';
+
+/**
+ * Snaps voxels to the grid relative to the center of their bottom layer, the
+ * point a paste or stamp is anchored at. Later voxels win shared cells.
+ */
+export function anchorAtBase(voxels: VoxelData[]): VoxelData[] {
+  if (voxels.length === 0) return [];
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  voxels.forEach(v => {
+    min.x = Math.min(min.x, v.x); min.y = Math.min(min.y, v.y); min.z = Math.min(min.z, v.z);
+    max.x = Math.max(max.x, v.x); max.y = Math.max(max.y, v.y); max.z = Math.max(max.z, v.z);
+  });
+  const origin = { x: Math.round((min.x + max.x) / 2), y: Math.round(min.y), z: Math.round((min.z + max.z) / 2) };
+
+  const cells = new Map<string, VoxelData>();
+  voxels.forEach(v => {
+    const x = Math.round(v.x) - origin.x, y = Math.round(v.y) - origin.y, z = Math.round(v.z) - origin.z;
+    cells.set(voxelKey(x, y, z), { x, y, z, color: v.color, material: v.material ?? VoxelMaterial.MATTE });
+  });
+  return Array.from(cells.values());
+}
+
+/** Rotates voxels by counterclockwise quarter turns about the Y axis through the origin. */
+export function rotateVoxelsY(voxels: VoxelData[], turns: number): VoxelData[] {
+  const quarter = ((turns % 4) + 4) % 4;
+  return voxels.map(v => {
+    let { x, z } = v;
+    for (let i = 0; i < quarter; i++) [x, z] = [z, -x];
+    return { ...v, x, z };
+  });
+}
+
+/** Mirrors voxels across the plane through the origin perpendicular to `axis`. */
+export function mirrorVoxels(voxels: VoxelData[], axis: Axis): VoxelData[] {
+  return voxels.map(v => ({ ...v, [axis]: -v[axis] }));
+}
+
+/** Replaces colors by the `swaps` lookup; colors without an entry are kept. */
+export function recolorVoxels(voxels: VoxelData[], swaps: Record<number, number>): VoxelData[] {
+  return voxels.map(v => (v.color in swaps ? { ...v, color: swaps[v.color] } : v));
+}
+
+/** Distinct colors used by the voxels, most frequent first. */
+export function paletteOf(voxels: VoxelData[]): number[] {
+  const counts = new Map<number, number>();
+  voxels.forEach(v => counts.set(v.color, (counts.get(v.color) ?? 0) + 1));
+  return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!);
+}
+
+/** Prefab voxels as the stamp settings place them: recolored, then mirrored, then rotated. */
+export function stampVoxels(stamp: StampSettings): VoxelData[] {
+  let voxels = recolorVoxels(stamp.prefab.data, stamp.swaps);
+  if (stamp.mirror) voxels = mirrorVoxels(voxels, 'x');
+  return rotateVoxelsY(voxels, stamp.turns);
+}
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, it, expect } from 'vitest';
+import { GridPoint } from '../types';
+import { hollowCells, enclosedCells, thickenCells, thinCells } from './voxelVolume';
+
+const cube = (size: number, skip: (c: GridPoint) => boolean = () => false): GridPoint[] => {
+  const cells: GridPoint[] = [];
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      for (let z = 0; z < size; z++) if (!skip({ x, y, z })) cells.push({ x, y, z });
+    }
+  }
+  return cells;
+};
+
+const inside = (size: number, wall: number) => (c: GridPoint) =>
+  [c.x, c.y, c.z].every(v => v >= wall && v < size - wall);
+
+describe('voxelVolume', () => {
+  it('hollows a solid cube down to a shell of the given thickness', () => {
+    expect(hollowCells(cube(5), 1)).toHaveLength(27);
+    expect(hollowCells(cube(5), 2)).toHaveLength(1);
+    expect(hollowCells(cube(2), 1)).toHaveLength(0);
+  });
+
+  it('finds the enclosed cavity of a hollow cube but not open air', () => {
+    expect(enclosedCells(cube(5, inside(5, 1)))).toHaveLength(27);
+    // Opening one face wall lets the outside reach the cavity
+    const open = cube(5, c => inside(5, 1)(c) || (c.x === 2 && c.y === 2 && c.z === 0));
+    expect(enclosedCells(open)).toHaveLength(0);
+  });
+
+  it('thickens walls into the cavity by one layer', () => {
+    const shell = cube(7, inside(7, 1));
+    const grown = thickenCells(shell);
+    // The 5³ cavity keeps its 3³ core
+    expect(grown).toHaveLength(125 - 27);
+    grown.forEach(({ cell, from }) => {
+      expect(Math.max(Math.abs(cell.x - from.x), Math.abs(cell.y - from.y), Math.abs(cell.z - from.z))).toBe(1);
+    });
+  });
+
+  it('thins only the inner wall layer and never punctures the shell', () => {
+    const shell = cube(7, inside(7, 2));
+    const removed = thinCells(shell);
+    expect(removed).toHaveLength(125 - 27);
+    expect(removed.every(c => inside(7, 1)(c))).toBe(true);
+    expect(thinCells(cube(5, inside(5, 1)))).toHaveLength(0);
+  });
+});
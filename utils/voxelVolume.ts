@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GridPoint } from '../types';
+import { voxelKey } from './voxelIndex';
+
+const FACE_NEIGHBORS: [number, number, number][] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+
+// Face, edge and corner neighbours, so wall layers peel and grow evenly around corners
+const ALL_NEIGHBORS: [number, number, number][] = [];
+for (let dx = -1; dx <= 1; dx++) {
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dz = -1; dz <= 1; dz++) if (dx || dy || dz) ALL_NEIGHBORS.push([dx, dy, dz]);
+  }
+}
+
+const neighborsOf = (c: GridPoint, offsets = FACE_NEIGHBORS): GridPoint[] =>
+  offsets.map(([dx, dy, dz]) => ({ x: c.x + dx, y: c.y + dy, z: c.z + dz }));
+
+/**
+ * Solid cells split by their surroundings. `exterior` is the air reachable from
+ * outside the bounding box (padded by one cell); every other empty cell inside
+ * the box is `enclosed`.
+ */
+interface VolumeAnalysis {
+  solid: Set<string>;
+  exterior: Set<string>;
+  enclosed: GridPoint[];
+}
+
+function analyzeVolume(cells: GridPoint[]): VolumeAnalysis {
+  const solid = new Set(cells.map(c => voxelKey(c.x, c.y, c.z)));
+  const min = { x: Infinity, y: Infinity, z: Infinity };
+  const max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  cells.forEach(c => {
+    min.x = Math.min(min.x, c.x - 1); min.y = Math.min(min.y, c.y - 1); min.z = Math.min(min.z, c.z - 1);
+    max.x = Math.max(max.x, c.x + 1); max.y = Math.max(max.y, c.y + 1); max.z = Math.max(max.z, c.z + 1);
+  });
+  const inBox = (c: GridPoint) =>
+    c.x >= min.x && c.x <= max.x && c.y >= min.y && c.y <= max.y && c.z >= min.z && c.z <= max.z;
+
+  // The padded corner is always empty and touches every outside face
+  const exterior = new Set<string>();
+  const queue: GridPoint[] = [];
+  if (cells.length > 0) {
+    exterior.add(voxelKey(min.x, min.y, min.z));
+    queue.push({ ...min });
+  }
+  for (let head = 0; head < queue.length; head++) {
+    neighborsOf(queue[head]).forEach(n => {
+      const key = voxelKey(n.x, n.y, n.z);
+      if (!inBox(n) || solid.has(key) || exterior.has(key)) return;
+      exterior.add(key);
+      queue.push(n);
+    });
+  }
+
+  const enclosed: GridPoint[] = [];
+  for (let x = min.x; x <= max.x; x++) {
+    for (let y = min.y; y <= max.y; y++) {
+      for (let z = min.z; z <= max.z; z++) {
+        const key = voxelKey(x, y, z);
+        if (!solid.has(key) && !exterior.has(key)) enclosed.push({ x, y, z });
+      }
+    }
+  }
+  return { solid, exterior, enclosed };
+}
+
+/**
+ * Solid cells deeper than `thickness` below the outside surface, the ones a
+ * hollow removes. Depth is counted in face steps from the exterior air, so
+ * existing cavities merge into the new one instead of keeping their own walls.
+ */
+export function hollowCells(cells: GridPoint[], thickness: number): GridPoint[] {
+  const { solid, exterior } = analyzeVolume(cells);
+  const depth = new Map<string, number>();
+  let frontier = cells.filter(c => neighborsOf(c).some(n => exterior.has(voxelKey(n.x, n.y, n.z))));
+  frontier.forEach(c => depth.set(voxelKey(c.x, c.y, c.z), 1));
+  for (let d = 2; d <= thickness && frontier.length > 0; d++) {
+    const next: GridPoint[] = [];
+    frontier.forEach(c => neighborsOf(c).forEach(n => {
+      const key = voxelKey(n.x, n.y, n.z);
+      if (!solid.has(key) || depth.has(key)) return;
+      depth.set(key, d);
+      next.push(n);
+    }));
+    frontier = next;
+  }
+  return cells.filter(c => !depth.has(voxelKey(c.x, c.y, c.z)));
+}
+
+/** Empty cells fully enclosed by the solid, unreachable from outside it. */
+export function enclosedCells(cells: GridPoint[]): GridPoint[] {
+  return analyzeVolume(cells).enclosed;
+}
+
+/**
+ * One layer of cavity cells against the inner wall, each paired with the wall
+ * cell it grows from. Thickening fills them; walls only grow inward.
+ */
+export function thickenCells(cells: GridPoint[]): { cell: GridPoint; from: GridPoint }[] {
+  const { solid, enclosed } = analyzeVolume(cells);
+  const grown: { cell: GridPoint; from: GridPoint }[] = [];
+  enclosed.forEach(cell => {
+    const from = neighborsOf(cell, ALL_NEIGHBORS).find(n => solid.has(voxelKey(n.x, n.y, n.z)));
+    if (from) grown.push({ cell, from });
+  });
+  return grown;
+}
+
+/**
+ * Wall cells facing an enclosed cavity, the layer thinning removes. Cells that
+ * also face the outside are kept so the shell is never punctured.
+ */
+export function thinCells(cells: GridPoint[]): GridPoint[] {
+  const { exterior, enclosed } = analyzeVolume(cells);
+  const cavity = new Set(enclosed.map(c => voxelKey(c.x, c.y, c.z)));
+  return cells.filter(c => {
+    const keys = neighborsOf(c, ALL_NEIGHBORS).map(n => voxelKey(n.x, n.y, n.z));
+    return keys.some(k => cavity.has(k)) && !neighborsOf(c).some(n => exterior.has(voxelKey(n.x, n.y, n.z)));
+  });
+}